@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the discount REST API, e.g. http://localhost:3001/api
+  readonly VITE_DISCOUNT_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
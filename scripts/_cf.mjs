@@ -0,0 +1,21 @@
+import { createServer as createViteServer } from 'vite';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const cd = await vite.ssrLoadModule('/src/utils/conflictDetection.ts');
+const dd = await vite.ssrLoadModule('/src/utils/dateUtils.ts');
+await vite.close();
+const N = 1000000;
+const engine = de.createInThreadDataEngine();
+let records = await engine.generate(N);
+let t = performance.now();
+const tr = cd.createConflictTracker();
+const c = tr.reset(records);
+console.log('reset', performance.now() - t, 'conflicts', c.size);
+const keys = new Map(); records.forEach(r => { const k = cd.getConflictKey(r); keys.set(k, (keys.get(k) ?? 0) + 1); });
+console.log('groups', keys.size);
+for (let i = 0; i < 3; i++) {
+  const upd = records.slice(0, 50000).map(r => ({ ...r, percent: 40 + i }));
+  t = performance.now(); tr.update(upd, []); console.log('update', performance.now() - t);
+}
+t = performance.now(); tr.update([{ ...records[500000], percent: 3 }], []); console.log('update1', performance.now() - t);
+for (let i = 0; i < 3; i++) { t = performance.now(); records.slice(0, 50000).forEach(r => { dd.getStartInstant(r); dd.getEndInstant(r); dd.getRecordTimeZone(r); }); console.log('instants', performance.now() - t); }
@@ -0,0 +1,24 @@
+import { createServer as createViteServer } from 'vite';
+import inspector from 'node:inspector/promises';
+import fs from 'node:fs';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const cd = await vite.ssrLoadModule('/src/utils/conflictDetection.ts');
+const dd = await vite.ssrLoadModule('/src/composables/useDiscountData.ts');
+await vite.close();
+const N = 1000000;
+const engine = de.createInThreadDataEngine();
+let records = await engine.generate(N);
+const tr = cd.createConflictTracker();
+tr.reset(records);
+const upd0 = records.slice(0, 50000).map(r => ({ ...r, percent: 40 }));
+tr.update(upd0, []);
+const s = new inspector.Session(); s.connect();
+await s.post('Profiler.enable'); await s.post('Profiler.start');
+for (let i = 0; i < 3; i++) {
+  const upd = records.slice(0, 50000).map(r => ({ ...r, percent: 41 + i }));
+  const t = performance.now(); tr.update(upd, []); console.log('update', performance.now() - t);
+}
+const { profile } = await s.post('Profiler.stop');
+fs.rmSync('/tmp/prof', { recursive: true, force: true }); fs.mkdirSync('/tmp/prof');
+fs.writeFileSync('/tmp/prof/p.cpuprofile', JSON.stringify(profile));
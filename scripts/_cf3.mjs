@@ -0,0 +1,24 @@
+import { createServer as createViteServer } from 'vite';
+import inspector from 'node:inspector/promises';
+import fs from 'node:fs';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const cd = await vite.ssrLoadModule('/src/utils/conflictDetection.ts');
+const dd = await vite.ssrLoadModule('/src/utils/dateUtils.ts');
+await vite.close();
+const engine = de.createInThreadDataEngine();
+const records = (await engine.generate(1000000)).map(r => ({ ...r, startInstant: dd.getStartInstant(r), endInstant: dd.getEndInstant(r) }));
+const tr = cd.createConflictTracker();
+let t = performance.now(); const c = tr.reset(records); console.log('reset', performance.now() - t, c.size);
+const removed = records.slice(0, 50000);
+const ids = removed.map(r => r.clientId);
+for (let i = 0; i < 3; i++) {
+  t = performance.now(); tr.update([], ids); console.log('del', (performance.now() - t).toFixed(0));
+  t = performance.now(); tr.update(removed.map(r => ({ ...r })), []); console.log('ins', (performance.now() - t).toFixed(0));
+}
+const s = new inspector.Session(); s.connect();
+await s.post('Profiler.enable'); await s.post('Profiler.start');
+for (let i = 0; i < 3; i++) { tr.update([], ids); tr.update(removed, []); }
+const { profile } = await s.post('Profiler.stop');
+fs.rmSync('/tmp/prof', { recursive: true, force: true }); fs.mkdirSync('/tmp/prof');
+fs.writeFileSync('/tmp/prof/p.cpuprofile', JSON.stringify(profile));
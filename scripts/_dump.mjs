@@ -0,0 +1,5 @@
+import { createServer } from 'vite';
+const vite = await createServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const r = await vite.transformRequest(process.argv[2], { ssr: true });
+console.log(r.code);
+await vite.close();
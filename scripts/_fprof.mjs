@@ -0,0 +1,32 @@
+import { createServer as createViteServer } from 'vite';
+import { performance } from 'node:perf_hooks';
+import inspector from 'node:inspector/promises';
+import fs from 'node:fs';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const dataEngine = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const gen = await vite.ssrLoadModule('/src/utils/mockDataGenerator.ts');
+const dateUtils = await vite.ssrLoadModule('/src/utils/dateUtils.ts');
+await vite.close();
+const N = 1000000;
+// cheap records: reuse 20k generated with unique ids
+const base = Array.from({length: 20000}, (_, i) => gen.generateDiscountRecord(i, 20000));
+const records = Array.from({length: N}, (_, i) => ({ ...base[i % 20000], clientId: 'ORG_X_' + String(i).padStart(7, '0'), month: dateUtils.getMonthName(base[i % 20000].startDate) }));
+const engine = dataEngine.createInThreadDataEngine();
+await engine.load(records);
+const clients = [...new Set(records.slice(0, 1000).map(r => r.client))].slice(0, 5);
+const reqs = {
+  sale: { query: 'sale', filterModel: {} },
+  steam: { query: 'platform:Steam percent>=50', filterModel: {} },
+  set: { query: '', filterModel: { client: { filterType: 'set', values: clients } } },
+  winter: { query: '', filterModel: { discount: { filterType: 'text', type: 'contains', filter: 'winter' } } },
+};
+const session = new inspector.Session(); session.connect(); await session.post('Profiler.enable');
+await engine.filter({ ...reqs.sale, restrictTo: null, lengthUnit: 'days' });
+await session.post('Profiler.start');
+for (const [k, r] of Object.entries(reqs)) {
+  const ds = [];
+  for (let i = 0; i < 6; i++) { const s = performance.now(); const res = await engine.filter({ ...r, restrictTo: null, lengthUnit: 'days' }); ds.push(performance.now() - s); if (i === 0) console.log(k, 'rows', res.gridIds?.length, res.filteredIds?.length); }
+  console.log(k, ds.map(d => d.toFixed(0)).join(' '));
+}
+
+const { profile } = await session.post('Profiler.stop'); fs.mkdirSync('/tmp/prof', { recursive: true }); fs.writeFileSync('/tmp/prof/f.cpuprofile', JSON.stringify(profile));
@@ -0,0 +1,16 @@
+import { createServer as createViteServer } from 'vite';
+import { performance } from 'node:perf_hooks';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const ri = await vite.ssrLoadModule('/src/utils/recordIndex.ts');
+const gen = await vite.ssrLoadModule('/src/utils/mockDataGenerator.ts');
+await vite.close();
+const N = 1000000;
+const base = Array.from({length: 20000}, (_, i) => gen.generateDiscountRecord(i, 20000));
+const records = Array.from({length: N}, (_, i) => ({ ...base[i % 20000], clientId: 'ORG_X_' + String(i).padStart(7, '0') }));
+const flags = new Uint8Array(N); for (let i = 0; i < N; i += 8) flags[i] = 1;
+function loop(recs) { const ids = []; const cb = p => { if (flags[p] === 1) ids.push(recs[p].clientId); }; for (let i = 0; i < N; i++) cb(i); return ids; }
+function t(name, f) { f(); const s = performance.now(); for (let i = 0; i < 3; i++) f(); console.log(name, ((performance.now() - s) / 3).toFixed(1)); }
+t('harness records', () => loop(records));
+const index = ri.createRecordIndex(records);
+t('index records', () => loop(index.records));
+t('harness again', () => loop(records));
@@ -0,0 +1,25 @@
+import { createServer as createViteServer } from 'vite';
+import { performance } from 'node:perf_hooks';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const ri = await vite.ssrLoadModule('/src/utils/recordIndex.ts');
+const gen = await vite.ssrLoadModule('/src/utils/mockDataGenerator.ts');
+await vite.close();
+const N = 1000000;
+const base = Array.from({length: 20000}, (_, i) => gen.generateDiscountRecord(i, 20000));
+const records = Array.from({length: N}, (_, i) => ({ ...base[i % 20000], clientId: 'ORG_X_' + String(i).padStart(7, '0') }));
+const index = ri.createRecordIndex(records);
+function loop(recs, flags) { const ids = []; for (let i = 0; i < N; i++) if (flags[i] === 1) ids.push(recs[i].clientId); return ids; }
+function t(name, f) { f(); const s = performance.now(); for (let i = 0; i < 3; i++) f(); console.log(name, ((performance.now() - s) / 3).toFixed(1)); }
+const f1 = new Uint8Array(N); for (let i = 0; i < N; i += 15) f1[i] = 1;
+t('regular flags', () => loop(index.records, f1));
+const f2 = index.matchValues('discount', v => v.toLowerCase().includes('winter'));
+let c = 0; for (let i = 0; i < N; i++) c += f2[i]; console.log('count', c);
+t('winter flags', () => loop(index.records, f2));
+t('winter flags harness recs', () => loop(records, f2));
+t('matchValues', () => index.matchValues('discount', v => v.toLowerCase().includes('winter')));
+const vite2 = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite2.ssrLoadModule('/src/services/dataEngine.ts');
+await vite2.close();
+const engine = de.createInThreadDataEngine();
+await engine.load(records);
+for (let i = 0; i < 5; i++) { const s = performance.now(); await engine.filter({ query: '', filterModel: { discount: { filterType: 'text', type: 'contains', filter: 'winter' } }, restrictTo: null, lengthUnit: 'days' }); console.log('engine winter', (performance.now() - s).toFixed(0)); }
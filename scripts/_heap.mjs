@@ -0,0 +1,32 @@
+import { createServer as createViteServer } from 'vite';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const mr = await vite.ssrLoadModule('/src/services/mockDiscountRepository.ts');
+const ri = await vite.ssrLoadModule('/src/utils/recordIndex.ts');
+const cd = await vite.ssrLoadModule('/src/utils/conflictDetection.ts');
+const vr = await vite.ssrLoadModule('/src/utils/validationRules.ts');
+const dd = await vite.ssrLoadModule('/src/composables/useDiscountData.ts');
+await vite.close();
+const h = (l) => { gc(); gc(); console.log('HEAP', l, (process.memoryUsage().heapUsed / 1e6).toFixed(0)); };
+const N = 1000000;
+h('start');
+const engine = de.createInThreadDataEngine();
+let records = await engine.generate(N);
+h('generated');
+const repo = mr.createMockDiscountRepository(records);
+h('repo');
+records = null;
+h('repo only');
+const list = await repo.list({count: N});
+h('list copy');
+const store = dd.useDiscountData(repo, engine);
+await store.loadData(N);
+h('store loaded');
+const keep = [];
+const idx = ri.createRecordIndex(store.rawData.value); keep.push(idx);
+h('+1 index');
+const tr = cd.createConflictTracker(); tr.reset(store.rawData.value); keep.push(tr);
+h('+1 tracker');
+const v = vr.validateRecords(store.rawData.value); keep.push(v); console.log('invalid', v.size);
+h('+1 validation');
+console.log(keep.length, list.length);
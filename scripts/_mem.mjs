@@ -0,0 +1,25 @@
+import { createServer as createViteServer } from 'vite';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const mr = await vite.ssrLoadModule('/src/services/mockDiscountRepository.ts');
+const dd = await vite.ssrLoadModule('/src/composables/useDiscountData.ts');
+await vite.close();
+const N = Number(process.env.N ?? 1000000);
+const mem = l => { global.gc(); console.log('MEM', l, (process.memoryUsage().heapUsed / 1e6).toFixed(0)); };
+mem('start');
+const engine = de.createInThreadDataEngine();
+let records = await engine.generate(N);
+mem('generated');
+const repo = mr.createMockDiscountRepository(records);
+records = null;
+mem('repo');
+const store = dd.useDiscountData(repo, engine);
+await store.loadData(N);
+mem('loaded');
+await new Promise(r => setTimeout(r, 100));
+mem('loaded+settle');
+const upd = store.rawData.value.slice(0, 50000).map(r => ({ ...r, percent: 40 }));
+await store.updateRecords(upd);
+mem('bulk1');
+await store.updateRecords(store.rawData.value.slice(0, 50000).map(r => ({ ...r, percent: 41 })));
+mem('bulk2');
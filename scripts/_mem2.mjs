@@ -0,0 +1,31 @@
+import { createServer as createViteServer } from 'vite';
+import inspector from 'node:inspector/promises';
+import fs from 'node:fs';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const mr = await vite.ssrLoadModule('/src/services/mockDiscountRepository.ts');
+const dd = await vite.ssrLoadModule('/src/composables/useDiscountData.ts');
+await vite.close();
+const N = Number(process.env.N ?? 1000000);
+const engine = de.createInThreadDataEngine();
+let records = await engine.generate(N);
+const repo = mr.createMockDiscountRepository(records);
+records = null;
+const store = dd.useDiscountData(repo, engine);
+await store.loadData(N);
+await new Promise(r => setTimeout(r, 100));
+const op = process.env.OP ?? 'upd';
+const ids = store.rawData.value.slice(0, 50000).map(r => r.clientId);
+const run = async (i) => {
+  if (op === 'upd') await store.updateRecords(store.rawData.value.slice(0, 50000).map(r => ({ ...r, percent: 40 + i })));
+  if (op === 'del') { await store.deleteRecords(ids); await store.undo(); }
+};
+await run(0);
+const s = new inspector.Session(); s.connect();
+await s.post('Profiler.enable'); await s.post('Profiler.start');
+const t = performance.now();
+await run(1); await run(2);
+console.log('TIME', (performance.now() - t) / 2);
+const { profile } = await s.post('Profiler.stop');
+fs.rmSync('/tmp/prof', { recursive: true, force: true }); fs.mkdirSync('/tmp/prof');
+fs.writeFileSync('/tmp/prof/p.cpuprofile', JSON.stringify(profile));
@@ -0,0 +1,22 @@
+import { createServer as createViteServer } from 'vite';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const mr = await vite.ssrLoadModule('/src/services/mockDiscountRepository.ts');
+const dd = await vite.ssrLoadModule('/src/composables/useDiscountData.ts');
+await vite.close();
+const N = 1000000;
+const engine = de.createInThreadDataEngine();
+let records = await engine.generate(N);
+const repo = mr.createMockDiscountRepository(records);
+records = null;
+const store = dd.useDiscountData(repo, engine);
+await store.loadData(N);
+const settle = async () => { do { await new Promise(r => setTimeout(r, 0)); } while (store.isFiltering.value); };
+for (let i = 0; i < 5; i++) {
+  store.clearFilters(); await settle();
+  let t = performance.now();
+  store.setQuery('sale'); await settle();
+  const t1 = performance.now() - t;
+  const n = store.gridRowData.value.length;
+  console.log('filter', t1.toFixed(0), 'select', (performance.now() - t - t1).toFixed(0), n);
+}
@@ -0,0 +1,24 @@
+import { createServer as createViteServer } from 'vite';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const mr = await vite.ssrLoadModule('/src/services/mockDiscountRepository.ts');
+const dd = await vite.ssrLoadModule('/src/composables/useDiscountData.ts');
+await vite.close();
+const N = Number(process.env.N ?? 1000000);
+const engine = de.createInThreadDataEngine();
+let records = await engine.generate(N);
+const repo = mr.createMockDiscountRepository(records);
+records = null;
+const store = dd.useDiscountData(repo, engine);
+await store.loadData(N);
+console.log('HEAP', (process.memoryUsage().heapUsed / 1e6).toFixed(0));
+const ids = store.rawData.value.slice(0, 50000).map(r => r.clientId);
+const tm = async (n, f) => { const s = performance.now(); await f(); console.log('T', n, (performance.now() - s).toFixed(0)); };
+for (let i = 0; i < 5; i++) {
+  await tm('upd', () => store.updateRecords(store.rawData.value.slice(0, 50000).map(r => ({ ...r, percent: 40 + i }))));
+}
+for (let i = 0; i < 5; i++) {
+  await tm('del', () => store.deleteRecords(ids));
+  await tm('undo', () => store.undo());
+}
+console.log('HEAP', (process.memoryUsage().heapUsed / 1e6).toFixed(0));
@@ -0,0 +1,5 @@
+import { createServer as createViteServer } from 'vite';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const r = await vite.transformRequest(process.argv[2], { ssr: true });
+await vite.close();
+r.code.split('\n').forEach((l, i) => console.log(i, l));
@@ -0,0 +1,20 @@
+import { createServer as createViteServer } from 'vite';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const vr = await vite.ssrLoadModule('/src/utils/validationRules.ts');
+const du = await vite.ssrLoadModule('/src/utils/dateUtils.ts');
+await vite.close();
+const engine = de.createInThreadDataEngine();
+const records = (await engine.generate(50000));
+for (let i = 0; i < 5; i++) {
+  let t = performance.now(); records.forEach(r => vr.validateRecord(r)); console.log('validate', (performance.now() - t).toFixed(0));
+  t = performance.now(); records.forEach(r => { du.getStartInstant(r); du.getEndInstant(r); }); console.log('instants', (performance.now() - t).toFixed(0));
+  t = performance.now(); records.forEach(r => vr.validateField('startTime', r.startTime)); console.log('field', (performance.now() - t).toFixed(0));
+}
+const inspector = await import('node:inspector/promises'); const fs = await import('node:fs');
+const s = new inspector.Session(); s.connect();
+await s.post('Profiler.enable'); await s.post('Profiler.start');
+for (let i = 0; i < 5; i++) records.forEach(r => vr.validateRecord(r));
+const { profile } = await s.post('Profiler.stop');
+fs.rmSync('/tmp/prof', { recursive: true, force: true }); fs.mkdirSync('/tmp/prof');
+fs.writeFileSync('/tmp/prof/p.cpuprofile', JSON.stringify(profile));
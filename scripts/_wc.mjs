@@ -0,0 +1,25 @@
+import { createServer as createViteServer } from 'vite';
+const vite = await createViteServer({ root: '/root/tree', configFile: false, server: { middlewareMode: true, hmr: false }, optimizeDeps: { noDiscovery: true }, appType: 'custom', logLevel: 'error' });
+const de = await vite.ssrLoadModule('/src/services/dataEngine.ts');
+const dr = await vite.ssrLoadModule('/src/services/discountRepository.ts');
+const du = await vite.ssrLoadModule('/src/utils/dateUtils.ts');
+await vite.close();
+const engine = de.createInThreadDataEngine();
+const recs = await engine.generate(50000);
+const wc = record => { const w = { ...record, timezone: du.getRecordTimeZone(record) }; const s = du.getStartInstant(w), e = du.getEndInstant(w); return { ...w, month: du.getMonthName(record.startDate), length: du.getDurationBetween(s, e), lengthHours: du.getDurationBetween(s, e, 'hours'), startInstant: s, endInstant: e }; };
+const t = (n, f) => { for (let k = 0; k < 4; k++) { const s = performance.now(); f(); console.log(n, (performance.now() - s).toFixed(0)); } };
+t('wc plain', () => recs.map(wc));
+const stored = recs.map(r => ({ ...dr.toStoredRecord(r) }));
+console.log('%HasFastProperties', typeof globalThis.eval);
+t('wc stored', () => stored.map(wc));
+t('toStored', () => recs.map(r => ({ ...dr.toStoredRecord(r) })));
+t('tz', () => recs.map(r => ({ ...r, timezone: du.getRecordTimeZone(r) })));
+const w = recs.map(r => ({ ...r, timezone: du.getRecordTimeZone(r) }));
+t('start', () => w.map(r => du.getStartInstant(r)));
+t('month', () => w.map(r => du.getMonthName(r.startDate)));
+t('spread2', () => w.map(r => ({ ...r, month: 'x', length: 1, lengthHours: 2, startInstant: 3, endInstant: 4 })));
+console.log(Object.keys(w[0]));
+t('assign', () => w.map(r => { const c = { ...r }; c.month = 'x'; c.length = 1; c.lengthHours = 2; c.startInstant = 3; c.endInstant = 4; return c; }));
+const stripped = w.map(r => dr.toStoredRecord(r));
+t('spread2 stripped', () => stripped.map(r => ({ ...r, month: 'x', length: 1, lengthHours: 2, startInstant: 3, endInstant: 4 })));
+t('spread2 stripped+tz', () => stripped.map(r => ({ ...r, timezone: 'UTC', month: 'x', length: 1, lengthHours: 2, startInstant: 3, endInstant: 4 })));
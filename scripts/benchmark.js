@@ -0,0 +1,231 @@
+/**
+ * Benchmarks of the record index and data engine at a large row count
+ * Times the operations a user triggers (edits, bulk changes, filters, value counts) against the
+ * interaction budget, using the same modules the app runs: first the record index and data engine on
+ * their own, then the same changes through the data store the app calls
+ *
+ * Usage: npm run benchmark  (BENCH_COUNT and BENCH_RUNS environment variables are optional)
+ */
+
+import { fileURLToPath } from 'node:url';
+import { performance } from 'node:perf_hooks';
+import { createServer as createViteServer } from 'vite';
+
+const COUNT = Number(process.env.BENCH_COUNT ?? 1000000);
+const RUNS = Number(process.env.BENCH_RUNS ?? 5);
+
+// Longest an interaction may take and still feel immediate
+const INTERACTION_BUDGET_MS = 100;
+
+// Longest a bulk change of many rows may take
+const BULK_BUDGET_MS = 1000;
+
+// Rows changed by the bulk benchmarks
+const BULK_COUNT = 50000;
+
+/**
+ * Load the app's modules through Vite so the TypeScript sources run as they are
+ */
+async function loadModules() {
+  const vite = await createViteServer({
+    root: fileURLToPath(new URL('..', import.meta.url)),
+    configFile: false,
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true },
+    appType: 'custom',
+    logLevel: 'error'
+  });
+  const [dateUtils, queryLanguage, recordIndex, dataEngine, mockRepository, discountData] = await Promise.all([
+    vite.ssrLoadModule('/src/utils/dateUtils.ts'),
+    vite.ssrLoadModule('/src/utils/queryLanguage.ts'),
+    vite.ssrLoadModule('/src/utils/recordIndex.ts'),
+    vite.ssrLoadModule('/src/services/dataEngine.ts'),
+    vite.ssrLoadModule('/src/services/mockDiscountRepository.ts'),
+    vite.ssrLoadModule('/src/composables/useDiscountData.ts')
+  ]);
+  await vite.close();
+  return { dateUtils, queryLanguage, recordIndex, dataEngine, mockRepository, discountData };
+}
+
+/**
+ * Median time of several runs; setup runs before each one and is not timed
+ * Repeated operations get one untimed warm-up run first, which also builds any lazy indexes
+ */
+async function time(run, { runs = RUNS, setup } = {}) {
+  if (runs > 1) {
+    await run(setup ? await setup() : undefined);
+  }
+
+  const durations = [];
+  for (let i = 0; i < runs; i++) {
+    const context = setup ? await setup() : undefined;
+    const start = performance.now();
+    await run(context);
+    durations.push(performance.now() - start);
+  }
+  durations.sort((a, b) => a - b);
+  return durations[Math.floor(durations.length / 2)];
+}
+
+async function main() {
+  const { dateUtils, queryLanguage, recordIndex, dataEngine, mockRepository, discountData } = await loadModules();
+  const results = [];
+
+  /**
+   * Record a result and check it against its budget, if it has one
+   * Baselines time the previous scan-based approach for comparison and have no budget
+   */
+  function report(operation, ms, budget = INTERACTION_BUDGET_MS) {
+    results.push({
+      operation,
+      'median (ms)': Number(ms.toFixed(2)),
+      budget: budget ? `${budget} ms` : '-',
+      ok: budget ? (ms <= budget ? 'yes' : 'NO') : '-'
+    });
+    console.log(`${operation}: ${ms.toFixed(2)} ms`);
+  }
+
+  console.log(`Benchmarking ${COUNT.toLocaleString()} rows, median of ${RUNS} runs\n`);
+
+  const engine = dataEngine.createInThreadDataEngine();
+
+  let records;
+  report('Generate records', await time(async () => {
+    records = await engine.generate(COUNT);
+  }, { runs: 1 }), null);
+  records.forEach(record => {
+    record.month = dateUtils.getMonthName(record.startDate);
+  });
+
+  let index;
+  report('Build record index', await time(() => {
+    index = recordIndex.createRecordIndex(records);
+  }, { runs: 1 }), null);
+  await engine.load(records);
+
+  const middle = records[Math.floor(COUNT / 2)];
+  report('Update one record by clientId', await time(() => {
+    index.replace([{ ...middle, percent: 55 }]);
+  }));
+  report('Baseline: find one record with findIndex', await time(() => {
+    records.findIndex(record => record.clientId === middle.clientId);
+  }), null);
+
+  const bulk = records.slice(0, BULK_COUNT);
+  report(`Bulk update ${BULK_COUNT.toLocaleString()} records`, await time(updated => {
+    index.replace(updated);
+  }, {
+    setup: () => bulk.map(record => ({ ...record, percent: 40 }))
+  }), BULK_BUDGET_MS);
+
+  const bulkIds = bulk.map(record => record.clientId);
+  let removed = [];
+  report(`Delete ${BULK_COUNT.toLocaleString()} records`, await time(() => {
+    removed = index.remove(bulkIds);
+  }, {
+    setup: () => {
+      if (removed.length > 0) index.insert(removed);
+    }
+  }), BULK_BUDGET_MS);
+  report(`Undo delete of ${BULK_COUNT.toLocaleString()} records`, await time(() => {
+    index.insert(removed);
+  }, {
+    setup: () => {
+      if (index.size === COUNT) removed = index.remove(bulkIds);
+    }
+  }), BULK_BUDGET_MS);
+
+  const clients = Array.from(index.getValueCounts('client').keys()).slice(0, 5);
+  const filters = [
+    ['Filter: free text "sale"', { query: 'sale', filterModel: {} }],
+    ['Filter: platform:Steam percent>=50', { query: 'platform:Steam percent>=50', filterModel: {} }],
+    ['Filter: set filter on 5 clients', {
+      query: '',
+      filterModel: { client: { filterType: 'set', values: clients } }
+    }],
+    ['Filter: discount contains "winter"', {
+      query: '',
+      filterModel: { discount: { filterType: 'text', type: 'contains', filter: 'winter' } }
+    }]
+  ];
+  for (const [operation, request] of filters) {
+    report(operation, await time(() => engine.filter({ ...request, restrictTo: null, lengthUnit: 'days' })));
+  }
+  const freeText = queryLanguage.compileQuery(queryLanguage.parseQuery('sale'));
+  report('Baseline: free text "sale" lowercasing every row', await time(() => {
+    records.filter(freeText);
+  }), null);
+
+  report('Value counts for every indexed field', await time(() => {
+    recordIndex.INDEXED_FIELDS.forEach(field => index.getValueCounts(field));
+  }));
+
+  report('Export 100,000 sorted records as CSV', await time(() => engine.serialize({
+    ids: records.slice(0, 100000).map(record => record.clientId),
+    sortModel: [{ colId: 'percent', sort: 'desc' }],
+    format: 'csv',
+    lengthUnit: 'days'
+  }), { runs: 1 }), null);
+
+  // The index, its records and the engine's copy are replaced by the store's own below, which keeps memory in bounds
+  const repository = mockRepository.createMockDiscountRepository(records);
+  records = null;
+  index = null;
+  await engine.load([]);
+
+  const store = discountData.useDiscountData(repository, engine);
+  report('Store: load records', await time(() => store.loadData(COUNT), { runs: 1 }), null);
+
+  /**
+   * Wait until the filter the last change started has finished
+   */
+  async function settle() {
+    do {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    } while (store.isFiltering.value);
+  }
+
+  const storeMiddle = store.rawData.value[Math.floor(COUNT / 2)];
+  report('Store: update one record', await time(() => store.updateRecord({ ...storeMiddle, percent: 55 })));
+
+  report(`Store: bulk update ${BULK_COUNT.toLocaleString()} records`, await time(updated => store.updateRecords(updated), {
+    setup: () => store.rawData.value.slice(0, BULK_COUNT).map(record => ({ ...record, percent: 40 }))
+  }), BULK_BUDGET_MS);
+
+  const storeBulkIds = store.rawData.value.slice(0, BULK_COUNT).map(record => record.clientId);
+  report(`Store: delete ${BULK_COUNT.toLocaleString()} records`, await time(() => store.deleteRecords(storeBulkIds), {
+    setup: async () => {
+      if (store.totalRecords.value < COUNT) await store.undo();
+    }
+  }), BULK_BUDGET_MS);
+  report(`Store: undo delete of ${BULK_COUNT.toLocaleString()} records`, await time(() => store.undo(), {
+    setup: async () => {
+      if (store.totalRecords.value === COUNT) await store.deleteRecords(storeBulkIds);
+    }
+  }), BULK_BUDGET_MS);
+
+  report('Store: search "sale" until the grid rows are ready', await time(async () => {
+    store.setQuery('sale');
+    await settle();
+    void store.gridRowData.value.length;
+  }, {
+    setup: async () => {
+      store.clearFilters();
+      await settle();
+    }
+  }));
+
+  console.log('');
+  console.table(results);
+
+  const failed = results.filter(result => result.ok === 'NO');
+  if (failed.length > 0) {
+    console.log(`\n${failed.length} operation(s) over budget`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
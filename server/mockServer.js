@@ -0,0 +1,248 @@
+/**
+ * Local mock server for the discount REST API
+ * Serves the same API as HttpDiscountRepository over a seeded in-memory dataset
+ *
+ * Usage: npm run mock-server  (PORT and SEED_COUNT environment variables are optional)
+ */
+
+import http from 'node:http';
+import { fileURLToPath } from 'node:url';
+import { createServer as createViteServer } from 'vite';
+
+const PORT = Number(process.env.PORT ?? 3001);
+const SEED_COUNT = Number(process.env.SEED_COUNT ?? 10000);
+const API_PREFIX = '/api';
+
+/**
+ * Load the app's mock data generator so the server seeds the same kind of records
+ */
+async function loadGenerator() {
+  const vite = await createViteServer({
+    root: fileURLToPath(new URL('..', import.meta.url)),
+    configFile: false,
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true },
+    appType: 'custom',
+    logLevel: 'error'
+  });
+  const generator = await vite.ssrLoadModule('/src/utils/mockDataGenerator.ts');
+  await vite.close();
+  return generator.generateMockData;
+}
+
+// Error with an HTTP status code, turned into a JSON error response
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Remove UI-only computed fields before storing a record
+ */
+function toStoredRecord(record) {
+  const {
+    month: _month,
+    length: _length,
+    lengthHours: _lengthHours,
+    startInstant: _startInstant,
+    endInstant: _endInstant,
+    ...stored
+  } = record;
+  return stored;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      try {
+        resolve(chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined);
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Write a JSON response with CORS headers for the Vite dev server
+ */
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+/**
+ * Validate that a request body looks like a discount record
+ */
+function requireRecord(body) {
+  if (!body || typeof body !== 'object' || typeof body.clientId !== 'string' || !body.clientId) {
+    throw new HttpError(400, 'Request body must be a discount record with a clientId');
+  }
+  return toStoredRecord(body);
+}
+
+/**
+ * Validate a { records: [...] } bulk request body
+ */
+function requireRecords(body) {
+  if (!body || !Array.isArray(body.records)) {
+    throw new HttpError(400, 'Request body must contain a records array');
+  }
+  return body.records.map(requireRecord);
+}
+
+/**
+ * Read the count and fresh options of a list request
+ * count must be a positive whole number; fresh is true or false
+ */
+function readListOptions(searchParams) {
+  const countParam = searchParams.get('count');
+  const freshParam = searchParams.get('fresh');
+
+  const count = countParam === null ? null : Number(countParam);
+  if (count !== null && (!Number.isInteger(count) || count <= 0)) {
+    throw new HttpError(400, `Invalid count "${countParam}" (expected a positive whole number)`);
+  }
+  if (freshParam !== null && freshParam !== 'true' && freshParam !== 'false') {
+    throw new HttpError(400, `Invalid fresh "${freshParam}" (expected true or false)`);
+  }
+
+  return { count, fresh: freshParam === 'true' };
+}
+
+async function main() {
+  const generateMockData = await loadGenerator();
+
+  // Records keyed by clientId; Map preserves insertion order for listing
+  let records = new Map();
+  let seededCount = 0;
+
+  /**
+   * Replace the dataset with count freshly generated records
+   */
+  function seed(count) {
+    records = new Map(generateMockData(count).map(record => [record.clientId, record]));
+    seededCount = count;
+  }
+
+  seed(SEED_COUNT);
+
+  /**
+   * Route a request to the matching handler
+   */
+  async function handle(req, res) {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    const path = url.pathname.startsWith(API_PREFIX) ? url.pathname.slice(API_PREFIX.length) : null;
+    const method = req.method ?? 'GET';
+
+    if (method === 'OPTIONS') {
+      return send(res, 204);
+    }
+
+    if (path === '/discounts' && method === 'GET') {
+      // Reseed when a different size or a fresh dataset is requested, as the in-memory repository does
+      const { count, fresh } = readListOptions(url.searchParams);
+      if (fresh || (count !== null && count !== seededCount)) {
+        seed(count ?? seededCount);
+      }
+      return send(res, 200, Array.from(records.values()));
+    }
+
+    if (path === '/discounts' && method === 'POST') {
+      const record = requireRecord(await readJson(req));
+      if (records.has(record.clientId)) {
+        throw new HttpError(409, `Record ${record.clientId} already exists`);
+      }
+      records.set(record.clientId, record);
+      return send(res, 201, record);
+    }
+
+    if (path === '/discounts/bulk-create' && method === 'POST') {
+      const newRecords = requireRecords(await readJson(req));
+      const duplicate = newRecords.find(record => records.has(record.clientId));
+      if (duplicate) {
+        throw new HttpError(409, `Record ${duplicate.clientId} already exists`);
+      }
+      newRecords.forEach(record => records.set(record.clientId, record));
+      return send(res, 201, newRecords);
+    }
+
+    if (path === '/discounts/bulk-update' && method === 'POST') {
+      const updatedRecords = requireRecords(await readJson(req));
+      const missing = updatedRecords.find(record => !records.has(record.clientId));
+      if (missing) {
+        throw new HttpError(404, `Record ${missing.clientId} not found`);
+      }
+      updatedRecords.forEach(record => records.set(record.clientId, record));
+      return send(res, 200, updatedRecords);
+    }
+
+    if (path === '/discounts/bulk-delete' && method === 'POST') {
+      const body = await readJson(req);
+      if (!body || !Array.isArray(body.clientIds)) {
+        throw new HttpError(400, 'Request body must contain a clientIds array');
+      }
+      const deleted = body.clientIds.filter(clientId => records.delete(clientId)).length;
+      return send(res, 200, { deleted });
+    }
+
+    const match = path?.match(/^\/discounts\/([^/]+)$/);
+    if (match) {
+      const clientId = decodeURIComponent(match[1]);
+      const existing = records.get(clientId);
+      if (!existing) {
+        throw new HttpError(404, `Record ${clientId} not found`);
+      }
+
+      if (method === 'GET') {
+        return send(res, 200, existing);
+      }
+      if (method === 'PUT') {
+        const record = requireRecord(await readJson(req));
+        if (record.clientId !== clientId) {
+          throw new HttpError(400, 'clientId in body does not match the URL');
+        }
+        records.set(clientId, record);
+        return send(res, 200, record);
+      }
+      if (method === 'DELETE') {
+        records.delete(clientId);
+        return send(res, 204);
+      }
+    }
+
+    throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+  }
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) {
+        console.error('Request failed:', error);
+      }
+      send(res, status, { error: error.message });
+    });
+  });
+
+  server.listen(PORT, () => {
+    console.log(`Mock discount API with ${records.size} records at http://localhost:${PORT}${API_PREFIX}`);
+  });
+}
+
+main().catch(error => {
+  console.error('Failed to start mock server:', error);
+  process.exit(1);
+});
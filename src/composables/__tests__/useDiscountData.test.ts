@@ -0,0 +1,86 @@
+/**
+ * Tests for the discount data store undo/redo history and engine-backed filtering
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { flushPromises } from '@vue/test-utils';
+import { useDiscountData } from '../useDiscountData';
+import { createMockDiscountRepository } from '../../services/mockDiscountRepository';
+import { createInThreadDataEngine } from '../../services/dataEngine';
+import { generateTestData } from '../../utils/mockDataGenerator';
+
+describe('useDiscountData history', () => {
+  let store: ReturnType<typeof useDiscountData>;
+
+  beforeEach(async () => {
+    store = useDiscountData(createMockDiscountRepository(generateTestData(10)));
+    await store.loadData(10);
+  });
+
+  it('restores deleted rows to their original positions on undo', async () => {
+    const originalIds = store.rawData.value.map(record => record.clientId);
+
+    await store.deleteRecords([originalIds[1], originalIds[4], originalIds[9]]);
+    expect(store.rawData.value).toHaveLength(7);
+
+    await store.undo();
+    expect(store.rawData.value.map(record => record.clientId)).toEqual(originalIds);
+
+    await store.redo();
+    expect(store.rawData.value).toHaveLength(7);
+  });
+
+  it('undoes a bulk update as a single entry', async () => {
+    const originalPercents = store.rawData.value.map(record => record.percent);
+    const updated = store.rawData.value.slice(0, 5).map(record => ({ ...record, percent: 99 }));
+
+    await store.updateRecords(updated);
+    expect(store.rawData.value.slice(0, 5).every(record => record.percent === 99)).toBe(true);
+
+    await store.undo();
+    expect(store.rawData.value.map(record => record.percent)).toEqual(originalPercents);
+    expect(store.canUndo.value).toBe(false);
+    expect(store.canRedo.value).toBe(true);
+  });
+
+  it('keeps validation errors current for edited, deleted and restored rows', async () => {
+    const target = store.rawData.value[2];
+    expect(store.validationErrors.value.has(target.clientId)).toBe(false);
+
+    await store.updateRecords([{ ...target, percent: 150 }]);
+    expect(store.validationErrors.value.get(target.clientId)?.map(error => error.field)).toEqual(['percent']);
+
+    await store.deleteRecords([target.clientId]);
+    expect(store.validationErrors.value.has(target.clientId)).toBe(false);
+
+    await store.undo();
+    expect(store.validationErrors.value.has(target.clientId)).toBe(true);
+    expect(store.invalidRecordCount.value).toBe(store.validationErrors.value.size);
+  });
+});
+
+describe('useDiscountData filtering', () => {
+  let store: ReturnType<typeof useDiscountData>;
+
+  beforeEach(async () => {
+    store = useDiscountData(createMockDiscountRepository(generateTestData(40)), createInThreadDataEngine());
+    await store.loadData(40);
+  });
+
+  it('narrows the rows with the engine and keeps them current after edits', async () => {
+    store.setQuery('percent>=50');
+    await flushPromises();
+
+    const expected = store.rawData.value.filter(record => record.percent >= 50).map(record => record.clientId);
+    expect(store.filteredData.value.map(record => record.clientId)).toEqual(expected);
+
+    const target = store.rawData.value.find(record => record.percent < 50)!;
+    await store.updateRecords([{ ...target, percent: 75 }]);
+    await flushPromises();
+    expect(store.filteredData.value.some(record => record.clientId === target.clientId)).toBe(true);
+
+    store.clearFilters();
+    await flushPromises();
+    expect(store.filteredData.value).toHaveLength(40);
+  });
+});
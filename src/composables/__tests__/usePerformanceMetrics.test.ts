@@ -0,0 +1,39 @@
+/**
+ * Tests for the performance metrics composable
+ */
+
+import { describe, it, expect } from 'vitest';
+import { usePerformanceMetrics } from '../usePerformanceMetrics';
+
+describe('usePerformanceMetrics', () => {
+  it('times sync and async callbacks and reports them', async () => {
+    const metrics = usePerformanceMetrics();
+
+    expect(metrics.measure('export', () => 42, 'sync')).toBe(42);
+    await metrics.measure('bulkOperation', () => new Promise(resolve => setTimeout(resolve, 5)));
+    await Promise.resolve();
+
+    expect(metrics.summaries.value.export?.count).toBe(1);
+    expect(metrics.summaries.value.bulkOperation?.count).toBe(1);
+    expect(metrics.summaries.value.dataLoad).toBeNull();
+
+    const report = metrics.getReport(1000);
+    expect(report).toMatchObject({ version: 1, recordCount: 1000 });
+    expect(report.metrics.export.samples[0].detail).toBe('sync');
+  });
+
+  it('records grid render time only for a marked filter change', () => {
+    const metrics = usePerformanceMetrics();
+
+    metrics.completeFilterChange();
+    expect(metrics.getReport(0).metrics.gridRender.samples).toHaveLength(0);
+
+    metrics.markFilterChange('set filter');
+    metrics.completeFilterChange();
+    metrics.completeFilterChange();
+    expect(metrics.getReport(0).metrics.gridRender.samples).toHaveLength(1);
+
+    metrics.clear();
+    expect(metrics.getReport(0).metrics.gridRender.samples).toHaveLength(0);
+  });
+});
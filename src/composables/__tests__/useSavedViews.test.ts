@@ -0,0 +1,65 @@
+/**
+ * Tests for saved views and their JSON import/export
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useSavedViews } from '../useSavedViews';
+import type { GridViewState } from '../../types/discount';
+
+const state: GridViewState = {
+  filterModel: { platform: { filterType: 'set', values: ['Steam'] } },
+  sortModel: [{ colId: 'startDate', sort: 'asc' }],
+  columnState: [
+    { colId: 'clientId', width: 140, hide: false, pinned: 'left' },
+    { colId: 'comments', width: 200, hide: true, pinned: null }
+  ],
+  pageSize: 100
+};
+
+describe('useSavedViews', () => {
+  let store: ReturnType<typeof useSavedViews>;
+
+  beforeEach(() => {
+    store = useSavedViews();
+  });
+
+  it('creates, renames and deletes views', () => {
+    const view = store.createView('  EU Steam launches ', state);
+    expect(view.name).toBe('EU Steam launches');
+    expect(store.activeViewId.value).toBe(view.id);
+
+    store.renameView(view.id, 'Steam launches');
+    expect(store.views.value[0].name).toBe('Steam launches');
+
+    store.deleteView(view.id);
+    expect(store.views.value).toHaveLength(0);
+    expect(store.activeViewId.value).toBeNull();
+  });
+
+  it('rejects empty and duplicate names', () => {
+    store.createView('Failed implementations', state);
+    expect(() => store.createView(' ', state)).toThrow('View name is required');
+    expect(() => store.createView('failed implementations', state)).toThrow('already exists');
+  });
+
+  it('round-trips views through JSON, replacing views with the same name', () => {
+    store.createView('Failed implementations', state);
+    const json = store.exportViews();
+
+    const other = useSavedViews();
+    other.createView('Failed implementations', { ...state, pageSize: 25 });
+    expect(other.importViews(json)).toEqual({ added: 0, replaced: 1 });
+    expect(other.views.value[0].pageSize).toBe(100);
+    expect(other.views.value[0].columnState).toEqual(state.columnState);
+
+    const empty = useSavedViews();
+    expect(empty.importViews(json)).toEqual({ added: 1, replaced: 0 });
+  });
+
+  it('rejects malformed files without changing anything', () => {
+    store.createView('Failed implementations', state);
+    expect(() => store.importViews('not json')).toThrow('not valid JSON');
+    expect(() => store.importViews('{"views": [{"name": "Broken"}]}')).toThrow('View 1 is not a valid saved view');
+    expect(store.views.value).toHaveLength(1);
+  });
+});
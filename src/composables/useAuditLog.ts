@@ -0,0 +1,175 @@
+/**
+ * Composable for the per-record audit trail
+ * Records field-level diffs for every change made through the data store
+ */
+
+import { ref, shallowRef, readonly } from 'vue';
+import {
+  type AuditEntry,
+  type ChangeSource,
+  type DiscountRecord,
+  DISCOUNT_RECORD_FIELDS
+} from '../types/discount';
+import {
+  AUDIT_STORE,
+  getDatabase,
+  isIndexedDbAvailable,
+  requestToPromise,
+  transactionDone
+} from '../services/indexedDb';
+import { sessionStore } from './useSession';
+
+// Actor recorded for automatic changes made by the status scheduler
+const SYSTEM_ACTOR = 'system';
+
+export function useAuditLog() {
+  // Entries kept in memory when IndexedDB is unavailable
+  const memoryEntries = shallowRef<AuditEntry[]>([]);
+
+  // Incremented on every change so views know to reload history
+  const revision = ref(0);
+
+  const persistent = isIndexedDbAvailable();
+
+  /**
+   * Store new entries, in IndexedDB when available
+   */
+  function append(entries: AuditEntry[]) {
+    if (entries.length === 0) return;
+
+    if (!persistent) {
+      // Appended in place, so a long session does not copy every earlier entry on each change
+      entries.forEach(entry => memoryEntries.value.push(entry));
+      revision.value++;
+      return;
+    }
+
+    getDatabase()
+      .then(async db => {
+        const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+        const store = transaction.objectStore(AUDIT_STORE);
+        entries.forEach(entry => store.add(entry));
+        await transactionDone(transaction);
+        revision.value++;
+      })
+      .catch(error => console.error('Failed to write audit entries:', error));
+  }
+
+  /**
+   * Create an entry stamped with the current time and actor
+   * Fields are listed one by one, as spreading them and adding more is slow for the thousands a bulk change logs
+   */
+  function createEntry(
+    fields: Pick<AuditEntry, 'clientId' | 'action' | 'field' | 'oldValue' | 'newValue'>,
+    source: ChangeSource,
+    timestamp: string
+  ): AuditEntry {
+    const actor = source === 'scheduler' ? SYSTEM_ACTOR : sessionStore.actor.value;
+    return {
+      clientId: fields.clientId,
+      action: fields.action,
+      field: fields.field,
+      oldValue: fields.oldValue,
+      newValue: fields.newValue,
+      timestamp,
+      actor,
+      source
+    };
+  }
+
+  /**
+   * Log field-level diffs between previous and updated versions of records
+   */
+  function recordUpdates(before: DiscountRecord[], after: DiscountRecord[], source: ChangeSource) {
+    const timestamp = new Date().toISOString();
+    const beforeById = new Map(before.map(record => [record.clientId, record]));
+    const entries: AuditEntry[] = [];
+
+    after.forEach(updated => {
+      const previous = beforeById.get(updated.clientId);
+      if (!previous) return;
+
+      DISCOUNT_RECORD_FIELDS.forEach(field => {
+        const oldValue = previous[field] ?? null;
+        const newValue = updated[field] ?? null;
+        if (oldValue !== newValue) {
+          entries.push(createEntry(
+            { clientId: updated.clientId, action: 'update', field, oldValue, newValue },
+            source,
+            timestamp
+          ));
+        }
+      });
+    });
+
+    append(entries);
+  }
+
+  /**
+   * Log created records
+   */
+  function recordCreates(records: DiscountRecord[], source: ChangeSource) {
+    const timestamp = new Date().toISOString();
+    append(records.map(record => createEntry(
+      { clientId: record.clientId, action: 'create', field: null, oldValue: null, newValue: null },
+      source,
+      timestamp
+    )));
+  }
+
+  /**
+   * Log deleted records
+   */
+  function recordDeletes(records: DiscountRecord[], source: ChangeSource) {
+    const timestamp = new Date().toISOString();
+    append(records.map(record => createEntry(
+      { clientId: record.clientId, action: 'delete', field: null, oldValue: null, newValue: null },
+      source,
+      timestamp
+    )));
+  }
+
+  /**
+   * Get the history of a single record, newest first
+   */
+  async function getRecordHistory(clientId: string): Promise<AuditEntry[]> {
+    if (!persistent) {
+      return memoryEntries.value.filter(entry => entry.clientId === clientId).reverse();
+    }
+
+    const db = await getDatabase();
+    const transaction = db.transaction(AUDIT_STORE, 'readonly');
+    const entries = await requestToPromise<AuditEntry[]>(
+      transaction.objectStore(AUDIT_STORE).index('clientId').getAll(clientId)
+    );
+    return entries.reverse();
+  }
+
+  /**
+   * Get the complete audit log, oldest first
+   */
+  async function getAllEntries(): Promise<AuditEntry[]> {
+    if (!persistent) {
+      return [...memoryEntries.value];
+    }
+
+    const db = await getDatabase();
+    const transaction = db.transaction(AUDIT_STORE, 'readonly');
+    return requestToPromise<AuditEntry[]>(transaction.objectStore(AUDIT_STORE).getAll());
+  }
+
+  return {
+    // State
+    revision: readonly(revision),
+
+    // Methods
+    recordUpdates,
+    recordCreates,
+    recordDeletes,
+    getRecordHistory,
+    getAllEntries
+  };
+}
+
+// Create a global instance for sharing the audit log across components
+export const auditLogStore = useAuditLog();
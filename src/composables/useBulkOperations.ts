@@ -1,62 +1,142 @@
 /**
  * Composable for bulk operations on discount data
- * Handles bulk updates, deletions, and CSV exports
+ * Handles bulk updates, deletions, and exports in the formats of the export profiles
+ * Exports are written by the data engine in chunks, which reports real progress and can be cancelled
  */
 
-import { ref, computed, readonly } from 'vue';
-import type { DiscountRecord, BulkUpdateData } from '../types/discount';
-import { downloadCSV, generateFilename } from '../utils/csvExport';
+import { ref, shallowRef, computed, readonly } from 'vue';
+import type { DiscountRecord, BulkUpdateData, ViewColumnState } from '../types/discount';
+import {
+  type DataEngine,
+  type EngineSortItem,
+  type TaskOptions,
+  TaskCancelledError,
+  getDataEngine
+} from '../services/dataEngine';
+import { createCSVBlob, downloadBlob, generateFilename } from '../utils/csvExport';
+import {
+  type ExportProfileSettings,
+  getExportFormat,
+  isTextExportFormat,
+  resolveExportColumns
+} from '../utils/exportProfiles';
+import {
+  type BulkApplyMode,
+  type BulkUpdatePreview,
+  getRowsToApply,
+  previewBulkUpdateRow,
+  validateBulkUpdate
+} from '../utils/bulkUpdate';
+import { displaySettingsStore } from './useDisplaySettings';
+import { performanceMetricsStore } from './usePerformanceMetrics';
+import { sessionStore } from './useSession';
 
-export function useBulkOperations() {
+// Outcome of applying a bulk update preview
+export interface BulkUpdateSummary {
+  updated: number;
+  skippedInvalid: number; // Changed rows left out because they were invalid or not allowed for the role
+  unchanged: number;
+}
+
+export function useBulkOperations(engine: DataEngine = getDataEngine()) {
   const isProcessing = ref(false);
-  const operationProgress = ref(0);
+  // Percent done, or null while the operation cannot report progress
+  const operationProgress = ref<number | null>(0);
   const lastOperationResult = ref<string | null>(null);
 
+  // Aborts the running export; null when nothing can be cancelled
+  const cancelController = shallowRef<AbortController | null>(null);
+
   /**
-   * Apply bulk updates to selected records
+   * Dry run of a bulk update: the resulting record for every selected row, and which ones would be invalid
+   * Each field's operation is applied relative to that record's current value; nothing is saved
    */
-  async function bulkUpdate(
-    records: DiscountRecord[],
-    updateData: BulkUpdateData,
-    onUpdate: (record: DiscountRecord) => void
-  ): Promise<void> {
+  async function previewBulkUpdate(records: DiscountRecord[], updateData: BulkUpdateData): Promise<BulkUpdatePreview> {
     if (records.length === 0) {
       throw new Error('No records selected for bulk update');
     }
+    if (Object.keys(updateData).length === 0) {
+      throw new Error('No changes to apply');
+    }
 
     isProcessing.value = true;
     operationProgress.value = 0;
     lastOperationResult.value = null;
 
     try {
+      const role = sessionStore.role.value;
       const total = records.length;
-      let processed = 0;
-
-      for (const record of records) {
-        // Create updated record
-        const updatedRecord: DiscountRecord = {
-          ...record,
-          // Apply bulk updates
-          ...(updateData.discountName && { discount: updateData.discountName }),
-          ...(updateData.discountPercent !== undefined && { percent: updateData.discountPercent }),
-          ...(updateData.startDate && { startDate: updateData.startDate }),
-          ...(updateData.endDate && { endDate: updateData.endDate })
-        };
+      const preview: BulkUpdatePreview = { update: updateData, validRows: [], invalidRows: [], unchangedCount: 0, totalRows: total };
 
-        // Apply the update through callback
-        onUpdate(updatedRecord);
+      for (let i = 0; i < total; i++) {
+        const row = previewBulkUpdateRow(records[i], updateData, role);
+        if (row.changedFields.length === 0) {
+          preview.unchangedCount++;
+        } else if (row.errors.length > 0 || row.forbidden.length > 0) {
+          preview.invalidRows.push(row);
+        } else {
+          preview.validRows.push(row);
+        }
 
-        processed++;
-        operationProgress.value = Math.round((processed / total) * 100);
+        operationProgress.value = Math.round(((i + 1) / total) * 100);
 
         // Add small delay for large operations to prevent UI blocking
-        if (processed % 100 === 0) {
+        if ((i + 1) % 1000 === 0) {
           await new Promise(resolve => setTimeout(resolve, 1));
         }
       }
 
-      lastOperationResult.value = `Successfully updated ${processed} records`;
-      console.log(`Bulk update completed: ${processed} records updated`);
+      return preview;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      lastOperationResult.value = `Error during bulk update preview: ${errorMessage}`;
+      console.error('Bulk update preview failed:', error);
+      throw error;
+    } finally {
+      isProcessing.value = false;
+      operationProgress.value = 0;
+    }
+  }
+
+  /**
+   * Save the rows of a bulk update preview, valid rows only or every row the user's role may change
+   * Returns how many rows were updated and skipped; the result message summarizes what was skipped
+   */
+  async function bulkUpdate(
+    preview: BulkUpdatePreview,
+    onUpdate: (records: DiscountRecord[]) => Promise<void>,
+    mode: BulkApplyMode = 'valid'
+  ): Promise<BulkUpdateSummary> {
+    const rows = getRowsToApply(preview, mode);
+    const summary: BulkUpdateSummary = {
+      updated: rows.length,
+      skippedInvalid: preview.validRows.length + preview.invalidRows.length - rows.length,
+      unchanged: preview.unchangedCount
+    };
+    if (rows.length === 0) {
+      throw new Error('No rows to update');
+    }
+
+    isProcessing.value = true;
+    operationProgress.value = null;
+    lastOperationResult.value = null;
+
+    try {
+      // Save all changes in a single repository call
+      await performanceMetricsStore.measure(
+        'bulkOperation',
+        () => onUpdate(rows.map(row => row.after)),
+        `update ${rows.length} records`
+      );
+
+      const skipped = [
+        summary.skippedInvalid > 0 ? `${summary.skippedInvalid} invalid` : '',
+        summary.unchanged > 0 ? `${summary.unchanged} unchanged` : ''
+      ].filter(Boolean);
+      lastOperationResult.value = `Successfully updated ${rows.length} records` +
+        (skipped.length > 0 ? `; skipped ${skipped.join(' and ')}` : '');
+      console.log(`Bulk update completed: ${rows.length} records updated`);
+      return summary;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       lastOperationResult.value = `Error during bulk update: ${errorMessage}`;
@@ -73,30 +153,21 @@ export function useBulkOperations() {
    */
   async function bulkDelete(
     records: DiscountRecord[],
-    onDelete: (clientIds: string[]) => void
+    onDelete: (clientIds: string[]) => Promise<void>
   ): Promise<void> {
     if (records.length === 0) {
       throw new Error('No records selected for deletion');
     }
 
     isProcessing.value = true;
-    operationProgress.value = 0;
+    operationProgress.value = null;
     lastOperationResult.value = null;
 
     try {
       const clientIds = records.map(record => record.clientId);
       const total = clientIds.length;
 
-      // Simulate processing for UI feedback
-      for (let i = 0; i <= total; i += Math.max(1, Math.floor(total / 10))) {
-        operationProgress.value = Math.round((Math.min(i, total) / total) * 100);
-        if (i < total) {
-          await new Promise(resolve => setTimeout(resolve, 50));
-        }
-      }
-
-      // Perform the actual deletion
-      onDelete(clientIds);
+      await performanceMetricsStore.measure('bulkOperation', () => onDelete(clientIds), `delete ${total} records`);
 
       lastOperationResult.value = `Successfully deleted ${total} records`;
       console.log(`Bulk delete completed: ${total} records deleted`);
@@ -112,11 +183,14 @@ export function useBulkOperations() {
   }
 
   /**
-   * Export records to CSV
+   * Run an export through the data engine and download the file it produces
+   * Progress comes from the engine; cancelOperation() stops it
    */
-  async function exportToCSV(
+  async function runExport(
     records: DiscountRecord[],
-    filename?: string
+    filename: string,
+    formatLabel: string,
+    write: (options: TaskOptions) => Promise<Blob>
   ): Promise<void> {
     if (records.length === 0) {
       throw new Error('No records to export');
@@ -125,68 +199,99 @@ export function useBulkOperations() {
     isProcessing.value = true;
     operationProgress.value = 0;
     lastOperationResult.value = null;
+    const controller = new AbortController();
+    cancelController.value = controller;
+    const start = performance.now();
 
     try {
-      // Simulate processing for large datasets
-      const total = 100;
-      for (let i = 0; i <= total; i += 10) {
-        operationProgress.value = i;
-        await new Promise(resolve => setTimeout(resolve, 50));
-      }
+      const blob = await write({
+        signal: controller.signal,
+        onProgress: fraction => {
+          operationProgress.value = Math.round(fraction * 100);
+        }
+      });
 
-      const exportFilename = filename || generateFilename('filtered-discounts');
-      downloadCSV(records, exportFilename);
+      downloadBlob(blob, filename);
+      performanceMetricsStore.record('export', performance.now() - start, `${formatLabel}, ${records.length} records`);
 
-      lastOperationResult.value = `Successfully exported ${records.length} records to ${exportFilename}`;
-      console.log(`CSV export completed: ${records.length} records exported`);
+      lastOperationResult.value = `Successfully exported ${records.length} records to ${filename}`;
+      console.log(`${formatLabel} export completed: ${records.length} records exported`);
     } catch (error) {
+      if (error instanceof TaskCancelledError) {
+        lastOperationResult.value = 'Export cancelled';
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      lastOperationResult.value = `Error during CSV export: ${errorMessage}`;
-      console.error('CSV export failed:', error);
+      lastOperationResult.value = `Error during ${formatLabel} export: ${errorMessage}`;
+      console.error(`${formatLabel} export failed:`, error);
       throw error;
     } finally {
       isProcessing.value = false;
       operationProgress.value = 0;
+      cancelController.value = null;
     }
   }
 
   /**
-   * Validate bulk update data
+   * Export records as a profile describes, in the grid's sort order when the profile follows it
+   * The data engine writes the rows in chunks and the file is assembled from them
+   * Profiles that use the grid's columns take them from columnState, in grid order
    */
-  function validateBulkUpdateData(updateData: BulkUpdateData): string[] {
-    const errors: string[] = [];
+  async function exportRecords(
+    records: DiscountRecord[],
+    profile: ExportProfileSettings,
+    options: { filename?: string; sortModel?: EngineSortItem[]; columnState?: ViewColumnState[] } = {}
+  ): Promise<void> {
+    const { format } = profile;
+    const { extension, label, mimeType } = getExportFormat(format);
+    const filename = options.filename || generateFilename('filtered-discounts', extension);
+    const columns = resolveExportColumns(profile, options.columnState ?? null);
+    const request = {
+      ids: records.map(record => record.clientId),
+      sortModel: profile.useGridSort ? options.sortModel ?? [] : [],
+      lengthUnit: displaySettingsStore.lengthUnit.value,
+      columns,
+      dateFormat: profile.dateFormat
+    };
 
-    if (updateData.discountPercent !== undefined) {
-      if (updateData.discountPercent < 0 || updateData.discountPercent > 100) {
-        errors.push('Discount percent must be between 0 and 100');
+    await runExport(records, filename, label, async taskOptions => {
+      if (columns.length === 0) {
+        throw new Error('The export profile has no columns to export');
       }
-    }
-
-    if (updateData.startDate) {
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      if (!dateRegex.test(updateData.startDate)) {
-        errors.push('Start date must be in YYYY-MM-DD format');
+      if (!isTextExportFormat(format)) {
+        return engine.writeWorkbook({ ...request, includeSummary: profile.includeSummary }, taskOptions);
       }
-    }
 
-    if (updateData.endDate) {
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      if (!dateRegex.test(updateData.endDate)) {
-        errors.push('End date must be in YYYY-MM-DD format');
-      }
-    }
+      const parts = await engine.serialize({
+        ...request,
+        format,
+        delimiter: profile.delimiter,
+        decimalSeparator: profile.decimalSeparator
+      }, taskOptions);
+      const includeBOM = profile.includeBOM && (format === 'csv' || format === 'tsv');
+      return createCSVBlob(parts, includeBOM, mimeType);
+    });
+  }
 
-    if (updateData.startDate && updateData.endDate) {
-      const startDate = new Date(updateData.startDate);
-      const endDate = new Date(updateData.endDate);
-      if (endDate <= startDate) {
-        errors.push('End date must be after start date');
-      }
-    }
+  /**
+   * Cancel the running export
+   */
+  function cancelOperation() {
+    cancelController.value?.abort();
+  }
 
-    return errors;
+  /**
+   * Validate bulk update operations against the shared field rules
+   */
+  function validateBulkUpdateData(updateData: BulkUpdateData): string[] {
+    return validateBulkUpdate(updateData);
   }
 
+  /**
+   * Whether the running operation can be cancelled
+   */
+  const canCancel = computed(() => cancelController.value !== null);
+
   /**
    * Get operation statistics
    */
@@ -207,13 +312,16 @@ export function useBulkOperations() {
     // State
     isProcessing: readonly(isProcessing),
     operationProgress: readonly(operationProgress),
+    canCancel,
     lastOperationResult: readonly(lastOperationResult),
     operationStats,
 
     // Methods
+    previewBulkUpdate,
     bulkUpdate,
     bulkDelete,
-    exportToCSV,
+    exportRecords,
+    cancelOperation,
     validateBulkUpdateData,
     clearLastResult
   };
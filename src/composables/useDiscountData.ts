@@ -1,48 +1,144 @@
 /**
  * Composable for managing discount data
  * Handles data loading, filtering, and CRUD operations
+ * Filtering runs in the data engine; the store keeps the engine's copy of the dataset in step
+ * Records are also held in a record index, for O(1) updates by clientId and value counts without scans
  */
 
-import { ref, computed, reactive, readonly } from 'vue';
-import type { DiscountRecord, FilterState } from '../types/discount';
-import { generateMockData, generateTestData } from '../utils/mockDataGenerator';
-import { getMonthName, calculateDaysBetween } from '../utils/dateUtils';
+import { ref, shallowRef, computed, readonly, shallowReadonly, toRaw, triggerRef, watch, type ComputedRef } from 'vue';
+import {
+  type ChangeSource,
+  type DiscountRecord,
+  type HistoryEntry,
+  type PositionedRecord,
+  DISCOUNT_RECORD_FIELDS
+} from '../types/discount';
+import type { DiscountRepository } from '../services/discountRepository';
+import { createDiscountRepository } from '../services/repositoryFactory';
+import { type DataEngine, type FilterResult, TaskCancelledError, getDataEngine } from '../services/dataEngine';
+import {
+  getMonthName,
+  getRecordTimeZone,
+  getStartInstant,
+  getEndInstant,
+  calculateDuration,
+  getDurationBetween
+} from '../utils/dateUtils';
+import { createConflictTracker } from '../utils/conflictDetection';
+import { validateRecord, validateRecords, type ValidationError } from '../utils/validationRules';
+import { type QueryNode, parseQuery } from '../utils/queryLanguage';
+import { toFilterValue } from '../utils/setFilter';
+import { type ColumnFilterModel, type GridFilterModel, isSameFilterModel } from '../utils/filterModel';
+import { createRecordIndex, isIndexedField } from '../utils/recordIndex';
+import { auditLogStore } from './useAuditLog';
+import { displaySettingsStore } from './useDisplaySettings';
+import { performanceMetricsStore } from './usePerformanceMetrics';
 
-export function useDiscountData() {
+// Maximum number of undoable actions kept in history
+const HISTORY_LIMIT = 100;
+
+/**
+ * Attach UI-only computed fields to a record
+ * Records stored before timezones existed get their region's default zone
+ * Fields are listed one by one: spreading a record and adding fields to it is many times slower per record
+ */
+function withComputedFields(record: DiscountRecord): DiscountRecord {
+  const startInstant = getStartInstant(record);
+  const endInstant = getEndInstant(record);
+  return {
+    clientId: record.clientId,
+    client: record.client,
+    platform: record.platform,
+    region: record.region,
+    discount: record.discount,
+    startDate: record.startDate,
+    startTime: record.startTime,
+    endDate: record.endDate,
+    endTime: record.endTime,
+    timezone: getRecordTimeZone(record),
+    percent: record.percent,
+    deadline: record.deadline,
+    implementationStatus: record.implementationStatus,
+    salesEventStatus: record.salesEventStatus,
+    comments: record.comments,
+    month: getMonthName(record.startDate),
+    length: getDurationBetween(startInstant, endInstant, 'days'),
+    lengthHours: getDurationBetween(startInstant, endInstant, 'hours'),
+    startInstant,
+    endInstant
+  };
+}
+
+/**
+ * Computed version of a saved record, keeping one computed before when every stored field still matches
+ */
+function keepComputedFields(saved: DiscountRecord, computed: DiscountRecord): DiscountRecord {
+  return DISCOUNT_RECORD_FIELDS.every(field => saved[field] === computed[field]) ? computed : withComputedFields(saved);
+}
+
+export function useDiscountData(
+  repository: DiscountRepository = createDiscountRepository(),
+  engine: DataEngine = getDataEngine()
+) {
   // Raw data from "database"
-  const rawData = ref<DiscountRecord[]>([]);
+  // Records are replaced, never changed in place, so only the array is reactive; in-place writes trigger it
+  const rawData = shallowRef<DiscountRecord[]>([]);
+
+  // Same records as rawData, indexed by clientId and categorical values; not reactive itself
+  const index = createRecordIndex();
+
+  // Bumped after every change to the records, so filters run again and value counts are reread
+  const dataVersion = ref(0);
   
   // Loading state
   const isLoading = ref(false);
   
-  // Filter state
-  const filters = reactive<FilterState>({});
+  // Column filters in AG-Grid's filter model format, kept in step with the grid's own filters
+  const filterModel = shallowRef<GridFilterModel>({});
   
   // Error state
   const error = ref<string | null>(null);
 
+  // Restrict the view to records with overlapping discount windows
+  const showConflictsOnly = ref(false);
+
+  // Search bar query and its syntax tree; only queries that parse are stored
+  const query = ref('');
+  const queryNode = shallowRef<QueryNode | null>(null);
+
+  // Records matching the filters, from the engine; null while no filter is applied
+  const filterResult = shallowRef<FilterResult | null>(null);
+  const isFiltering = ref(false);
+  let filterController: AbortController | null = null;
+
+  // Undo/redo history, most recent entry last
+  // shallowRef avoids making every stored record snapshot reactive
+  const undoStack = shallowRef<HistoryEntry[]>([]);
+  const redoStack = shallowRef<HistoryEntry[]>([]);
+  const isApplyingHistory = ref(false);
+
   /**
-   * Load mock data
+   * Load data from the repository
+   * Pass fresh: true to discard locally stored data and start from a new dataset
    */
-  async function loadData(count: number = 100000) {
+  async function loadData(count: number = 100000, options: { fresh?: boolean } = {}) {
     isLoading.value = true;
     error.value = null;
     
     try {
-      // Simulate async loading
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      // Generate data based on count
-      const data = count <= 5000 ? generateTestData(count) : generateMockData(count);
+      const start = performance.now();
+      const data = await repository.list({ count, fresh: options.fresh });
       
       // Pre-calculate computed fields for better performance
-      const dataWithComputedFields = data.map(record => ({
-        ...record,
-        month: getMonthName(record.startDate),
-        length: calculateDaysBetween(record.startDate, record.endDate)
-      }));
+      const dataWithComputedFields = data.map(withComputedFields);
       
+      index.reset(dataWithComputedFields);
       rawData.value = dataWithComputedFields;
+      conflicts.value = conflictTracker.reset(dataWithComputedFields);
+      validationErrors.value = validateRecords(dataWithComputedFields);
+      await syncEngine(engine.load(dataWithComputedFields));
+      clearHistory();
+      performanceMetricsStore.record('dataLoad', performance.now() - start, `${dataWithComputedFields.length} records`);
       
       console.log(`Loaded ${dataWithComputedFields.length} discount records with pre-calculated fields`);
     } catch (err) {
@@ -54,130 +150,532 @@ export function useDiscountData() {
   }
 
   /**
-   * Filtered data based on current filters
-   * Optimized to skip computation when no filters are active
+   * Mark the records as changed and wait for the engine to apply the same change
+   * Engine requests run in order, so filters that follow already see the change
    */
-  const filteredData = computed(() => {
-    // If no filters are active, return raw data directly for better performance
-    if (Object.keys(filters).length === 0) {
-      return rawData.value;
-    }
-    
-    let result = rawData.value;
-    
-    // Apply filters
-    Object.entries(filters).forEach(([field, values]) => {
-      if (values && values.length > 0) {
-        result = result.filter(record => {
-          const fieldValue = String((record as any)[field] || '');
-          return values.some(filterValue => 
-            fieldValue.toLowerCase().includes(filterValue.toLowerCase())
-          );
-        });
+  async function syncEngine(task: Promise<void>) {
+    dataVersion.value++;
+    await task;
+  }
+
+  /**
+   * Overlapping discounts for the same client/platform/region, keyed by clientId
+   * Every group is swept on load; afterwards only the groups of saved, added and removed records are swept
+   */
+  const conflictTracker = createConflictTracker();
+  const conflicts = shallowRef<Map<string, string[]>>(new Map());
+
+  /**
+   * Validation errors for records that break the shared rule set, keyed by clientId
+   * Invalid edits are kept and flagged in the grid rather than reverted
+   * Every record is validated on load; afterwards only saved, added and removed records are checked
+   */
+  const validationErrors = shallowRef<Map<string, ValidationError[]>>(new Map());
+
+  /**
+   * Validate changed records again and drop removed ones
+   * A new map is set on every change so watchers of the errors see it
+   */
+  function updateValidationErrors(changed: readonly DiscountRecord[], removedIds: readonly string[] = []) {
+    if (changed.length === 0 && removedIds.length === 0) return;
+
+    const next = new Map(validationErrors.value);
+    removedIds.forEach(clientId => next.delete(clientId));
+    changed.forEach(record => {
+      const errors = validateRecord(record);
+      if (errors.length > 0) {
+        next.set(record.clientId, errors);
+      } else {
+        next.delete(record.clientId);
       }
     });
-    
-    return result;
-  });
+    validationErrors.value = next;
+  }
+
+  /**
+   * Bring conflicts and validation errors up to date for changed and removed records only
+   */
+  function updateRecordChecks(changed: readonly DiscountRecord[], removedIds: readonly string[] = []) {
+    conflicts.value = conflictTracker.update(changed, removedIds);
+    updateValidationErrors(changed, removedIds);
+  }
+
+  /**
+   * Records with the given ids; null selects every record
+   * The engine's position of an id is used while the store holds the same record there, which is the case
+   * unless records were added or removed since the engine answered; other ids are looked up, and ids of
+   * records removed since then are skipped
+   */
+  function selectRecords(ids: string[] | null, positions: Int32Array | null): DiscountRecord[] {
+    if (!ids || !positions) return rawData.value;
+
+    const rows = rawData.value;
+    const clientIds = index.clientIds;
+    const selected: DiscountRecord[] = [];
+    for (let i = 0; i < ids.length; i++) {
+      const id = ids[i];
+      const position = clientIds[positions[i]] === id ? positions[i] : index.positionOf(id);
+      if (position !== undefined) selected.push(rows[position]);
+    }
+    return selected;
+  }
+
+  /**
+   * Rows handed to the grid: the search query and conflicts-only view applied
+   * Column filters are left to the grid, which applies the same model itself
+   */
+  const gridRowData = computed(() =>
+    selectRecords(filterResult.value?.gridIds ?? null, filterResult.value?.gridPositions ?? null)
+  );
+
+  /**
+   * Rows the grid displays: the grid rows narrowed by the column filters
+   * Stats, exports, the timeline and analytics all read this so they match the grid
+   */
+  const filteredData = computed(() =>
+    selectRecords(filterResult.value?.filteredIds ?? null, filterResult.value?.filteredPositions ?? null)
+  );
+
+  /**
+   * Filter the dataset in the engine, cancelling any filter still running
+   */
+  async function runFilter() {
+    filterController?.abort();
+    filterController = null;
+
+    if (!query.value && !showConflictsOnly.value && Object.keys(filterModel.value).length === 0) {
+      filterResult.value = null;
+      isFiltering.value = false;
+      return;
+    }
+
+    const controller = new AbortController();
+    filterController = controller;
+    isFiltering.value = true;
+    const start = performance.now();
+
+    try {
+      const result = await engine.filter({
+        query: query.value,
+        filterModel: toRaw(filterModel.value),
+        restrictTo: showConflictsOnly.value ? Array.from(conflicts.value.keys()) : null,
+        lengthUnit: displaySettingsStore.lengthUnit.value
+      }, { signal: controller.signal });
+
+      filterResult.value = result;
+      performanceMetricsStore.record(
+        'filter',
+        performance.now() - start,
+        `${result.filteredIds?.length ?? rawData.value.length} of ${rawData.value.length} rows`
+      );
+    } catch (err) {
+      // A newer filter replaced this one
+      if (err instanceof TaskCancelledError) return;
+      console.error('Error filtering data:', err);
+    } finally {
+      if (filterController === controller) {
+        filterController = null;
+        isFiltering.value = false;
+      }
+    }
+  }
+
+  watch(
+    [
+      dataVersion,
+      query,
+      filterModel,
+      showConflictsOnly,
+      () => (showConflictsOnly.value ? conflicts.value : null),
+      displaySettingsStore.lengthUnit
+    ],
+    () => runFilter()
+  );
+
+  /**
+   * Value of a field as shown in filters; computed fields are derived when missing
+   */
+  function getFilterValue(record: DiscountRecord, field: keyof DiscountRecord): string {
+    if (field === 'month') return getMonthName(record.startDate);
+    if (field === 'length') return String(record.length ?? calculateDuration(record, 'days'));
+    return toFilterValue(record[field]);
+  }
+
+  // Value counts per field, each recomputed lazily after the records change
+  const valueCountsByField = new Map<keyof DiscountRecord, ComputedRef<Map<string, number>>>();
+
+  /**
+   * Number of records per distinct value of a field, including blanks under ''
+   * Indexed fields read the counts the index keeps; other fields are counted with a scan
+   */
+  function getValueCounts(field: keyof DiscountRecord): Map<string, number> {
+    let valueCounts = valueCountsByField.get(field);
+    if (!valueCounts) {
+      valueCounts = computed(() => {
+        if (isIndexedField(field)) {
+          void dataVersion.value;
+          return index.getValueCounts(field);
+        }
+
+        const counts = new Map<string, number>();
+        rawData.value.forEach(record => {
+          const value = getFilterValue(record, field);
+          counts.set(value, (counts.get(value) ?? 0) + 1);
+        });
+        return counts;
+      });
+      valueCountsByField.set(field, valueCounts);
+    }
+    return valueCounts.value;
+  }
 
   /**
    * Get unique values for a specific field (for filter options)
    */
   function getUniqueValues(field: keyof DiscountRecord): string[] {
-    const values = new Set<string>();
-    
-    rawData.value.forEach(record => {
-      let value: string;
-      
-      // Handle computed fields
-      if (field === 'month') {
-        value = getMonthName(record.startDate);
-      } else if (field === 'length') {
-        value = String(calculateDaysBetween(record.startDate, record.endDate));
-      } else {
-        value = String((record as any)[field] || '');
-      }
-      
-      if (value) {
-        values.add(value);
-      }
-    });
-    
-    return Array.from(values).sort();
+    return Array.from(getValueCounts(field).keys()).filter(value => value !== '').sort();
   }
 
   /**
-   * Update filter for a specific field
+   * Replace the column filter model; called with the grid's model whenever its filters change
    */
-  function updateFilter(field: string, values: string[] | null) {
-    if (values && values.length > 0) {
-      filters[field] = values;
+  function setFilterModel(model: GridFilterModel | null) {
+    if (isSameFilterModel(model, filterModel.value)) return;
+    filterModel.value = { ...(model ?? {}) };
+  }
+
+  /**
+   * Set or remove (null) the filter of one column
+   */
+  function setColumnFilter(colId: string, model: ColumnFilterModel | null) {
+    const next = { ...filterModel.value };
+    if (model) {
+      next[colId] = model;
     } else {
-      delete filters[field];
+      delete next[colId];
     }
+    setFilterModel(next);
+  }
+
+  /**
+   * Show only records that overlap with another discount
+   */
+  function setShowConflictsOnly(value: boolean) {
+    if (value !== showConflictsOnly.value) performanceMetricsStore.markFilterChange('conflicts only');
+    showConflictsOnly.value = value;
+  }
+
+  /**
+   * Set the search bar query
+   * Throws a QueryParseError and keeps the current query when the text does not parse
+   */
+  function setQuery(text: string) {
+    const node = parseQuery(text);
+    if (text.trim() !== query.value) performanceMetricsStore.markFilterChange('search query');
+    query.value = text.trim();
+    queryNode.value = node;
   }
 
   /**
-   * Clear all filters
+   * Clear all filters, including the search bar query
    */
   function clearFilters() {
-    Object.keys(filters).forEach(key => {
-      delete filters[key];
+    if (query.value) performanceMetricsStore.markFilterChange('clear filters');
+    filterModel.value = {};
+    query.value = '';
+    queryNode.value = null;
+  }
+
+  /**
+   * Save updated records and replace them in rawData
+   * Returns the saved records and the versions they replaced
+   */
+  async function applyUpdates(
+    updatedRecords: DiscountRecord[]
+  ): Promise<{ saved: DiscountRecord[]; previous: DiscountRecord[] }> {
+    const saved = updatedRecords.length === 1
+      ? [await repository.update(updatedRecords[0])]
+      : await repository.bulkUpdate(updatedRecords);
+    const previous: DiscountRecord[] = [];
+    const replaced: DiscountRecord[] = [];
+
+    // The index looks each record up by clientId, and rawData holds the rows at the same positions
+    index.replace(saved.map(withComputedFields)).forEach(item => {
+      const updated = index.records[item.index];
+      previous.push(item.record);
+      replaced.push(updated);
+      // Use direct assignment for better performance
+      rawData.value[item.index] = updated;
     });
+    triggerRef(rawData);
+
+    updateRecordChecks(replaced);
+    await syncEngine(engine.upsert(replaced));
+    return { saved, previous };
   }
 
   /**
-   * Update a single record with optimized performance
+   * Delete records and remove them from rawData
+   * Returns the removed records with their positions so they can be restored
    */
-  function updateRecord(updatedRecord: DiscountRecord) {
-    const index = rawData.value.findIndex(record => record.clientId === updatedRecord.clientId);
-    if (index !== -1) {
-      // Pre-calculate computed fields
-      const recordWithComputedFields = {
-        ...updatedRecord,
-        month: getMonthName(updatedRecord.startDate),
-        length: calculateDaysBetween(updatedRecord.startDate, updatedRecord.endDate)
+  async function applyRemovals(clientIds: string[]): Promise<PositionedRecord[]> {
+    await repository.bulkDelete(clientIds);
+
+    // One pass over the rows, looking removed ones up by position
+    const removed = index.remove(clientIds);
+    rawData.value = [...index.records];
+    updateRecordChecks([], removed.map(item => item.record.clientId));
+    await syncEngine(engine.remove(removed.map(item => item.record.clientId)));
+    return removed;
+  }
+
+  /**
+   * Create records and insert them into rawData at the given positions
+   * Records the store computed before, such as those undo restores, keep their computed fields when the
+   * repository saves them unchanged
+   */
+  async function applyInsertions(positioned: PositionedRecord[], computed = false): Promise<PositionedRecord[]> {
+    const saved = await repository.bulkCreate(positioned.map(item => item.record));
+    const savedById = new Map(saved.map(record => [record.clientId, record]));
+
+    const sorted = [...positioned].sort((a, b) => a.index - b.index);
+
+    const inserted = index.insert(sorted.map(item => {
+      const savedRecord = savedById.get(item.record.clientId) ?? item.record;
+      return {
+        index: item.index,
+        record: computed ? keepComputedFields(savedRecord, item.record) : withComputedFields(savedRecord)
       };
-      
-      // Use direct assignment for better performance
-      rawData.value[index] = recordWithComputedFields;
-      console.log('Record updated:', updatedRecord.clientId);
+    }));
+    rawData.value = [...index.records];
+    updateRecordChecks(inserted.map(item => item.record));
+    await syncEngine(engine.insert(inserted));
+    return sorted;
+  }
+
+  /**
+   * Record a completed action in the undo history
+   */
+  function pushHistory(entry: HistoryEntry) {
+    undoStack.value = [...undoStack.value, entry].slice(-HISTORY_LIMIT);
+    redoStack.value = [];
+  }
+
+  /**
+   * Clear undo and redo history
+   */
+  function clearHistory() {
+    undoStack.value = [];
+    redoStack.value = [];
+  }
+
+  /**
+   * Update a single record through the repository
+   * Pass the previous version when the caller has already mutated the record (e.g. grid edits)
+   */
+  async function updateRecord(
+    updatedRecord: DiscountRecord,
+    options: { label?: string; previous?: DiscountRecord; source?: ChangeSource } = {}
+  ) {
+    const { saved, previous } = await applyUpdates([updatedRecord]);
+    if (previous.length === 0) return;
+
+    const before = [options.previous ?? previous[0]];
+    pushHistory({
+      type: 'update',
+      label: options.label ?? `Edit ${updatedRecord.clientId}`,
+      before,
+      after: saved
+    });
+    auditLogStore.recordUpdates(before, saved, options.source ?? 'cell-edit');
+    console.log('Record updated:', updatedRecord.clientId);
+  }
+
+  /**
+   * Update multiple records in a single repository call
+   * Automatic changes pass recordHistory: false so they do not appear in undo/redo
+   */
+  async function updateRecords(
+    updatedRecords: DiscountRecord[],
+    options: { label?: string; source?: ChangeSource; recordHistory?: boolean } = {}
+  ) {
+    if (updatedRecords.length === 0) return;
+
+    const { saved, previous } = await applyUpdates(updatedRecords);
+    if (options.recordHistory !== false) {
+      pushHistory({
+        type: 'update',
+        label: options.label ?? `Update ${saved.length} records`,
+        before: previous,
+        after: saved
+      });
     }
+    auditLogStore.recordUpdates(previous, saved, options.source ?? 'bulk-update');
+    console.log(`Updated ${saved.length} records`);
   }
 
   /**
    * Delete a record
    */
-  function deleteRecord(clientId: string) {
-    const index = rawData.value.findIndex(record => record.clientId === clientId);
-    if (index !== -1) {
-      rawData.value.splice(index, 1);
-      console.log('Record deleted:', clientId);
-    }
+  async function deleteRecord(clientId: string) {
+    await deleteRecords([clientId]);
   }
 
   /**
    * Delete multiple records
    */
-  function deleteRecords(clientIds: string[]) {
-    rawData.value = rawData.value.filter(record => !clientIds.includes(record.clientId));
-    console.log(`Deleted ${clientIds.length} records`);
+  async function deleteRecords(
+    clientIds: string[],
+    options: { label?: string; source?: ChangeSource } = {}
+  ) {
+    if (clientIds.length === 0) return;
+
+    const removed = await applyRemovals(clientIds);
+    pushHistory({
+      type: 'delete',
+      label: options.label ?? `Delete ${removed.length} record${removed.length !== 1 ? 's' : ''}`,
+      records: removed
+    });
+    auditLogStore.recordDeletes(removed.map(item => item.record), options.source ?? 'bulk-delete');
+    console.log(`Deleted ${removed.length} records`);
   }
 
   /**
    * Add a new record with computed fields
    */
-  function addRecord(newRecord: DiscountRecord) {
-    const recordWithComputedFields = {
-      ...newRecord,
-      month: getMonthName(newRecord.startDate),
-      length: calculateDaysBetween(newRecord.startDate, newRecord.endDate)
-    };
-    
-    rawData.value.push(recordWithComputedFields);
-    console.log('Record added:', newRecord.clientId);
+  async function addRecord(newRecord: DiscountRecord) {
+    await addRecords([newRecord], { label: `Add ${newRecord.clientId}` });
+  }
+
+  /**
+   * Add multiple records in a single repository call
+   */
+  async function addRecords(
+    newRecords: DiscountRecord[],
+    options: { label?: string; source?: ChangeSource } = {}
+  ) {
+    if (newRecords.length === 0) return;
+
+    const inserted = await applyInsertions(
+      newRecords.map((record, offset) => ({ index: rawData.value.length + offset, record }))
+    );
+    pushHistory({
+      type: 'add',
+      label: options.label ?? `Add ${inserted.length} records`,
+      records: inserted
+    });
+    auditLogStore.recordCreates(inserted.map(item => item.record), options.source ?? 'import');
+    console.log(`Added ${inserted.length} records`);
+  }
+
+  /**
+   * Add new records and update existing ones as a single undoable action
+   */
+  async function importRecords(newRecords: DiscountRecord[], changedRecords: DiscountRecord[]) {
+    const entries: HistoryEntry[] = [];
+
+    if (newRecords.length > 0) {
+      const inserted = await applyInsertions(
+        newRecords.map((record, offset) => ({ index: rawData.value.length + offset, record }))
+      );
+      entries.push({ type: 'add', label: 'Import new records', records: inserted });
+      auditLogStore.recordCreates(newRecords, 'import');
+    }
+
+    if (changedRecords.length > 0) {
+      const { saved, previous } = await applyUpdates(changedRecords);
+      entries.push({ type: 'update', label: 'Import changes', before: previous, after: saved });
+      auditLogStore.recordUpdates(previous, saved, 'import');
+    }
+
+    if (entries.length > 0) {
+      pushHistory({
+        type: 'batch',
+        label: `Import ${newRecords.length + changedRecords.length} records`,
+        entries
+      });
+    }
+    console.log(`Imported ${newRecords.length} new and ${changedRecords.length} changed records`);
+  }
+
+  /**
+   * Apply the changes of a history entry, forwards (redo) or backwards (undo)
+   */
+  async function applyEntry(entry: HistoryEntry, direction: 'undo' | 'redo'): Promise<void> {
+    const forward = direction === 'redo';
+
+    switch (entry.type) {
+      case 'update': {
+        const { saved, previous } = await applyUpdates(forward ? entry.after : entry.before);
+        auditLogStore.recordUpdates(previous, saved, direction);
+        break;
+      }
+      case 'add':
+      case 'delete': {
+        // Adding forwards and deleting backwards both insert the records again
+        if ((entry.type === 'add') === forward) {
+          const inserted = await applyInsertions(entry.records, true);
+          auditLogStore.recordCreates(inserted.map(item => item.record), direction);
+        } else {
+          const removed = await applyRemovals(entry.records.map(item => item.record.clientId));
+          auditLogStore.recordDeletes(removed.map(item => item.record), direction);
+        }
+        break;
+      }
+      case 'batch': {
+        const children = forward ? entry.entries : [...entry.entries].reverse();
+        for (const child of children) {
+          await applyEntry(child, direction);
+        }
+        break;
+      }
+    }
   }
 
+  /**
+   * Undo the most recent action
+   */
+  async function undo() {
+    const entry = undoStack.value[undoStack.value.length - 1];
+    if (!entry || isApplyingHistory.value) return;
+
+    isApplyingHistory.value = true;
+    try {
+      await applyEntry(entry, 'undo');
+      undoStack.value = undoStack.value.slice(0, -1);
+      redoStack.value = [...redoStack.value, entry];
+      console.log('Undo:', entry.label);
+    } finally {
+      isApplyingHistory.value = false;
+    }
+  }
+
+  /**
+   * Redo the most recently undone action
+   */
+  async function redo() {
+    const entry = redoStack.value[redoStack.value.length - 1];
+    if (!entry || isApplyingHistory.value) return;
+
+    isApplyingHistory.value = true;
+    try {
+      await applyEntry(entry, 'redo');
+      redoStack.value = redoStack.value.slice(0, -1);
+      undoStack.value = [...undoStack.value, entry];
+      console.log('Redo:', entry.label);
+    } finally {
+      isApplyingHistory.value = false;
+    }
+  }
+
+  /**
+   * Labels of the actions that undo/redo would apply
+   */
+  const undoLabel = computed(() => undoStack.value[undoStack.value.length - 1]?.label ?? null);
+  const redoLabel = computed(() => redoStack.value[redoStack.value.length - 1]?.label ?? null);
+  const canUndo = computed(() => undoStack.value.length > 0 && !isApplyingHistory.value);
+  const canRedo = computed(() => redoStack.value.length > 0 && !isApplyingHistory.value);
+
   /**
    * Get total record count
    */
@@ -188,35 +686,70 @@ export function useDiscountData() {
    */
   const filteredRecords = computed(() => filteredData.value.length);
 
+  /**
+   * Number of records involved in at least one conflict
+   */
+  const conflictCount = computed(() => conflicts.value.size);
+
+  /**
+   * Number of records with at least one validation error
+   */
+  const invalidRecordCount = computed(() => validationErrors.value.size);
+
   /**
    * Check if filters are active
    */
-  const hasActiveFilters = computed(() => Object.keys(filters).length > 0);
+  const hasActiveFilters = computed(() => Object.keys(filterModel.value).length > 0 || queryNode.value !== null);
 
   return {
     // Data
-    rawData: readonly(rawData),
+    rawData: shallowReadonly(rawData),
+    gridRowData,
     filteredData,
+    engine,
     
     // State
     isLoading: readonly(isLoading),
+    isFiltering: readonly(isFiltering),
     error: readonly(error),
-    filters: readonly(filters),
+    isApplyingHistory: readonly(isApplyingHistory),
+    filterModel: readonly(filterModel),
+    showConflictsOnly: readonly(showConflictsOnly),
+    query: readonly(query),
+    queryNode: readonly(queryNode),
     
     // Computed
     totalRecords,
     filteredRecords,
     hasActiveFilters,
+    conflicts: readonly(conflicts),
+    conflictCount,
+    validationErrors: readonly(validationErrors),
+    invalidRecordCount,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
     
     // Methods
     loadData,
     getUniqueValues,
-    updateFilter,
+    getValueCounts,
+    setFilterModel,
+    setColumnFilter,
     clearFilters,
+    setQuery,
+    setShowConflictsOnly,
     updateRecord,
+    updateRecords,
     deleteRecord,
     deleteRecords,
-    addRecord
+    addRecord,
+    addRecords,
+    importRecords,
+    undo,
+    redo,
+    clearHistory
   };
 }
 
@@ -0,0 +1,72 @@
+/**
+ * Composable for per-user display preferences
+ * Controls the time zone used to show start/end instants and the unit used for discount length
+ */
+
+import { ref, readonly } from 'vue';
+import { isValidTimeZone } from '../utils/dateUtils';
+
+export type LengthUnit = 'days' | 'hours';
+
+const TIME_ZONE_STORAGE_KEY = 'discount-management.displayTimeZone';
+const LENGTH_UNIT_STORAGE_KEY = 'discount-management.lengthUnit';
+
+// Time zone of the user's browser, used until another display zone is chosen
+export const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * Read a remembered setting, if storage is available
+ */
+function loadSetting(key: string): string | null {
+  if (typeof localStorage === 'undefined') return null;
+  return localStorage.getItem(key);
+}
+
+/**
+ * Remember a setting, if storage is available
+ */
+function saveSetting(key: string, value: string) {
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(key, value);
+  }
+}
+
+export function useDisplaySettings() {
+  const storedTimeZone = loadSetting(TIME_ZONE_STORAGE_KEY);
+  const storedLengthUnit = loadSetting(LENGTH_UNIT_STORAGE_KEY);
+
+  // Time zone in which start/end instants are shown
+  const displayTimeZone = ref(
+    storedTimeZone && isValidTimeZone(storedTimeZone) ? storedTimeZone : BROWSER_TIME_ZONE
+  );
+
+  // Unit for the Length column
+  const lengthUnit = ref<LengthUnit>(storedLengthUnit === 'hours' ? 'hours' : 'days');
+
+  /**
+   * Change the display time zone, ignoring zones the browser does not know
+   */
+  function setDisplayTimeZone(timeZone: string) {
+    if (!isValidTimeZone(timeZone)) return;
+    displayTimeZone.value = timeZone;
+    saveSetting(TIME_ZONE_STORAGE_KEY, timeZone);
+  }
+
+  /**
+   * Change the unit used for discount length
+   */
+  function setLengthUnit(unit: LengthUnit) {
+    lengthUnit.value = unit;
+    saveSetting(LENGTH_UNIT_STORAGE_KEY, unit);
+  }
+
+  return {
+    displayTimeZone: readonly(displayTimeZone),
+    lengthUnit: readonly(lengthUnit),
+    setDisplayTimeZone,
+    setLengthUnit
+  };
+}
+
+// Create a global instance for sharing display settings across components
+export const displaySettingsStore = useDisplaySettings();
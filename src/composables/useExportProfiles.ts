@@ -0,0 +1,153 @@
+/**
+ * Composable for export profiles
+ * Keeps named profiles of format, columns and value formatting in localStorage and tracks the one in use
+ */
+
+import { ref, computed, readonly } from 'vue';
+import {
+  type ExportProfile,
+  type ExportProfileSettings,
+  BUILT_IN_PROFILES,
+  sanitizeProfile
+} from '../utils/exportProfiles';
+
+const PROFILES_STORAGE_KEY = 'discount-management.exportProfiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'discount-management.activeExportProfile';
+
+/**
+ * Copies of the built-in profiles, so edits never change the originals
+ */
+function getBuiltInProfiles(): ExportProfile[] {
+  return BUILT_IN_PROFILES.map(profile => ({ ...profile, columns: [...profile.columns] }));
+}
+
+/**
+ * Create a unique id for a profile
+ */
+function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Read saved profiles, if storage is available, skipping malformed entries
+ * Falls back to the built-in profiles when none are saved
+ */
+function loadProfiles(): ExportProfile[] {
+  if (typeof localStorage === 'undefined') return getBuiltInProfiles();
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) ?? 'null');
+    const profiles = Array.isArray(stored)
+      ? stored.map(sanitizeProfile).filter((profile): profile is ExportProfile => profile !== null)
+      : [];
+    return profiles.length > 0 ? profiles : getBuiltInProfiles();
+  } catch (error) {
+    console.error('Failed to read export profiles:', error);
+    return getBuiltInProfiles();
+  }
+}
+
+export function useExportProfiles() {
+  // All profiles, in creation order
+  const profiles = ref<ExportProfile[]>(loadProfiles());
+
+  // Profile used by the export buttons
+  const storedActiveId = typeof localStorage !== 'undefined' ? localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) : null;
+  const activeProfileId = ref<string>(
+    profiles.value.some(profile => profile.id === storedActiveId) ? storedActiveId! : profiles.value[0].id
+  );
+
+  const activeProfile = computed(
+    () => profiles.value.find(profile => profile.id === activeProfileId.value) ?? profiles.value[0]
+  );
+
+  /**
+   * Write profiles and the active profile to storage
+   */
+  function persist() {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles.value));
+    localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, activeProfileId.value);
+  }
+
+  /**
+   * Trim a profile name and check it is not empty or used by another profile
+   */
+  function checkName(name: string, exceptId?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Profile name is required');
+    }
+    if (profiles.value.some(profile => profile.id !== exceptId && profile.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A profile named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Find a profile by id
+   */
+  function getProfile(id: string): ExportProfile {
+    const profile = profiles.value.find(candidate => candidate.id === id);
+    if (!profile) {
+      throw new Error(`Profile ${id} not found`);
+    }
+    return profile;
+  }
+
+  /**
+   * Save settings as a new named profile and make it the active profile
+   */
+  function createProfile(name: string, settings: ExportProfileSettings): ExportProfile {
+    const profile = sanitizeProfile({ ...settings, id: createProfileId(), name: checkName(name) })!;
+    profiles.value = [...profiles.value, profile];
+    activeProfileId.value = profile.id;
+    persist();
+    return profile;
+  }
+
+  /**
+   * Change some settings or the name of a profile
+   */
+  function updateProfile(id: string, changes: Partial<ExportProfileSettings> & { name?: string }) {
+    const profile = getProfile(id);
+    const name = changes.name === undefined ? profile.name : checkName(changes.name, id);
+    const updated = sanitizeProfile({ ...profile, ...changes, id, name })!;
+    profiles.value = profiles.value.map(candidate => (candidate.id === id ? updated : candidate));
+    persist();
+  }
+
+  /**
+   * Delete a profile; the last one cannot be deleted, and deleting the active one activates the first
+   */
+  function deleteProfile(id: string) {
+    if (profiles.value.length <= 1) {
+      throw new Error('At least one export profile is needed');
+    }
+    profiles.value = profiles.value.filter(profile => profile.id !== id);
+    if (activeProfileId.value === id) {
+      activeProfileId.value = profiles.value[0].id;
+    }
+    persist();
+  }
+
+  /**
+   * Use a profile for exports
+   */
+  function setActiveProfile(id: string) {
+    activeProfileId.value = getProfile(id).id;
+    persist();
+  }
+
+  return {
+    profiles: readonly(profiles),
+    activeProfileId: readonly(activeProfileId),
+    activeProfile,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+    setActiveProfile
+  };
+}
+
+// Create a global instance for sharing export profiles across components
+export const exportProfilesStore = useExportProfiles();
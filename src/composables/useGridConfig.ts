@@ -5,15 +5,83 @@
 
 import { ref, computed, readonly } from 'vue';
 import type { ColDef, GridOptions } from 'ag-grid-community';
+import { discountDataStore } from './useDiscountData';
+import { sessionStore } from './useSession';
+import { displaySettingsStore } from './useDisplaySettings';
+import { performanceMetricsStore } from './usePerformanceMetrics';
 import { 
   type DiscountRecord, 
+  type GridViewState,
   Platform, 
   Region, 
   ImplementationStatus, 
   SalesEventStatus,
   CLIENT_OPTIONS,
-  PLATFORM_REGION_CONSTRAINTS
+  TIMEZONE_OPTIONS
 } from '../types/discount';
+import { DISCOUNT_RECORD_SCHEMA, getAllowedRegions } from '../utils/validationRules';
+import { getNextStatuses } from '../utils/statusTransitions';
+import { MONTH_NAMES, formatInstant } from '../utils/dateUtils';
+import SetFilter from '../components/SetFilter.vue';
+import type { UrlGridState } from '../utils/urlState';
+
+// Maximum number of overlapping record ids listed in a conflict tooltip
+const CONFLICT_TOOLTIP_LIMIT = 5;
+
+// Rows per page offered by the pager; saved views may pick any of them
+export const PAGE_SIZE_OPTIONS = [25, 50, 100, 200];
+export const DEFAULT_PAGE_SIZE = 50;
+
+// Columns highlighted when a record overlaps another discount
+const CONFLICT_FIELDS = ['clientId', 'startDate', 'endDate'];
+
+/**
+ * Calendar order for month names in the month filter
+ */
+function compareMonthNames(a: string, b: string): number {
+  return MONTH_NAMES.indexOf(a) - MONTH_NAMES.indexOf(b);
+}
+
+/**
+ * Validation messages for the field shown in a cell
+ */
+function getCellErrors(params: { data?: DiscountRecord; colDef?: ColDef | null }): string[] {
+  if (!params.data || !params.colDef?.field) return [];
+  const errors = discountDataStore.validationErrors.value.get(params.data.clientId) ?? [];
+  return errors.filter(error => error.field === params.colDef!.field).map(error => error.message);
+}
+
+/**
+ * Ids of records overlapping the record shown in a cell, for conflict columns only
+ */
+function getCellConflicts(params: { data?: DiscountRecord; colDef?: ColDef | null }): readonly string[] {
+  if (!params.data || !CONFLICT_FIELDS.includes(params.colDef?.field ?? '')) return [];
+  return discountDataStore.conflicts.value.get(params.data.clientId) ?? [];
+}
+
+/**
+ * Column properties that flag invalid values and overlapping discounts, shared by every column
+ */
+const cellStatusProps: Partial<ColDef> = {
+  cellClassRules: {
+    'invalid-cell': (params) => getCellErrors(params).length > 0,
+    'conflict-cell': (params) => getCellConflicts(params).length > 0
+  },
+  tooltipValueGetter: (params) => {
+    const messages = getCellErrors(params);
+
+    const overlapping = getCellConflicts(params);
+    if (overlapping.length > 0) {
+      const listed = overlapping.slice(0, CONFLICT_TOOLTIP_LIMIT).join(', ');
+      const more = overlapping.length > CONFLICT_TOOLTIP_LIMIT
+        ? ` and ${overlapping.length - CONFLICT_TOOLTIP_LIMIT} more`
+        : '';
+      messages.push(`Overlaps another discount for the same client, platform and region: ${listed}${more}`);
+    }
+
+    return messages.length > 0 ? messages.join('\n') : undefined;
+  }
+};
 
 export function useGridConfig() {
   const gridApi = ref<any>(null);
@@ -43,11 +111,7 @@ export function useGridConfig() {
       cellEditorParams: {
         values: CLIENT_OPTIONS
       },
-      filter: 'agTextColumnFilter',
-      filterParams: {
-        buttons: ['reset', 'apply'],
-        debounceMs: 500
-      }
+      filter: SetFilter
     },
     {
       headerName: 'Platform',
@@ -58,11 +122,7 @@ export function useGridConfig() {
       cellEditorParams: {
         values: Object.values(Platform)
       },
-      filter: 'agTextColumnFilter',
-      filterParams: {
-        buttons: ['reset', 'apply'],
-        debounceMs: 500
-      }
+      filter: SetFilter
     },
     {
       headerName: 'Region',
@@ -72,16 +132,10 @@ export function useGridConfig() {
       cellEditor: 'agSelectCellEditor',
       cellEditorParams: (params: any) => {
         const platform = params.data?.platform as Platform;
-        if (platform && PLATFORM_REGION_CONSTRAINTS[platform]) {
-          return { values: PLATFORM_REGION_CONSTRAINTS[platform] };
-        }
-        return { values: Object.values(Region) };
+        const allowed = platform ? getAllowedRegions(platform) : [];
+        return { values: allowed.length > 0 ? allowed : Object.values(Region) };
       },
-      filter: 'agTextColumnFilter',
-      filterParams: {
-        buttons: ['reset', 'apply'],
-        debounceMs: 500
-      }
+      filter: SetFilter
     },
     {
       headerName: 'Discount',
@@ -136,6 +190,19 @@ export function useGridConfig() {
         buttons: ['reset', 'apply']
       }
     },
+    {
+      headerName: 'Timezone',
+      field: 'timezone',
+      width: 160,
+      editable: true,
+      cellEditor: 'agSelectCellEditor',
+      cellEditorParams: (params: any) => {
+        const current = params.data?.timezone;
+        const values = current && !TIMEZONE_OPTIONS.includes(current) ? [current, ...TIMEZONE_OPTIONS] : TIMEZONE_OPTIONS;
+        return { values };
+      },
+      filter: SetFilter
+    },
     {
       headerName: 'Percent',
       field: 'percent',
@@ -143,8 +210,8 @@ export function useGridConfig() {
       editable: true,
       cellEditor: 'agNumberCellEditor',
       cellEditorParams: {
-        min: 0,
-        max: 100
+        min: DISCOUNT_RECORD_SCHEMA.percent?.min,
+        max: DISCOUNT_RECORD_SCHEMA.percent?.max
       },
       valueFormatter: (params: any) => `${params.value}%`,
       filter: 'agNumberColumnFilter',
@@ -169,14 +236,13 @@ export function useGridConfig() {
       width: 160,
       editable: true,
       cellEditor: 'agSelectCellEditor',
-      cellEditorParams: {
-        values: Object.values(ImplementationStatus)
-      },
-      filter: 'agTextColumnFilter',
-      filterParams: {
-        buttons: ['reset', 'apply'],
-        debounceMs: 500
-      }
+      // Only offer statuses the current role may move to
+      cellEditorParams: (params: any) => ({
+        values: params.data
+          ? getNextStatuses('implementationStatus', params.data.implementationStatus, sessionStore.role.value)
+          : Object.values(ImplementationStatus)
+      }),
+      filter: SetFilter
     },
     {
       headerName: 'Sales Event Status',
@@ -184,14 +250,12 @@ export function useGridConfig() {
       width: 150,
       editable: true,
       cellEditor: 'agSelectCellEditor',
-      cellEditorParams: {
-        values: Object.values(SalesEventStatus)
-      },
-      filter: 'agTextColumnFilter',
-      filterParams: {
-        buttons: ['reset', 'apply'],
-        debounceMs: 500
-      }
+      cellEditorParams: (params: any) => ({
+        values: params.data
+          ? getNextStatuses('salesEventStatus', params.data.salesEventStatus, sessionStore.role.value)
+          : Object.values(SalesEventStatus)
+      }),
+      filter: SetFilter
     },
     {
       headerName: 'Comments',
@@ -206,14 +270,35 @@ export function useGridConfig() {
       }
     },
     // Computed columns (pre-calculated during data loading)
+    {
+      headerName: `Starts (${displaySettingsStore.displayTimeZone.value})`,
+      colId: 'startInstant',
+      field: 'startInstant',
+      width: 170,
+      valueFormatter: (params: any) => formatInstant(params.value, displaySettingsStore.displayTimeZone.value),
+      cellStyle: { 
+        backgroundColor: '#f0f8ff',
+        fontStyle: 'italic'
+      }
+    },
+    {
+      headerName: `Ends (${displaySettingsStore.displayTimeZone.value})`,
+      colId: 'endInstant',
+      field: 'endInstant',
+      width: 170,
+      valueFormatter: (params: any) => formatInstant(params.value, displaySettingsStore.displayTimeZone.value),
+      cellStyle: { 
+        backgroundColor: '#f0f8ff',
+        fontStyle: 'italic'
+      }
+    },
     {
       headerName: 'Month',
       field: 'month',
       width: 120,
-      filter: 'agTextColumnFilter',
+      filter: SetFilter,
       filterParams: {
-        buttons: ['reset', 'apply'],
-        debounceMs: 500
+        comparator: compareMonthNames
       },
       cellStyle: { 
         backgroundColor: '#f0f8ff',
@@ -221,8 +306,10 @@ export function useGridConfig() {
       }
     },
     {
-      headerName: 'Length (Days)',
-      field: 'length',
+      headerName: displaySettingsStore.lengthUnit.value === 'hours' ? 'Length (Hours)' : 'Length (Days)',
+      // Stable id so width and sort survive switching between days and hours
+      colId: 'length',
+      field: displaySettingsStore.lengthUnit.value === 'hours' ? 'lengthHours' : 'length',
       width: 120,
       filter: 'agNumberColumnFilter',
       filterParams: {
@@ -248,8 +335,8 @@ export function useGridConfig() {
     
     // Pagination
     pagination: true,
-    paginationPageSize: 50,
-    paginationPageSizeSelector: [25, 50, 100, 200],
+    paginationPageSize: DEFAULT_PAGE_SIZE,
+    paginationPageSizeSelector: PAGE_SIZE_OPTIONS,
     
     // Selection (using new v32+ API)
     rowSelection: {
@@ -261,15 +348,16 @@ export function useGridConfig() {
     
     // Default column definitions
     defaultColDef: {
-      sortingOrder: ['asc', 'desc', null]
+      sortingOrder: ['asc', 'desc', null],
+      ...cellStatusProps
     },
     
     // Editing configuration
     suppressClickEdit: false, // Allow single-click editing
     editType: 'cell', // Cell-by-cell editing for dropdown compatibility
     stopEditingWhenCellsLoseFocus: true, // Exit edit mode when clicking elsewhere
-    undoRedoCellEditing: true, // Enable undo/redo
-    undoRedoCellEditingLimit: 20,
+    // Undo/redo is handled by the data store history so it also covers bulk operations
+    undoRedoCellEditing: false,
     
     // Navigation
     enterNavigatesVertically: true,
@@ -285,6 +373,12 @@ export function useGridConfig() {
     suppressAnimationFrame: false,
     suppressAsyncEvents: false,
     
+    // Stable row identity keeps selection and scroll position when rows are restored
+    getRowId: (params) => params.data.clientId,
+    
+    // Tooltips (used for validation errors and conflict warnings)
+    tooltipShowDelay: 300,
+    
     // Styling
     rowHeight: 35,
     headerHeight: 40,
@@ -353,10 +447,10 @@ export function useGridConfig() {
    */
   function exportToCsv(filename?: string) {
     if (gridApi.value) {
-      gridApi.value.exportDataAsCsv({
+      performanceMetricsStore.measure('export', () => gridApi.value.exportDataAsCsv({
         fileName: filename || 'discount-data.csv',
-        columnKeys: columnDefs.value.map(col => col.field).filter(Boolean)
-      });
+        columnKeys: columnDefs.value.map(col => col.colId ?? col.field).filter(Boolean)
+      }), `grid CSV, ${gridApi.value.getDisplayedRowCount()} rows`);
     }
   }
 
@@ -378,6 +472,113 @@ export function useGridConfig() {
     }
   }
 
+  /**
+   * Capture the current filters, sorting, column layout and page size
+   */
+  function getViewState(): GridViewState | null {
+    if (!gridApi.value) return null;
+
+    const columns: any[] = gridApi.value.getColumnState();
+    return {
+      filterModel: gridApi.value.getFilterModel() ?? {},
+      sortModel: columns
+        .filter(column => column.sort)
+        .sort((a, b) => (a.sortIndex ?? 0) - (b.sortIndex ?? 0))
+        .map(column => ({ colId: column.colId, sort: column.sort })),
+      columnState: columns.map(column => ({
+        colId: column.colId,
+        width: column.width,
+        hide: Boolean(column.hide),
+        pinned: column.pinned ?? null
+      })),
+      pageSize: gridApi.value.paginationGetPageSize()
+    };
+  }
+
+  /**
+   * Restore filters, sorting, column layout and page size from a saved view
+   * Columns the view does not mention keep their definition defaults and go after the listed ones
+   */
+  function applyViewState(state: GridViewState) {
+    if (!gridApi.value) return;
+
+    const sorts = new Map(state.sortModel.map((sort, index) => [sort.colId, { sort: sort.sort, sortIndex: index }]));
+    gridApi.value.applyColumnState({
+      state: state.columnState.map(column => ({
+        ...column,
+        sort: sorts.get(column.colId)?.sort ?? null,
+        sortIndex: sorts.get(column.colId)?.sortIndex ?? null
+      })),
+      applyOrder: true,
+      defaultState: { sort: null }
+    });
+    gridApi.value.setFilterModel(Object.keys(state.filterModel).length > 0 ? state.filterModel : null);
+    gridApi.value.setGridOption(
+      'paginationPageSize',
+      PAGE_SIZE_OPTIONS.includes(state.pageSize) ? state.pageSize : DEFAULT_PAGE_SIZE
+    );
+  }
+
+  /**
+   * Return to the default column layout with no filters or sorting
+   */
+  function resetViewState() {
+    if (!gridApi.value) return;
+
+    gridApi.value.resetColumnState();
+    gridApi.value.setFilterModel(null);
+    gridApi.value.setGridOption('paginationPageSize', DEFAULT_PAGE_SIZE);
+  }
+
+  /**
+   * Capture the filters, sorting and page shown in the URL
+   */
+  function getUrlState(focusedRecord: string | null): UrlGridState | null {
+    const viewState = getViewState();
+    if (!viewState) return null;
+
+    return {
+      filterModel: viewState.filterModel,
+      sortModel: viewState.sortModel,
+      page: gridApi.value.paginationGetCurrentPage(),
+      focusedRecord
+    };
+  }
+
+  /**
+   * Restore filters, sorting and page from the URL, then bring the focused record into view
+   * Returns false when the focused record is not among the displayed rows (e.g. data not loaded yet)
+   */
+  function applyUrlState(state: UrlGridState): boolean {
+    if (!gridApi.value) return false;
+
+    gridApi.value.applyColumnState({
+      state: state.sortModel.map((sort, index) => ({ colId: sort.colId, sort: sort.sort, sortIndex: index })),
+      defaultState: { sort: null }
+    });
+    gridApi.value.setFilterModel(Object.keys(state.filterModel).length > 0 ? state.filterModel : null);
+
+    if (!state.focusedRecord) {
+      gridApi.value.paginationGoToPage(state.page);
+      return true;
+    }
+    return focusRecord(state.focusedRecord);
+  }
+
+  /**
+   * Go to the page holding a record, scroll it into view and focus it
+   */
+  function focusRecord(clientId: string): boolean {
+    const node = gridApi.value?.getRowNode(clientId);
+    if (!node || node.rowIndex === null || node.rowIndex === undefined) return false;
+
+    gridApi.value.paginationGoToPage(Math.floor(node.rowIndex / gridApi.value.paginationGetPageSize()));
+    gridApi.value.ensureNodeVisible(node, 'middle');
+    gridApi.value.setFocusedCell(node.rowIndex, 'clientId');
+    gridApi.value.flashCells({ rowNodes: [node] });
+    return true;
+  }
+
   /**
    * Refresh grid data
    */
@@ -400,6 +601,12 @@ export function useGridConfig() {
     exportToCsv,
     autoSizeColumns,
     resetFilters,
-    refreshGrid
+    refreshGrid,
+    getViewState,
+    applyViewState,
+    resetViewState,
+    getUrlState,
+    applyUrlState,
+    focusRecord
   };
 }
\ No newline at end of file
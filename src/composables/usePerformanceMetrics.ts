@@ -0,0 +1,196 @@
+/**
+ * Composable for performance measurements
+ * Collects timings from the data store, grid and bulk operations, keeps a rolling window per metric
+ * and builds a JSON report that can be compared between builds
+ */
+
+import { ref, computed, readonly } from 'vue';
+import {
+  type HeapUsage,
+  type MetricName,
+  type PerformanceReport,
+  type PerformanceSample,
+  METRIC_NAMES,
+  summarizeSamples
+} from '../utils/performanceMetrics';
+
+// Samples kept per metric for the rolling percentiles
+const SAMPLE_LIMIT = 200;
+
+// A filter change not followed by a grid update within this time is dropped
+const PENDING_FILTER_TIMEOUT_MS = 5000;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Current time in milliseconds with sub-millisecond precision where available
+ */
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+/**
+ * Run a callback once the browser has painted the current frame
+ */
+function afterNextPaint(callback: () => void) {
+  if (typeof requestAnimationFrame === 'undefined') {
+    setTimeout(callback);
+    return;
+  }
+  // The first frame callback runs before the paint, the second after it
+  requestAnimationFrame(() => requestAnimationFrame(callback));
+}
+
+export function usePerformanceMetrics() {
+  // Samples are plain arrays so recording from inside computed properties does not trigger effects;
+  // the version is bumped after the current task to refresh the summaries
+  const samples = Object.fromEntries(METRIC_NAMES.map(name => [name, [] as PerformanceSample[]])) as Record<
+    MetricName,
+    PerformanceSample[]
+  >;
+  const version = ref(0);
+  let versionUpdateQueued = false;
+
+  // JS heap usage, null when the browser does not expose it
+  const heapUsage = ref<HeapUsage | null>(null);
+
+  // Start of a filter change the grid has not rendered yet
+  let pendingFilterChange: { start: number; detail?: string } | null = null;
+
+  /**
+   * Refresh summaries once the current task has finished recording
+   */
+  function queueVersionUpdate() {
+    if (versionUpdateQueued) return;
+    versionUpdateQueued = true;
+    queueMicrotask(() => {
+      versionUpdateQueued = false;
+      version.value++;
+    });
+  }
+
+  /**
+   * Record one timing
+   */
+  function record(name: MetricName, durationMs: number, detail?: string) {
+    const list = samples[name];
+    list.push({ durationMs, timestamp: new Date().toISOString(), ...(detail && { detail }) });
+    if (list.length > SAMPLE_LIMIT) {
+      list.splice(0, list.length - SAMPLE_LIMIT);
+    }
+    queueVersionUpdate();
+  }
+
+  /**
+   * Time a synchronous or async callback and record its duration, including when it fails
+   */
+  function measure<T>(name: MetricName, run: () => T, detail?: string): T {
+    const start = now();
+    let result: T;
+    try {
+      result = run();
+    } catch (error) {
+      record(name, now() - start, detail);
+      throw error;
+    }
+
+    if (result instanceof Promise) {
+      return result.finally(() => record(name, now() - start, detail)) as T;
+    }
+    record(name, now() - start, detail);
+    return result;
+  }
+
+  /**
+   * Note that filters are about to change; the next grid model update completes the measurement
+   */
+  function markFilterChange(detail?: string) {
+    const start = now();
+    if (pendingFilterChange && start - pendingFilterChange.start < PENDING_FILTER_TIMEOUT_MS) return;
+    pendingFilterChange = { start, detail };
+  }
+
+  /**
+   * Record grid render time for a pending filter change, then the time until the result is painted
+   */
+  function completeFilterChange() {
+    const pending = pendingFilterChange;
+    if (!pending) return;
+    pendingFilterChange = null;
+
+    const rendered = now();
+    if (rendered - pending.start > PENDING_FILTER_TIMEOUT_MS) return;
+
+    record('gridRender', rendered - pending.start, pending.detail);
+    afterNextPaint(() => record('filterPaint', now() - pending.start, pending.detail));
+  }
+
+  /**
+   * Read JS heap usage where the browser exposes it (Chromium's performance.memory)
+   */
+  function sampleHeap(): HeapUsage | null {
+    const memory = typeof performance !== 'undefined' ? (performance as any).memory : undefined;
+    heapUsage.value = memory
+      ? {
+          usedMb: memory.usedJSHeapSize / BYTES_PER_MB,
+          totalMb: memory.totalJSHeapSize / BYTES_PER_MB,
+          limitMb: memory.jsHeapSizeLimit / BYTES_PER_MB
+        }
+      : null;
+    return heapUsage.value;
+  }
+
+  /**
+   * Rolling summary per metric
+   */
+  const summaries = computed(() => {
+    void version.value;
+    return Object.fromEntries(METRIC_NAMES.map(name => [name, summarizeSamples(samples[name])])) as Record<
+      MetricName,
+      ReturnType<typeof summarizeSamples>
+    >;
+  });
+
+  /**
+   * Report of every metric's samples and summary for regression comparisons
+   */
+  function getReport(recordCount: number): PerformanceReport {
+    return {
+      version: 1,
+      generatedAt: new Date().toISOString(),
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : '',
+      recordCount,
+      heap: sampleHeap(),
+      metrics: Object.fromEntries(METRIC_NAMES.map(name => [
+        name,
+        { summary: summarizeSamples(samples[name]), samples: samples[name].slice() }
+      ])) as PerformanceReport['metrics']
+    };
+  }
+
+  /**
+   * Drop all samples
+   */
+  function clear() {
+    METRIC_NAMES.forEach(name => {
+      samples[name] = [];
+    });
+    pendingFilterChange = null;
+    version.value++;
+  }
+
+  return {
+    heapUsage: readonly(heapUsage),
+    summaries,
+    record,
+    measure,
+    markFilterChange,
+    completeFilterChange,
+    sampleHeap,
+    getReport,
+    clear
+  };
+}
+
+// Create a global instance for sharing metrics across components
+export const performanceMetricsStore = usePerformanceMetrics();
@@ -0,0 +1,256 @@
+/**
+ * Composable for named saved views
+ * Keeps views in localStorage and converts them to and from JSON so they can be shared
+ */
+
+import { ref, computed, readonly } from 'vue';
+import type { GridViewState, SavedView } from '../types/discount';
+
+const VIEWS_STORAGE_KEY = 'discount-management.savedViews';
+const ACTIVE_VIEW_STORAGE_KEY = 'discount-management.activeView';
+
+// Version written into exported files
+const EXPORT_VERSION = 1;
+
+/**
+ * Check that a value has the shape of a saved view's grid state
+ */
+function isGridViewState(value: any): value is GridViewState {
+  return Boolean(value) &&
+    typeof value.filterModel === 'object' && value.filterModel !== null && !Array.isArray(value.filterModel) &&
+    Array.isArray(value.sortModel) &&
+    value.sortModel.every((sort: any) => typeof sort?.colId === 'string' && (sort.sort === 'asc' || sort.sort === 'desc')) &&
+    Array.isArray(value.columnState) &&
+    value.columnState.every((column: any) => typeof column?.colId === 'string') &&
+    typeof value.pageSize === 'number' && value.pageSize > 0;
+}
+
+/**
+ * Copy only the grid state fields, dropping anything else a caller or file carried along
+ */
+function pickGridViewState(state: GridViewState): GridViewState {
+  return {
+    filterModel: JSON.parse(JSON.stringify(state.filterModel)),
+    sortModel: state.sortModel.map(({ colId, sort }) => ({ colId, sort })),
+    columnState: state.columnState.map(({ colId, width, hide, pinned }) => ({ colId, width, hide, pinned })),
+    pageSize: state.pageSize
+  };
+}
+
+/**
+ * Create a unique id for a view
+ */
+function createViewId(): string {
+  return `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Read saved views, if storage is available, skipping malformed entries
+ */
+function loadViews(): SavedView[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored = JSON.parse(localStorage.getItem(VIEWS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter(view => typeof view?.id === 'string' && typeof view.name === 'string' && isGridViewState(view))
+      : [];
+  } catch (error) {
+    console.error('Failed to read saved views:', error);
+    return [];
+  }
+}
+
+export function useSavedViews() {
+  // All saved views, in creation order
+  const views = ref<SavedView[]>(loadViews());
+
+  // View last applied to the grid, null for the default layout
+  const storedActiveId = typeof localStorage !== 'undefined' ? localStorage.getItem(ACTIVE_VIEW_STORAGE_KEY) : null;
+  const activeViewId = ref<string | null>(views.value.some(view => view.id === storedActiveId) ? storedActiveId : null);
+
+  const activeView = computed(() => views.value.find(view => view.id === activeViewId.value) ?? null);
+
+  /**
+   * Write views and the active view to storage
+   */
+  function persist() {
+    if (typeof localStorage === 'undefined') return;
+    localStorage.setItem(VIEWS_STORAGE_KEY, JSON.stringify(views.value));
+    if (activeViewId.value) {
+      localStorage.setItem(ACTIVE_VIEW_STORAGE_KEY, activeViewId.value);
+    } else {
+      localStorage.removeItem(ACTIVE_VIEW_STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Trim a view name and check it is not empty or used by another view
+   */
+  function checkName(name: string, exceptId?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('View name is required');
+    }
+    if (views.value.some(view => view.id !== exceptId && view.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A view named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Find a view by id
+   */
+  function getView(id: string): SavedView {
+    const view = views.value.find(candidate => candidate.id === id);
+    if (!view) {
+      throw new Error(`View ${id} not found`);
+    }
+    return view;
+  }
+
+  /**
+   * Save grid state as a new named view and make it the active view
+   */
+  function createView(name: string, state: GridViewState): SavedView {
+    const now = new Date().toISOString();
+    const view: SavedView = {
+      id: createViewId(),
+      name: checkName(name),
+      ...pickGridViewState(state),
+      createdAt: now,
+      updatedAt: now
+    };
+    views.value = [...views.value, view];
+    activeViewId.value = view.id;
+    persist();
+    return view;
+  }
+
+  /**
+   * Overwrite a view's grid state with the current one
+   */
+  function updateView(id: string, state: GridViewState) {
+    const view = getView(id);
+    views.value = views.value.map(candidate =>
+      candidate.id === id
+        ? { ...view, ...pickGridViewState(state), updatedAt: new Date().toISOString() }
+        : candidate
+    );
+    persist();
+  }
+
+  /**
+   * Rename a view
+   */
+  function renameView(id: string, name: string) {
+    const view = getView(id);
+    const newName = checkName(name, id);
+    views.value = views.value.map(candidate =>
+      candidate.id === id ? { ...view, name: newName, updatedAt: new Date().toISOString() } : candidate
+    );
+    persist();
+  }
+
+  /**
+   * Delete a view; deleting the active view falls back to the default layout
+   */
+  function deleteView(id: string) {
+    views.value = views.value.filter(view => view.id !== id);
+    if (activeViewId.value === id) {
+      activeViewId.value = null;
+    }
+    persist();
+  }
+
+  /**
+   * Mark a view as the one applied to the grid, or null for the default layout
+   */
+  function setActiveView(id: string | null) {
+    activeViewId.value = id !== null && views.value.some(view => view.id === id) ? id : null;
+    persist();
+  }
+
+  /**
+   * Serialize views to JSON, all of them or only the given ids
+   */
+  function exportViews(ids?: string[]): string {
+    const exported = ids ? views.value.filter(view => ids.includes(view.id)) : views.value;
+    return JSON.stringify({
+      version: EXPORT_VERSION,
+      views: exported.map(({ name, createdAt, updatedAt, ...state }) => ({
+        name,
+        ...pickGridViewState(state),
+        createdAt,
+        updatedAt
+      }))
+    }, null, 2);
+  }
+
+  /**
+   * Import views from JSON exported by exportViews
+   * Views whose name matches an existing view replace it; others are added
+   * Throws without changing anything when the file is not a valid views export
+   */
+  function importViews(json: string): { added: number; replaced: number } {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+
+    const imported = Array.isArray(parsed) ? parsed : parsed?.views;
+    if (!Array.isArray(imported)) {
+      throw new Error('File does not contain any saved views');
+    }
+
+    imported.forEach((view, index) => {
+      if (typeof view?.name !== 'string' || !view.name.trim() || !isGridViewState(view)) {
+        throw new Error(`View ${index + 1} is not a valid saved view`);
+      }
+    });
+
+    const now = new Date().toISOString();
+    const merged = [...views.value];
+    let added = 0;
+    let replaced = 0;
+
+    imported.forEach(view => {
+      const name = view.name.trim();
+      const existingIndex = merged.findIndex(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+      if (existingIndex >= 0) {
+        merged[existingIndex] = { ...merged[existingIndex], ...pickGridViewState(view), updatedAt: now };
+        replaced++;
+      } else {
+        merged.push({
+          id: createViewId(),
+          name,
+          ...pickGridViewState(view),
+          createdAt: typeof view.createdAt === 'string' ? view.createdAt : now,
+          updatedAt: now
+        });
+        added++;
+      }
+    });
+
+    views.value = merged;
+    persist();
+    return { added, replaced };
+  }
+
+  return {
+    views: readonly(views),
+    activeViewId: readonly(activeViewId),
+    activeView,
+    createView,
+    updateView,
+    renameView,
+    deleteView,
+    setActiveView,
+    exportViews,
+    importViews
+  };
+}
+
+// Create a global instance for sharing saved views across components
+export const savedViewsStore = useSavedViews();
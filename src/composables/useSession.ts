@@ -0,0 +1,70 @@
+/**
+ * Composable for the current user session
+ * There is no authentication in the POC, so the actor name and role are chosen by the user and remembered locally
+ */
+
+import { ref, readonly } from 'vue';
+import type { UserRole } from '../types/discount';
+
+const ACTOR_STORAGE_KEY = 'discount-management.actor';
+const DEFAULT_ACTOR = 'local-user';
+const ROLE_STORAGE_KEY = 'discount-management.role';
+const DEFAULT_ROLE: UserRole = 'editor';
+
+// Roles a user can pick; 'system' is reserved for automatic changes
+export const USER_ROLES: UserRole[] = ['editor', 'manager'];
+
+/**
+ * Read the remembered actor name, if storage is available
+ */
+function loadActor(): string {
+  if (typeof localStorage === 'undefined') return DEFAULT_ACTOR;
+  return localStorage.getItem(ACTOR_STORAGE_KEY) || DEFAULT_ACTOR;
+}
+
+/**
+ * Read the remembered role, if storage is available
+ */
+function loadRole(): UserRole {
+  if (typeof localStorage === 'undefined') return DEFAULT_ROLE;
+  const stored = localStorage.getItem(ROLE_STORAGE_KEY) as UserRole | null;
+  return stored && USER_ROLES.includes(stored) ? stored : DEFAULT_ROLE;
+}
+
+export function useSession() {
+  // Name recorded as the actor for audit log entries
+  const actor = ref(loadActor());
+
+  // Role deciding which status transitions the user may make
+  const role = ref<UserRole>(loadRole());
+
+  /**
+   * Change the current actor name
+   */
+  function setActor(name: string) {
+    actor.value = name.trim() || DEFAULT_ACTOR;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(ACTOR_STORAGE_KEY, actor.value);
+    }
+  }
+
+  /**
+   * Change the current role
+   */
+  function setRole(newRole: UserRole) {
+    role.value = USER_ROLES.includes(newRole) ? newRole : DEFAULT_ROLE;
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(ROLE_STORAGE_KEY, role.value);
+    }
+  }
+
+  return {
+    actor: readonly(actor),
+    role: readonly(role),
+    setActor,
+    setRole
+  };
+}
+
+// Create a global instance for sharing the session across components
+export const sessionStore = useSession();
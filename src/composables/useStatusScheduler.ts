@@ -0,0 +1,114 @@
+/**
+ * Composable for date-driven sales event status changes
+ * Moves salesEventStatus from Planned to Active to Completed as start and end times pass,
+ * for events whose implementation is completed
+ */
+
+import { ref, readonly, watch } from 'vue';
+import type { DiscountRecord } from '../types/discount';
+import { discountDataStore } from './useDiscountData';
+import { getScheduledSalesEventStatus } from '../utils/statusTransitions';
+
+// How often the scheduler checks for due status changes
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+export function useStatusScheduler(dataStore: typeof discountDataStore = discountDataStore) {
+  const isRunning = ref(false);
+  const lastRunAt = ref<string | null>(null);
+  const lastUpdatedCount = ref(0);
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let stopLoadWatch: (() => void) | null = null;
+  let inFlight = false;
+
+  /**
+   * Records whose sales event status is due to change at the given time
+   */
+  function findDueUpdates(records: readonly DiscountRecord[], now: number): DiscountRecord[] {
+    const updates: DiscountRecord[] = [];
+
+    records.forEach(record => {
+      const status = getScheduledSalesEventStatus(record, now);
+      if (status) {
+        updates.push({ ...record, salesEventStatus: status });
+      }
+    });
+
+    return updates;
+  }
+
+  /**
+   * Apply all due status changes now, returning the number of records updated
+   */
+  async function runNow(now: number = Date.now()): Promise<number> {
+    // Skip while data is loading or an undo/redo is in progress; the next tick picks changes up
+    if (inFlight || dataStore.isLoading.value || dataStore.isApplyingHistory.value) return 0;
+
+    inFlight = true;
+    try {
+      const updates = findDueUpdates(dataStore.rawData.value as DiscountRecord[], now);
+      if (updates.length > 0) {
+        await dataStore.updateRecords(updates, {
+          label: `Scheduled status update of ${updates.length} records`,
+          source: 'scheduler',
+          recordHistory: false
+        });
+        console.log(`Status scheduler updated ${updates.length} records`);
+      }
+
+      lastRunAt.value = new Date(now).toISOString();
+      lastUpdatedCount.value = updates.length;
+      return updates.length;
+    } catch (error) {
+      console.error('Scheduled status update failed:', error);
+      return 0;
+    } finally {
+      inFlight = false;
+    }
+  }
+
+  /**
+   * Start checking periodically, and whenever a data load finishes
+   */
+  function start(intervalMs: number = DEFAULT_INTERVAL_MS) {
+    if (timer) return;
+
+    timer = setInterval(() => runNow(), intervalMs);
+    stopLoadWatch = watch(
+      () => dataStore.isLoading.value,
+      isLoading => {
+        if (!isLoading) runNow();
+      },
+      { immediate: true }
+    );
+    isRunning.value = true;
+  }
+
+  /**
+   * Stop periodic checks
+   */
+  function stop() {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    stopLoadWatch?.();
+    stopLoadWatch = null;
+    isRunning.value = false;
+  }
+
+  return {
+    // State
+    isRunning: readonly(isRunning),
+    lastRunAt: readonly(lastRunAt),
+    lastUpdatedCount: readonly(lastUpdatedCount),
+
+    // Methods
+    start,
+    stop,
+    runNow
+  };
+}
+
+// Create a global instance for sharing the scheduler across components
+export const statusSchedulerStore = useStatusScheduler();
@@ -0,0 +1,131 @@
+/**
+ * Tests for the data engine tasks, run through the in-thread engine
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { type DataEngine, TaskCancelledError, createInThreadDataEngine } from '../dataEngine';
+import { generateTestData } from '../../utils/mockDataGenerator';
+import { getCSVHeader } from '../../utils/csvExport';
+import { readXlsxRows } from '../../utils/xlsxImport';
+import type { DiscountRecord } from '../../types/discount';
+
+describe('data engine', () => {
+  let engine: DataEngine;
+  let records: DiscountRecord[];
+
+  beforeEach(async () => {
+    engine = createInThreadDataEngine();
+    records = generateTestData(50);
+    await engine.load(records);
+  });
+
+  it('generates records with progress reports', async () => {
+    const progress: number[] = [];
+    const generated = await engine.generate(12000, { onProgress: fraction => progress.push(fraction) });
+
+    expect(generated).toHaveLength(12000);
+    expect(new Set(generated.map(record => record.clientId)).size).toBe(12000);
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(progress.length).toBeGreaterThan(1);
+  });
+
+  it('applies the query and column filters separately', async () => {
+    const steam = records.filter(record => record.platform === 'Steam');
+    const result = await engine.filter({
+      query: 'platform:Steam',
+      filterModel: { percent: { filterType: 'number', type: 'greaterThan', filter: 40 } },
+      restrictTo: null,
+      lengthUnit: 'days'
+    });
+
+    expect(result.gridIds).toEqual(steam.map(record => record.clientId));
+    expect(result.filteredIds).toEqual(steam.filter(record => record.percent > 40).map(record => record.clientId));
+  });
+
+  it('returns null ids when every record matches', async () => {
+    const result = await engine.filter({ query: '', filterModel: {}, restrictTo: null, lengthUnit: 'days' });
+    expect(result).toEqual({ gridIds: null, filteredIds: null, gridPositions: null, filteredPositions: null });
+  });
+
+  it('filters the records as they are after updates and removals', async () => {
+    const [first, second] = records;
+    await engine.upsert([{ ...first, percent: 99 }]);
+    await engine.remove([second.clientId]);
+
+    const result = await engine.filter({
+      query: 'percent>=99',
+      filterModel: {},
+      restrictTo: [first.clientId, second.clientId],
+      lengthUnit: 'days'
+    });
+    expect(result.gridIds).toEqual([first.clientId]);
+  });
+
+  it('serializes the chosen records as CSV in sort order', async () => {
+    const ids = records.slice(0, 5).map(record => record.clientId);
+    const parts = await engine.serialize({
+      ids,
+      sortModel: [{ colId: 'percent', sort: 'desc' }],
+      format: 'csv',
+      lengthUnit: 'days'
+    });
+
+    const lines = parts.join('').split('\n');
+    expect(lines[0]).toBe(getCSVHeader());
+    expect(lines).toHaveLength(6);
+
+    const expectedOrder = records.slice(0, 5).sort((a, b) => b.percent - a.percent).map(record => record.clientId);
+    expect(lines.slice(1).map(line => line.split(',')[0].replace(/"/g, ''))).toEqual(expectedOrder);
+  });
+
+  it('writes large exports in chunked parts with the chosen delimiter', async () => {
+    const many = generateTestData(12000);
+    await engine.load(many);
+    const progress: number[] = [];
+
+    const parts = await engine.serialize(
+      { ids: null, sortModel: [], format: 'csv', delimiter: ';', lengthUnit: 'days' },
+      { onProgress: fraction => progress.push(fraction) }
+    );
+
+    expect(parts.length).toBeGreaterThan(2);
+    const lines = parts.join('').split('\n');
+    expect(lines[0]).toBe(getCSVHeader({ delimiter: ';' }));
+    expect(lines).toHaveLength(12001);
+    expect(lines[12000].split(';')[0]).toBe(many[11999].clientId);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it('joins JSON parts into one array', async () => {
+    const many = generateTestData(12000);
+    await engine.load(many);
+
+    const parts = await engine.serialize({ ids: null, sortModel: [], format: 'json', lengthUnit: 'days' });
+
+    expect(JSON.parse(parts.join(''))).toHaveLength(12000);
+  });
+
+  it('writes the chosen records as a workbook in sort order', async () => {
+    const ids = records.slice(0, 10).map(record => record.clientId);
+    const workbook = await engine.writeWorkbook({
+      ids,
+      sortModel: [{ colId: 'percent', sort: 'asc' }],
+      includeSummary: true,
+      lengthUnit: 'days'
+    });
+
+    const rows = await readXlsxRows(await workbook.arrayBuffer());
+    const expectedOrder = records.slice(0, 10).sort((a, b) => a.percent - b.percent).map(record => record.clientId);
+    expect(rows.slice(1).map(row => row[0])).toEqual(expectedOrder);
+  });
+
+  it('stops a task when it is cancelled', async () => {
+    const controller = new AbortController();
+    const task = engine.generate(20000, {
+      signal: controller.signal,
+      onProgress: () => controller.abort()
+    });
+
+    await expect(task).rejects.toBeInstanceOf(TaskCancelledError);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Data engine for heavy work over the dataset
+ * Runs in a Web Worker where available and falls back to running the same tasks on the main thread
+ */
+
+import type { DiscountRecord, PositionedRecord } from '../types/discount';
+import type { PivotTable } from '../utils/aggregation';
+import {
+  type AggregateRequest,
+  type EngineRequest,
+  type FilterRequest,
+  type FilterResult,
+  type SerializeRequest,
+  type WorkbookRequest,
+  TaskCancelledError,
+  createEngineDataset
+} from './dataEngineTasks';
+
+export type {
+  AggregateRequest,
+  EngineSortItem,
+  FilterRequest,
+  FilterResult,
+  SerializeRequest,
+  WorkbookRequest
+} from './dataEngineTasks';
+export { TaskCancelledError } from './dataEngineTasks';
+
+// Messages sent to the worker
+export type EngineMessage =
+  | { kind: 'request'; id: number; request: EngineRequest }
+  | { kind: 'cancel'; id: number };
+
+// Messages sent back by the worker
+export type EngineReply =
+  | { kind: 'progress'; id: number; fraction: number }
+  | { kind: 'result'; id: number; result: unknown }
+  | { kind: 'cancelled'; id: number }
+  | { kind: 'error'; id: number; message: string };
+
+export interface TaskOptions {
+  signal?: AbortSignal; // Aborting rejects the task with a TaskCancelledError
+  onProgress?: (fraction: number) => void; // Fraction done, from 0 to 1
+}
+
+export interface DataEngine {
+  readonly kind: 'worker' | 'in-thread';
+  generate(count: number, options?: TaskOptions): Promise<DiscountRecord[]>;
+  load(records: DiscountRecord[]): Promise<void>;
+  upsert(records: DiscountRecord[]): Promise<void>;
+  insert(records: PositionedRecord[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  filter(request: FilterRequest, options?: TaskOptions): Promise<FilterResult>;
+  aggregate(request: AggregateRequest, options?: TaskOptions): Promise<PivotTable>;
+  serialize(request: SerializeRequest, options?: TaskOptions): Promise<string[]>;
+  writeWorkbook(request: WorkbookRequest, options?: TaskOptions): Promise<Blob>;
+  dispose(): void;
+}
+
+/**
+ * Typed methods over a function that runs one request
+ */
+function createEngineApi(
+  kind: DataEngine['kind'],
+  run: (request: EngineRequest, options?: TaskOptions) => Promise<unknown>,
+  dispose: () => void
+): DataEngine {
+  return {
+    kind,
+    generate: (count, options) => run({ type: 'generate', count }, options) as Promise<DiscountRecord[]>,
+    load: records => run({ type: 'load', records }) as Promise<void>,
+    upsert: records => run({ type: 'upsert', records }) as Promise<void>,
+    insert: records => run({ type: 'insert', records }) as Promise<void>,
+    remove: ids => run({ type: 'remove', ids }) as Promise<void>,
+    filter: (request, options) => run({ type: 'filter', request }, options) as Promise<FilterResult>,
+    aggregate: (request, options) => run({ type: 'aggregate', request }, options) as Promise<PivotTable>,
+    serialize: (request, options) => run({ type: 'serialize', request }, options) as Promise<string[]>,
+    writeWorkbook: (request, options) => run({ type: 'workbook', request }, options) as Promise<Blob>,
+    dispose
+  };
+}
+
+/**
+ * Engine that posts requests to a data engine worker
+ */
+export function createWorkerDataEngine(worker: Worker): DataEngine {
+  let nextId = 1;
+  const pending = new Map<number, {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+    onProgress?: (fraction: number) => void;
+  }>();
+
+  worker.addEventListener('message', (event: MessageEvent<EngineReply>) => {
+    const reply = event.data;
+    const task = pending.get(reply.id);
+    if (!task) return;
+
+    switch (reply.kind) {
+      case 'progress':
+        task.onProgress?.(reply.fraction);
+        return;
+      case 'result':
+        pending.delete(reply.id);
+        task.resolve(reply.result);
+        return;
+      case 'cancelled':
+        pending.delete(reply.id);
+        task.reject(new TaskCancelledError());
+        return;
+      case 'error':
+        pending.delete(reply.id);
+        task.reject(new Error(reply.message));
+    }
+  });
+
+  // A worker that fails to load or crashes fails every task waiting on it
+  worker.addEventListener('error', event => {
+    console.error('Data engine worker failed:', event.message);
+    pending.forEach(task => task.reject(new Error(`Data engine worker failed: ${event.message}`)));
+    pending.clear();
+  });
+
+  function run(request: EngineRequest, options: TaskOptions = {}): Promise<unknown> {
+    if (options.signal?.aborted) return Promise.reject(new TaskCancelledError());
+
+    const id = nextId++;
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject, onProgress: options.onProgress });
+      options.signal?.addEventListener('abort', () => {
+        if (!pending.has(id)) return;
+        // Settle straight away; the worker stops at its next chunk boundary
+        pending.delete(id);
+        worker.postMessage({ kind: 'cancel', id } satisfies EngineMessage);
+        reject(new TaskCancelledError());
+      }, { once: true });
+      worker.postMessage({ kind: 'request', id, request } satisfies EngineMessage);
+    });
+  }
+
+  return createEngineApi('worker', run, () => worker.terminate());
+}
+
+/**
+ * Engine that runs the tasks on the main thread, in chunks so the page still gets to update
+ * Used where Web Workers are unavailable, such as tests and server-side scripts
+ */
+export function createInThreadDataEngine(): DataEngine {
+  const dataset = createEngineDataset();
+
+  // Tasks run one at a time in call order, as in the worker, so no change lands while a filter is running
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function run(request: EngineRequest, options: TaskOptions = {}): Promise<unknown> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) return Promise.reject(new TaskCancelledError());
+
+    const task = queue.then(() => dataset.run(request, {
+      isCancelled: () => Boolean(signal?.aborted),
+      reportProgress: fraction => onProgress?.(fraction)
+    }));
+    queue = task.catch(() => undefined);
+    if (!signal) return task;
+
+    // Settle as soon as the signal aborts, as the worker engine does
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new TaskCancelledError());
+      signal.addEventListener('abort', onAbort, { once: true });
+      task.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  return createEngineApi('in-thread', run, () => {});
+}
+
+/**
+ * Start the worker engine, or the in-thread engine where workers are unavailable
+ */
+export function createDataEngine(): DataEngine {
+  if (typeof Worker !== 'undefined') {
+    try {
+      const worker = new Worker(new URL('../workers/dataEngine.worker.ts', import.meta.url), { type: 'module' });
+      return createWorkerDataEngine(worker);
+    } catch (error) {
+      console.warn('Data engine worker unavailable, running on the main thread:', error);
+    }
+  }
+  return createInThreadDataEngine();
+}
+
+let sharedEngine: DataEngine | null = null;
+
+/**
+ * Engine shared by the data store, repositories and bulk operations, started on first use
+ */
+export function getDataEngine(): DataEngine {
+  sharedEngine ??= createDataEngine();
+  return sharedEngine;
+}
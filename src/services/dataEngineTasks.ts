@@ -0,0 +1,399 @@
+/**
+ * Heavy data tasks run by the data engine
+ * The same code runs inside the Web Worker and, where workers are unavailable, on the main thread.
+ * Tasks work in chunks, reporting progress and checking for cancellation between chunks.
+ * The dataset is held in a record index, so filters test each distinct value once and visit matching rows
+ * through the index's posting lists. Filters flag rows in a byte per position before collecting ids.
+ */
+
+import type { DiscountRecord, PositionedRecord } from '../types/discount';
+import type { LengthUnit } from '../composables/useDisplaySettings';
+import { generateDiscountRecord } from '../utils/mockDataGenerator';
+import { type QuerySetReader, parseQuery, evaluateQuery } from '../utils/queryLanguage';
+import { type ColumnFilterModel, type GridFilterModel, compileColumnFilter, getRecordColumnValue } from '../utils/filterModel';
+import { type RecordIndex, createRecordIndex } from '../utils/recordIndex';
+import { type AggregateDimension, buildPivotTable } from '../utils/aggregation';
+import type { DateFormat } from '../utils/csvExport';
+import { createXlsxWorkbook, createXlsxRowWriter } from '../utils/xlsxExport';
+import { type TextExportOptions, createRecordSerializer } from '../utils/exportProfiles';
+
+// Records handled between progress reports and cancellation checks
+const CHUNK_SIZE = 5000;
+
+// Longest stretch of work before other work (messages, rendering) gets a turn
+const YIELD_INTERVAL_MS = 30;
+
+// Sort order passed with serialization requests, as in AG-Grid's column state
+export interface EngineSortItem {
+  colId: string;
+  sort: 'asc' | 'desc';
+}
+
+export interface FilterRequest {
+  query: string;
+  filterModel: GridFilterModel;
+  restrictTo: string[] | null; // Only these records are considered, e.g. the conflicts-only view
+  lengthUnit: LengthUnit;
+}
+
+// Ids of matching records; null means every record matched
+// Positions are the engine's row of each id, so a caller whose rows are in the same order can skip looking ids up
+export interface FilterResult {
+  gridIds: string[] | null; // After the query and restriction, the rows handed to the grid
+  filteredIds: string[] | null; // After the column filters as well, the rows the grid displays
+  gridPositions: Int32Array | null;
+  filteredPositions: Int32Array | null;
+}
+
+// Ids of flagged records and their positions, in dataset order
+interface FlaggedRows {
+  ids: string[];
+  positions: Int32Array;
+}
+
+export interface AggregateRequest {
+  ids: string[] | null;
+  rowDimension: AggregateDimension;
+  columnDimension: AggregateDimension | null;
+}
+
+// Columns, delimiter and formatting left out take the defaults
+export interface SerializeRequest extends Partial<Omit<TextExportOptions, 'format'>> {
+  ids: string[] | null;
+  sortModel: EngineSortItem[];
+  format: TextExportOptions['format'];
+  lengthUnit: LengthUnit;
+}
+
+export interface WorkbookRequest {
+  ids: string[] | null;
+  sortModel: EngineSortItem[];
+  includeSummary: boolean; // Adds a summary sheet over the exported records
+  lengthUnit: LengthUnit;
+  columns?: (keyof DiscountRecord)[]; // All columns by default
+  dateFormat?: DateFormat;
+}
+
+// Messages the engine understands; every request is answered with its result or an error
+export type EngineRequest =
+  | { type: 'generate'; count: number }
+  | { type: 'load'; records: DiscountRecord[] }
+  | { type: 'upsert'; records: DiscountRecord[] }
+  | { type: 'insert'; records: PositionedRecord[] }
+  | { type: 'remove'; ids: string[] }
+  | { type: 'filter'; request: FilterRequest }
+  | { type: 'aggregate'; request: AggregateRequest }
+  | { type: 'serialize'; request: SerializeRequest }
+  | { type: 'workbook'; request: WorkbookRequest };
+
+export interface TaskContext {
+  isCancelled(): boolean;
+  reportProgress(fraction: number): void;
+}
+
+/**
+ * Thrown when a task is cancelled before it finishes
+ */
+export class TaskCancelledError extends Error {
+  constructor() {
+    super('Task was cancelled');
+    this.name = 'TaskCancelledError';
+  }
+}
+
+/**
+ * Let other work (messages, rendering) run between chunks
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Run a callback for each chunk of the indexes 0 to count - 1, reporting progress and stopping when cancelled
+ * Yields only once a time slice is used up, since every yield costs at least a timer tick
+ */
+async function forEachRange(
+  count: number,
+  context: TaskContext,
+  callback: (start: number, end: number) => void
+): Promise<void> {
+  let sliceStart = performance.now();
+
+  for (let start = 0; start < count; start += CHUNK_SIZE) {
+    if (context.isCancelled()) throw new TaskCancelledError();
+
+    const end = Math.min(start + CHUNK_SIZE, count);
+    callback(start, end);
+
+    context.reportProgress(end / count);
+    if (end < count && performance.now() - sliceStart >= YIELD_INTERVAL_MS) {
+      await yieldToEventLoop();
+      sliceStart = performance.now();
+    }
+  }
+}
+
+/**
+ * Run a callback for indexes 0 to count - 1 in chunks, reporting progress and stopping when cancelled
+ */
+function forEachChunk(count: number, context: TaskContext, callback: (index: number) => void): Promise<void> {
+  return forEachRange(count, context, (start, end) => {
+    for (let index = start; index < end; index++) {
+      callback(index);
+    }
+  });
+}
+
+/**
+ * Flags of the candidate records that pass a test, 1 by position; null makes every record a candidate
+ */
+function flagRecords(
+  records: readonly DiscountRecord[],
+  test: (record: DiscountRecord) => boolean,
+  candidates: Uint8Array | null
+): Uint8Array {
+  const flags = new Uint8Array(records.length);
+  for (let position = 0; position < records.length; position++) {
+    if ((!candidates || candidates[position] === 1) && test(records[position])) {
+      flags[position] = 1;
+    }
+  }
+  return flags;
+}
+
+/**
+ * Flags of the candidate records that pass one column filter, tested once per distinct value
+ * The length column reads a different field per unit, so it is tested record by record
+ */
+function flagColumnMatches(
+  index: RecordIndex,
+  colId: string,
+  model: ColumnFilterModel,
+  lengthUnit: LengthUnit,
+  candidates: Uint8Array | null
+): Uint8Array {
+  const matches = compileColumnFilter(model);
+  if (colId === 'length') {
+    return flagRecords(index.records, record => matches(getRecordColumnValue(record, colId, lengthUnit)), candidates);
+  }
+  return index.matchValues(colId as keyof DiscountRecord, matches, candidates);
+}
+
+/**
+ * Number of flagged rows
+ */
+function countFlags(flags: Uint8Array): number {
+  let count = 0;
+  for (let position = 0; position < flags.length; position++) {
+    count += flags[position];
+  }
+  return count;
+}
+
+/**
+ * Sort records by several columns; numbers compare numerically, everything else as text
+ */
+export function sortRecords(
+  records: readonly DiscountRecord[],
+  sortModel: EngineSortItem[],
+  lengthUnit: LengthUnit
+): readonly DiscountRecord[] {
+  if (sortModel.length === 0) return records;
+
+  return [...records].sort((a, b) => {
+    for (const { colId, sort } of sortModel) {
+      const left = getRecordColumnValue(a, colId, lengthUnit);
+      const right = getRecordColumnValue(b, colId, lengthUnit);
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left ?? '').localeCompare(String(right ?? ''));
+      if (order !== 0) return sort === 'desc' ? -order : order;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Dataset owned by the engine, indexed by clientId and categorical values, and the tasks that run over it
+ */
+export function createEngineDataset() {
+  const index = createRecordIndex();
+
+  // Query reader over every position in the index
+  const reader: QuerySetReader = {
+    get size() {
+      return index.size;
+    },
+    matchText: (field, test, candidates, flags) => index.matchText(field, test, candidates, flags),
+    matchValue: (field, test, candidates) => index.matchValues(field, test, candidates)
+  };
+
+  /**
+   * Flags of the records with the given ids, or null for every record
+   */
+  function flagIds(ids: string[] | null): Uint8Array | null {
+    if (!ids) return null;
+    const flags = new Uint8Array(index.size);
+    ids.forEach(id => {
+      const position = index.positionOf(id);
+      if (position !== undefined) flags[position] = 1;
+    });
+    return flags;
+  }
+
+  /**
+   * Ids and positions of the flagged records in dataset order, or null when every record is flagged
+   */
+  async function collectRows(flags: Uint8Array | null, context: TaskContext): Promise<FlaggedRows | null> {
+    const count = flags ? countFlags(flags) : 0;
+    if (!flags || count === flags.length) return null;
+
+    const clientIds = index.clientIds;
+    const ids: string[] = new Array(count);
+    const positions = new Int32Array(count);
+    let next = 0;
+    await forEachRange(flags.length, context, (start, end) => {
+      for (let position = start; position < end; position++) {
+        if (flags[position] === 1) {
+          ids[next] = clientIds[position];
+          positions[next++] = position;
+        }
+      }
+    });
+    return { ids, positions };
+  }
+
+  /**
+   * Records for the given ids in that order, or every record
+   */
+  function select(ids: string[] | null): readonly DiscountRecord[] {
+    if (!ids) return index.records;
+    return ids.flatMap(id => {
+      const record = index.get(id);
+      return record ? [record] : [];
+    });
+  }
+
+  async function generate(count: number, context: TaskContext): Promise<DiscountRecord[]> {
+    const generated: DiscountRecord[] = new Array(count);
+    await forEachChunk(count, context, position => {
+      generated[position] = generateDiscountRecord(position, count);
+    });
+    return generated;
+  }
+
+  /**
+   * Query and restriction first, then each column filter on the rows still matching
+   * Rows are flagged by position; ids are only collected for results that leave rows out
+   */
+  async function filter(request: FilterRequest, context: TaskContext): Promise<FilterResult> {
+    const node = parseQuery(request.query);
+    const candidates = flagIds(request.restrictTo);
+    const gridFlags = node ? evaluateQuery(node, reader, candidates) : candidates;
+
+    let filteredFlags = gridFlags;
+    for (const [colId, model] of Object.entries(request.filterModel)) {
+      if (context.isCancelled()) throw new TaskCancelledError();
+      filteredFlags = flagColumnMatches(index, colId, model, request.lengthUnit, filteredFlags);
+    }
+
+    const gridRows = await collectRows(gridFlags, context);
+    const filteredRows = filteredFlags === gridFlags ? gridRows : await collectRows(filteredFlags, context);
+    return {
+      gridIds: gridRows?.ids ?? null,
+      filteredIds: filteredRows?.ids ?? null,
+      gridPositions: gridRows?.positions ?? null,
+      filteredPositions: filteredRows?.positions ?? null
+    };
+  }
+
+  /**
+   * Write the chosen records in chunks; the file is the concatenation of the returned parts
+   * Each part holds up to one chunk of rows, so no single string grows with the whole file
+   */
+  async function serialize(request: SerializeRequest, context: TaskContext): Promise<string[]> {
+    const selected = sortRecords(select(request.ids), request.sortModel, request.lengthUnit);
+    const serializer = createRecordSerializer(request);
+    if (selected.length === 0) return [...serializer.empty];
+
+    const parts = [serializer.opening];
+    let lines: string[] = [];
+    await forEachChunk(selected.length, context, position => {
+      lines.push(serializer.writeRow(selected[position]));
+      if (lines.length === CHUNK_SIZE || position === selected.length - 1) {
+        // Rows go after a separator, so the parts join without a trailing one
+        const leading = position < lines.length ? serializer.leading : serializer.separator;
+        parts.push(leading + lines.join(serializer.separator));
+        lines = [];
+      }
+    });
+    parts.push(serializer.closing);
+    return parts.filter(part => part !== '');
+  }
+
+  /**
+   * Write the chosen records as an .xlsx workbook, building the sheet rows in chunks
+   */
+  async function writeWorkbook(request: WorkbookRequest, context: TaskContext): Promise<Blob> {
+    const selected = sortRecords(select(request.ids), request.sortModel, request.lengthUnit);
+    const writeRow = createXlsxRowWriter(request.columns);
+    const rowParts: string[] = [];
+    let rows: string[] = [];
+
+    await forEachChunk(selected.length, context, position => {
+      // Row 1 is the header
+      rows.push(writeRow(selected[position], position + 2));
+      if (rows.length === CHUNK_SIZE || position === selected.length - 1) {
+        rowParts.push(rows.join(''));
+        rows = [];
+      }
+    });
+
+    return createXlsxWorkbook({
+      rowParts,
+      rowCount: selected.length,
+      summaryRecords: request.includeSummary ? selected : undefined,
+      columns: request.columns,
+      dateFormat: request.dateFormat
+    });
+  }
+
+  /**
+   * Run one request
+   */
+  async function run(request: EngineRequest, context: TaskContext): Promise<unknown> {
+    switch (request.type) {
+      case 'generate':
+        return generate(request.count, context);
+      case 'load':
+        index.reset(request.records);
+        return undefined;
+      case 'upsert':
+        index.upsert(request.records);
+        return undefined;
+      case 'insert':
+        index.insert(request.records);
+        return undefined;
+      case 'remove':
+        index.remove(request.ids);
+        return undefined;
+      case 'filter':
+        return filter(request.request, context);
+      case 'aggregate': {
+        const { ids, rowDimension, columnDimension } = request.request;
+        return buildPivotTable(select(ids), rowDimension, columnDimension);
+      }
+      case 'serialize':
+        return serialize(request.request, context);
+      case 'workbook':
+        return writeWorkbook(request.request, context);
+    }
+  }
+
+  return {
+    run,
+    get size() {
+      return index.size;
+    }
+  };
+}
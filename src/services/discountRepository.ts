@@ -0,0 +1,47 @@
+/**
+ * Data source abstraction for discount records
+ * The store talks to a DiscountRepository instead of generating data directly
+ */
+
+import type { DiscountRecord } from '../types/discount';
+
+// Options for listing records
+export interface ListOptions {
+  count?: number; // Number of records to seed when the source generates data
+  fresh?: boolean; // Discard locally stored data and start from a fresh dataset
+}
+
+export interface DiscountRepository {
+  list(options?: ListOptions): Promise<DiscountRecord[]>;
+  get(clientId: string): Promise<DiscountRecord | null>;
+  create(record: DiscountRecord): Promise<DiscountRecord>;
+  update(record: DiscountRecord): Promise<DiscountRecord>;
+  delete(clientId: string): Promise<void>;
+  bulkCreate(records: DiscountRecord[]): Promise<DiscountRecord[]>;
+  bulkUpdate(records: DiscountRecord[]): Promise<DiscountRecord[]>;
+  bulkDelete(clientIds: string[]): Promise<number>;
+}
+
+/**
+ * Remove UI-only computed fields before a record is sent to the data source
+ * Stored fields are copied one by one, which is much faster than leaving the computed ones out of a spread
+ */
+export function toStoredRecord(record: DiscountRecord): DiscountRecord {
+  return {
+    clientId: record.clientId,
+    client: record.client,
+    platform: record.platform,
+    region: record.region,
+    discount: record.discount,
+    startDate: record.startDate,
+    startTime: record.startTime,
+    endDate: record.endDate,
+    endTime: record.endTime,
+    timezone: record.timezone,
+    percent: record.percent,
+    deadline: record.deadline,
+    implementationStatus: record.implementationStatus,
+    salesEventStatus: record.salesEventStatus,
+    comments: record.comments
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * DiscountRepository that talks to the discount REST API
+ * See server/mockServer.js for a local implementation of the same API
+ */
+
+import type { DiscountRecord } from '../types/discount';
+import type { DiscountRepository, ListOptions } from './discountRepository';
+import { toStoredRecord } from './discountRepository';
+
+export function createHttpDiscountRepository(baseUrl: string): DiscountRepository {
+  const apiUrl = baseUrl.replace(/\/+$/, '');
+
+  /**
+   * Send a JSON request and parse the JSON response
+   */
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${apiUrl}${path}`, {
+      method,
+      headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+
+    if (!response.ok) {
+      const message = await response.text();
+      throw new Error(`${method} ${path} failed with ${response.status}: ${message || response.statusText}`);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Build the path for a single record
+   */
+  function recordPath(clientId: string): string {
+    return `/discounts/${encodeURIComponent(clientId)}`;
+  }
+
+  /**
+   * Build the query string for list options; the server reseeds when they ask for a different dataset
+   */
+  function listQuery(options: ListOptions): string {
+    const params = new URLSearchParams();
+    if (options.count !== undefined) params.set('count', String(options.count));
+    if (options.fresh) params.set('fresh', 'true');
+    const query = params.toString();
+    return query ? `?${query}` : '';
+  }
+
+  return {
+    async list(options: ListOptions = {}) {
+      return request<DiscountRecord[]>('GET', `/discounts${listQuery(options)}`);
+    },
+
+    async get(clientId) {
+      try {
+        return await request<DiscountRecord>('GET', recordPath(clientId));
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('failed with 404')) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async create(record) {
+      return request<DiscountRecord>('POST', '/discounts', toStoredRecord(record));
+    },
+
+    async update(record) {
+      return request<DiscountRecord>('PUT', recordPath(record.clientId), toStoredRecord(record));
+    },
+
+    async delete(clientId) {
+      await request<void>('DELETE', recordPath(clientId));
+    },
+
+    async bulkCreate(records) {
+      return request<DiscountRecord[]>('POST', '/discounts/bulk-create', {
+        records: records.map(toStoredRecord)
+      });
+    },
+
+    async bulkUpdate(records) {
+      return request<DiscountRecord[]>('POST', '/discounts/bulk-update', {
+        records: records.map(toStoredRecord)
+      });
+    },
+
+    async bulkDelete(clientIds) {
+      const result = await request<{ deleted: number }>('POST', '/discounts/bulk-delete', { clientIds });
+      return result.deleted;
+    }
+  };
+}
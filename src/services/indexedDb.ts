@@ -0,0 +1,66 @@
+/**
+ * Shared IndexedDB helpers for locally persisted data
+ */
+
+const DB_NAME = 'discount-management';
+const DB_VERSION = 2;
+
+// Object store names
+export const RECORDS_STORE = 'records';
+export const AUDIT_STORE = 'audit';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction commits
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Check whether IndexedDB is available in this environment
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Open (and create or upgrade on first use) the discount database
+ */
+export function getDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+
+      // Version 1: records keyed by clientId with an index on original row order
+      if (event.oldVersion < 1) {
+        const records = db.createObjectStore(RECORDS_STORE, { keyPath: 'clientId' });
+        records.createIndex('seq', 'seq');
+      }
+
+      // Version 2: append-only audit log
+      if (event.oldVersion < 2) {
+        const audit = db.createObjectStore(AUDIT_STORE, { keyPath: 'id', autoIncrement: true });
+        audit.createIndex('clientId', 'clientId');
+      }
+    };
+    dbPromise = requestToPromise(request);
+  }
+  return dbPromise;
+}
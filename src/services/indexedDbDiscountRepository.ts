@@ -0,0 +1,174 @@
+/**
+ * DiscountRepository that keeps the mock dataset and later edits in IndexedDB
+ * The full dataset is written once when seeded; afterwards only changed records are written
+ * Changes are made in memory first, where they are checked, and undone there if IndexedDB rejects them
+ */
+
+import type { DiscountRecord } from '../types/discount';
+import type { DiscountRepository, ListOptions } from './discountRepository';
+import { toStoredRecord } from './discountRepository';
+import { type MockRepositoryOptions, createMockDiscountRepository } from './mockDiscountRepository';
+import { RECORDS_STORE, getDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+// Shape of a row in the records object store; seq keeps the original row order
+interface StoredRow {
+  clientId: string;
+  seq: number;
+  record: DiscountRecord;
+}
+
+export function createIndexedDbDiscountRepository(mockOptions: MockRepositoryOptions = {}): DiscountRepository {
+  let inner = createMockDiscountRepository([], mockOptions);
+
+  // Row order of persisted records, used to keep positions stable across reloads
+  const seqById = new Map<string, number>();
+  let nextSeq = 0;
+
+  /**
+   * Read all persisted records in their original order
+   */
+  async function readAll(): Promise<DiscountRecord[]> {
+    const db = await getDatabase();
+    const transaction = db.transaction(RECORDS_STORE, 'readonly');
+    const rows = await requestToPromise<StoredRow[]>(
+      transaction.objectStore(RECORDS_STORE).index('seq').getAll()
+    );
+
+    seqById.clear();
+    rows.forEach(row => seqById.set(row.clientId, row.seq));
+    nextSeq = rows.length > 0 ? rows[rows.length - 1].seq + 1 : 0;
+
+    return rows.map(row => row.record);
+  }
+
+  /**
+   * Write changed records, keeping the position of records that already exist
+   */
+  async function putRecords(records: DiscountRecord[], clearFirst = false): Promise<void> {
+    const db = await getDatabase();
+    const transaction = db.transaction(RECORDS_STORE, 'readwrite');
+    const store = transaction.objectStore(RECORDS_STORE);
+
+    if (clearFirst) {
+      store.clear();
+      seqById.clear();
+      nextSeq = 0;
+    }
+
+    records.forEach(record => {
+      let seq = seqById.get(record.clientId);
+      if (seq === undefined) {
+        seq = nextSeq++;
+        seqById.set(record.clientId, seq);
+      }
+      const row: StoredRow = { clientId: record.clientId, seq, record: toStoredRecord(record) };
+      store.put(row);
+    });
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Remove records from storage
+   */
+  async function removeRecords(clientIds: string[]): Promise<void> {
+    const db = await getDatabase();
+    const transaction = db.transaction(RECORDS_STORE, 'readwrite');
+    const store = transaction.objectStore(RECORDS_STORE);
+
+    // Keep seqById entries so records restored by undo return to their original position
+    clientIds.forEach(clientId => store.delete(clientId));
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Current versions of the records that exist in memory, to restore if persisting a change fails
+   */
+  async function getExisting(clientIds: string[]): Promise<DiscountRecord[]> {
+    const records: DiscountRecord[] = [];
+    for (const clientId of clientIds) {
+      const record = await inner.get(clientId);
+      if (record) records.push(record);
+    }
+    return records;
+  }
+
+  /**
+   * Persist a change already made in memory, undoing it there when IndexedDB rejects the write
+   * so memory never holds changes that a reload would lose
+   */
+  async function persistOrRollback(persist: () => Promise<void>, rollback: () => Promise<unknown>): Promise<void> {
+    try {
+      await persist();
+    } catch (error) {
+      await rollback();
+      throw error;
+    }
+  }
+
+  return {
+    async list(options: ListOptions = {}) {
+      // Rehydrate from storage unless a fresh dataset was requested
+      if (!options.fresh) {
+        const stored = await readAll();
+        if (stored.length > 0) {
+          inner = createMockDiscountRepository(stored, mockOptions);
+          console.log(`Rehydrated ${stored.length} records from IndexedDB`);
+          return stored;
+        }
+      }
+
+      const records = await inner.list({ ...options, fresh: true });
+      await putRecords(records, true);
+      console.log(`Persisted ${records.length} records to IndexedDB`);
+      return records;
+    },
+
+    async get(clientId) {
+      return inner.get(clientId);
+    },
+
+    async create(record) {
+      const saved = await inner.create(record);
+      await persistOrRollback(() => putRecords([saved]), () => inner.delete(saved.clientId));
+      return saved;
+    },
+
+    async update(record) {
+      const [previous] = await getExisting([record.clientId]);
+      const saved = await inner.update(record);
+      await persistOrRollback(() => putRecords([saved]), () => inner.update(previous));
+      return saved;
+    },
+
+    async delete(clientId) {
+      const previous = await getExisting([clientId]);
+      await inner.delete(clientId);
+      await persistOrRollback(() => removeRecords([clientId]), () => inner.bulkCreate(previous));
+    },
+
+    async bulkCreate(records) {
+      const saved = await inner.bulkCreate(records);
+      await persistOrRollback(
+        () => putRecords(saved),
+        () => inner.bulkDelete(saved.map(record => record.clientId))
+      );
+      return saved;
+    },
+
+    async bulkUpdate(records) {
+      const previous = await getExisting(records.map(record => record.clientId));
+      const saved = await inner.bulkUpdate(records);
+      await persistOrRollback(() => putRecords(saved), () => inner.bulkUpdate(previous));
+      return saved;
+    },
+
+    async bulkDelete(clientIds) {
+      const previous = await getExisting(clientIds);
+      const deleted = await inner.bulkDelete(clientIds);
+      await persistOrRollback(() => removeRecords(clientIds), () => inner.bulkCreate(previous));
+      return deleted;
+    }
+  };
+}
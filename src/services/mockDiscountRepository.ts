@@ -0,0 +1,123 @@
+/**
+ * In-memory DiscountRepository backed by generated mock data
+ */
+
+import type { DiscountRecord } from '../types/discount';
+import type { DiscountRepository, ListOptions } from './discountRepository';
+import { toStoredRecord } from './discountRepository';
+import { generateMockData, generateTestData } from '../utils/mockDataGenerator';
+
+export interface MockRepositoryOptions {
+  // Produces a dataset of the given size; defaults to generating it on the calling thread
+  generate?: (count: number) => Promise<DiscountRecord[]>;
+}
+
+/**
+ * Generate a dataset on the calling thread
+ */
+async function generateInline(count: number): Promise<DiscountRecord[]> {
+  return count <= 5000 ? generateTestData(count) : generateMockData(count);
+}
+
+export function createMockDiscountRepository(
+  initialRecords: DiscountRecord[] = [],
+  options: MockRepositoryOptions = {}
+): DiscountRepository {
+  const generate = options.generate ?? generateInline;
+
+  // Records keyed by clientId; Map preserves insertion order for list()
+  let records = new Map<string, DiscountRecord>();
+  let seededCount: number | null = null;
+
+  /**
+   * Replace the dataset with the given records
+   */
+  function seed(data: DiscountRecord[]) {
+    records = new Map(data.map(record => [record.clientId, toStoredRecord(record)]));
+  }
+
+  if (initialRecords.length > 0) {
+    seed(initialRecords);
+    seededCount = initialRecords.length;
+  }
+
+  /**
+   * Throw when a record does not exist
+   */
+  function requireRecord(clientId: string): DiscountRecord {
+    const record = records.get(clientId);
+    if (!record) {
+      throw new Error(`Record ${clientId} not found`);
+    }
+    return record;
+  }
+
+  return {
+    async list(options: ListOptions = {}) {
+      // Generate a new dataset when none exists, a different size or a fresh one is requested
+      const count = options.count ?? seededCount ?? 100000;
+      if (options.fresh || seededCount !== count) {
+        seed(await generate(count));
+        seededCount = count;
+      }
+      return Array.from(records.values(), record => ({ ...record }));
+    },
+
+    async get(clientId) {
+      const record = records.get(clientId);
+      return record ? { ...record } : null;
+    },
+
+    async create(record) {
+      if (records.has(record.clientId)) {
+        throw new Error(`Record ${record.clientId} already exists`);
+      }
+      const stored = toStoredRecord(record);
+      records.set(stored.clientId, stored);
+      return { ...stored };
+    },
+
+    async update(record) {
+      requireRecord(record.clientId);
+      const stored = toStoredRecord(record);
+      records.set(stored.clientId, stored);
+      return { ...stored };
+    },
+
+    async delete(clientId) {
+      requireRecord(clientId);
+      records.delete(clientId);
+    },
+
+    async bulkCreate(newRecords) {
+      const duplicate = newRecords.find(record => records.has(record.clientId));
+      if (duplicate) {
+        throw new Error(`Record ${duplicate.clientId} already exists`);
+      }
+      return newRecords.map(record => {
+        const stored = toStoredRecord(record);
+        records.set(stored.clientId, stored);
+        return { ...stored };
+      });
+    },
+
+    async bulkUpdate(updatedRecords) {
+      updatedRecords.forEach(record => requireRecord(record.clientId));
+      return updatedRecords.map(record => {
+        const stored = toStoredRecord(record);
+        records.set(stored.clientId, stored);
+        return { ...stored };
+      });
+    },
+
+    async bulkDelete(clientIds) {
+      let deleted = 0;
+      clientIds.forEach(clientId => {
+        if (records.delete(clientId)) {
+          deleted++;
+        }
+      });
+      return deleted;
+    }
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Selects the DiscountRepository implementation for the current environment
+ */
+
+import type { DiscountRepository } from './discountRepository';
+import { createMockDiscountRepository } from './mockDiscountRepository';
+import { createHttpDiscountRepository } from './httpDiscountRepository';
+import { createIndexedDbDiscountRepository } from './indexedDbDiscountRepository';
+import { isIndexedDbAvailable } from './indexedDb';
+import { getDataEngine } from './dataEngine';
+
+/**
+ * Create the repository configured for this build
+ * Uses the REST API when VITE_DISCOUNT_API_URL is set, otherwise mock data
+ * persisted in IndexedDB (or kept in memory when IndexedDB is unavailable)
+ * Mock data is generated by the data engine, off the UI thread
+ */
+export function createDiscountRepository(): DiscountRepository {
+  const apiUrl = import.meta.env.VITE_DISCOUNT_API_URL;
+
+  if (apiUrl) {
+    console.log(`Using HTTP discount repository at ${apiUrl}`);
+    return createHttpDiscountRepository(apiUrl);
+  }
+
+  const options = { generate: (count: number) => getDataEngine().generate(count) };
+
+  if (isIndexedDbAvailable()) {
+    return createIndexedDbDiscountRepository(options);
+  }
+
+  return createMockDiscountRepository([], options);
+}
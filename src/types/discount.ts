@@ -14,6 +14,7 @@ export interface DiscountRecord {
   startTime: string;
   endDate: string; // yyyy-mm-dd format
   endTime: string;
+  timezone: string; // IANA time zone the start/end dates and times are expressed in
   percent: number;
   deadline: string; // yyyy-mm-dd format
   implementationStatus: ImplementationStatus;
@@ -22,9 +23,31 @@ export interface DiscountRecord {
   
   // Computed fields (UI only, not stored in database)
   month?: string; // Name of the month when discount starts
-  length?: number; // Number of days between start and end date
+  length?: number; // Days between the start and end instants
+  lengthHours?: number; // Hours between the start and end instants
+  startInstant?: number; // Start as epoch milliseconds
+  endInstant?: number; // End as epoch milliseconds
 }
 
+// Fields stored in the database, in column order (excludes computed fields)
+export const DISCOUNT_RECORD_FIELDS: (keyof DiscountRecord)[] = [
+  'clientId',
+  'client',
+  'platform',
+  'region',
+  'discount',
+  'startDate',
+  'startTime',
+  'endDate',
+  'endTime',
+  'timezone',
+  'percent',
+  'deadline',
+  'implementationStatus',
+  'salesEventStatus',
+  'comments'
+];
+
 export enum Platform {
   STEAM = 'Steam',
   EPIC = 'Epic Games Store',
@@ -59,17 +82,61 @@ export enum SalesEventStatus {
   CANCELLED = 'Cancelled'
 }
 
-// Interface for bulk update operations
-export interface BulkUpdateData {
-  discountName?: string;
-  discountPercent?: number;
-  startDate?: string;
-  endDate?: string;
+// Who is making a change; 'system' is used for automatic changes such as the status scheduler
+export type UserRole = 'editor' | 'manager' | 'system';
+
+// An allowed move from one status to another and the roles that may make it
+export interface StatusTransition<S extends string> {
+  to: S;
+  roles: UserRole[];
 }
 
-// Interface for filter state
-export interface FilterState {
-  [key: string]: string[] | null;
+// Stored fields a bulk update may change; clientId identifies the records and is never changed
+export type BulkEditableField = Exclude<
+  keyof DiscountRecord,
+  'clientId' | 'month' | 'length' | 'lengthHours' | 'startInstant' | 'endInstant'
+>;
+
+// One change a bulk update makes to a field of every selected record
+export type BulkFieldOperation =
+  | { type: 'set'; value: string | number } // Overwrite with the same value
+  | { type: 'shiftDays'; days: number } // Move a date by whole days, negative for earlier
+  | { type: 'adjust'; amount: number } // Add to a number, clamped to the field's range
+  | { type: 'replace'; find: string; replacement: string } // Replace every occurrence of some text
+  | { type: 'append'; text: string }; // Add text after the current value
+
+export type BulkOperationType = BulkFieldOperation['type'];
+
+// Interface for bulk update operations: the change made to each field; fields left out keep their values
+export type BulkUpdateData = Partial<Record<BulkEditableField, BulkFieldOperation>>;
+
+// A record together with its position in the dataset
+export interface PositionedRecord {
+  index: number;
+  record: DiscountRecord;
+}
+
+// Interface for undo/redo history entries; each entry is one atomic user action
+export type HistoryEntry =
+  | { type: 'update'; label: string; before: DiscountRecord[]; after: DiscountRecord[] }
+  | { type: 'add'; label: string; records: PositionedRecord[] }
+  | { type: 'delete'; label: string; records: PositionedRecord[] }
+  | { type: 'batch'; label: string; entries: HistoryEntry[] };
+
+// Where a change to a record came from
+export type ChangeSource = 'cell-edit' | 'bulk-update' | 'bulk-delete' | 'import' | 'undo' | 'redo' | 'scheduler' | 'timeline';
+
+// Interface for audit log entries; updates produce one entry per changed field
+export interface AuditEntry {
+  id?: number; // Assigned by storage
+  clientId: string;
+  action: 'create' | 'update' | 'delete';
+  field: keyof DiscountRecord | null; // null for whole-record create/delete
+  oldValue: string | number | null;
+  newValue: string | number | null;
+  timestamp: string; // ISO 8601
+  actor: string;
+  source: ChangeSource;
 }
 
 // Interface for grid configuration
@@ -86,6 +153,30 @@ export interface GridConfig {
   suppressRowVirtualisation: boolean;
 }
 
+// Layout of one grid column; the array order of a view's column state is the display order
+export interface ViewColumnState {
+  colId: string;
+  width?: number;
+  hide?: boolean;
+  pinned?: 'left' | 'right' | null;
+}
+
+// Filters, sorting, columns and page size of the grid, as captured by a saved view
+export interface GridViewState {
+  filterModel: Record<string, any>;
+  sortModel: { colId: string; sort: 'asc' | 'desc' }[];
+  columnState: ViewColumnState[];
+  pageSize: number;
+}
+
+// Interface for named saved views
+export interface SavedView extends GridViewState {
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
 // Predefined client options
 export const CLIENT_OPTIONS = [
   'Activision',
@@ -114,4 +205,69 @@ export const PLATFORM_REGION_CONSTRAINTS: Record<Platform, Region[]> = {
   [Platform.PLAYSTATION]: [Region.GLOBAL, Region.NORTH_AMERICA, Region.EUROPE, Region.ASIA_PACIFIC],
   [Platform.NINTENDO]: [Region.GLOBAL, Region.NORTH_AMERICA, Region.EUROPE, Region.ASIA_PACIFIC],
   [Platform.MOBILE]: [Region.GLOBAL, Region.NORTH_AMERICA, Region.EUROPE, Region.ASIA_PACIFIC, Region.LATIN_AMERICA, Region.MIDDLE_EAST_AFRICA]
-};
\ No newline at end of file
+};
+
+// Allowed implementation status moves; keeping the current status is always allowed
+export const IMPLEMENTATION_STATUS_TRANSITIONS: Record<ImplementationStatus, StatusTransition<ImplementationStatus>[]> = {
+  [ImplementationStatus.PENDING]: [
+    { to: ImplementationStatus.IN_PROGRESS, roles: ['editor', 'manager'] },
+    { to: ImplementationStatus.CANCELLED, roles: ['manager'] }
+  ],
+  [ImplementationStatus.IN_PROGRESS]: [
+    { to: ImplementationStatus.COMPLETED, roles: ['editor', 'manager'] },
+    { to: ImplementationStatus.FAILED, roles: ['editor', 'manager'] },
+    { to: ImplementationStatus.CANCELLED, roles: ['manager'] }
+  ],
+  [ImplementationStatus.FAILED]: [
+    { to: ImplementationStatus.IN_PROGRESS, roles: ['editor', 'manager'] },
+    { to: ImplementationStatus.CANCELLED, roles: ['manager'] }
+  ],
+  [ImplementationStatus.COMPLETED]: [
+    { to: ImplementationStatus.IN_PROGRESS, roles: ['manager'] }
+  ],
+  [ImplementationStatus.CANCELLED]: [
+    { to: ImplementationStatus.PENDING, roles: ['manager'] }
+  ]
+};
+
+// Allowed sales event status moves; Planned -> Active -> Completed normally happens by date
+export const SALES_EVENT_STATUS_TRANSITIONS: Record<SalesEventStatus, StatusTransition<SalesEventStatus>[]> = {
+  [SalesEventStatus.PLANNED]: [
+    { to: SalesEventStatus.ACTIVE, roles: ['manager', 'system'] },
+    { to: SalesEventStatus.COMPLETED, roles: ['system'] },
+    { to: SalesEventStatus.CANCELLED, roles: ['editor', 'manager'] }
+  ],
+  [SalesEventStatus.ACTIVE]: [
+    { to: SalesEventStatus.COMPLETED, roles: ['manager', 'system'] },
+    { to: SalesEventStatus.CANCELLED, roles: ['manager'] }
+  ],
+  [SalesEventStatus.COMPLETED]: [],
+  [SalesEventStatus.CANCELLED]: [
+    { to: SalesEventStatus.PLANNED, roles: ['manager'] }
+  ]
+};
+
+// Time zone used for a record's start/end times when none is set; platforms launch at regional local times
+export const REGION_DEFAULT_TIMEZONES: Record<Region, string> = {
+  [Region.GLOBAL]: 'UTC',
+  [Region.NORTH_AMERICA]: 'America/Los_Angeles',
+  [Region.EUROPE]: 'Europe/London',
+  [Region.ASIA_PACIFIC]: 'Asia/Tokyo',
+  [Region.LATIN_AMERICA]: 'America/Sao_Paulo',
+  [Region.MIDDLE_EAST_AFRICA]: 'Asia/Dubai'
+};
+
+// Time zones offered when editing a record's timezone
+export const TIMEZONE_OPTIONS = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+];
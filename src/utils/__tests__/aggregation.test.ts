@@ -0,0 +1,87 @@
+/**
+ * Tests for grouped aggregates and pivot tables
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateBy, buildPivotTable, formatDimensionValue } from '../aggregation';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+
+function createRecord(overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId: 'ORG_EA_000001',
+    client: 'Electronic Arts',
+    platform: Platform.STEAM,
+    region: Region.EUROPE,
+    discount: 'Summer Sale',
+    startDate: '2026-07-01',
+    startTime: '00:00',
+    endDate: '2026-07-11',
+    endTime: '00:00',
+    timezone: 'UTC',
+    percent: 20,
+    deadline: '',
+    implementationStatus: ImplementationStatus.COMPLETED,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+const records = [
+  createRecord({ clientId: 'A', percent: 10 }),
+  createRecord({ clientId: 'B', percent: 30, platform: Platform.GOG }),
+  createRecord({ clientId: 'C', percent: 50, startDate: '2027-07-01', endDate: '2027-07-03' }),
+  createRecord({ clientId: 'D', percent: 25, implementationStatus: ImplementationStatus.FAILED })
+];
+
+describe('aggregateBy', () => {
+  it('computes count, percent statistics and discount-days per group', () => {
+    expect(aggregateBy(records, 'platform')).toEqual([
+      { key: Platform.GOG, values: { count: 1, avgPercent: 30, minPercent: 30, maxPercent: 30, discountDays: 10 } },
+      { key: Platform.STEAM, values: { count: 3, avgPercent: 28.3, minPercent: 10, maxPercent: 50, discountDays: 22 } }
+    ]);
+  });
+
+  it('keeps the same month of different years apart', () => {
+    expect(aggregateBy(records, 'month').map(row => [row.key, row.values.count])).toEqual([
+      ['2026-07', 3],
+      ['2027-07', 1]
+    ]);
+    expect(formatDimensionValue('2027-07', 'month')).toBe('Jul 2027');
+  });
+
+  it('uses the precomputed length when present', () => {
+    expect(aggregateBy([createRecord({ length: 4.5 })], 'client')[0].values.discountDays).toBe(4.5);
+  });
+});
+
+describe('buildPivotTable', () => {
+  it('fills cells and totals for two dimensions', () => {
+    const pivot = buildPivotTable(records, 'client', 'implementationStatus');
+
+    expect(pivot.rowKeys).toEqual(['Electronic Arts']);
+    expect(pivot.columnKeys).toEqual([ImplementationStatus.COMPLETED, ImplementationStatus.FAILED]);
+    expect(pivot.cells[0].map(cell => cell?.count)).toEqual([3, 1]);
+    expect(pivot.columnTotals.map(total => total.count)).toEqual([3, 1]);
+    expect(pivot.grandTotal.count).toBe(4);
+    expect(pivot.grandTotal.avgPercent).toBe(28.8);
+  });
+
+  it('leaves cells without records empty', () => {
+    const pivot = buildPivotTable(records, 'platform', 'implementationStatus');
+    expect(pivot.rowKeys).toEqual([Platform.GOG, Platform.STEAM]);
+    expect(pivot.cells[0]).toEqual([expect.objectContaining({ count: 1 }), null]);
+  });
+
+  it('puts every record in a single column without a column dimension', () => {
+    const pivot = buildPivotTable(records, 'platform', null);
+    expect(pivot.columnKeys).toEqual(['']);
+    expect(pivot.rowTotals.map(total => total.count)).toEqual([1, 3]);
+  });
+});
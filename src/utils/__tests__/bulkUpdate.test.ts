@@ -0,0 +1,148 @@
+/**
+ * Tests for bulk update operations, dry-run previews and the checks on their results
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyBulkUpdate,
+  getForbiddenStatusChanges,
+  getRowsToApply,
+  previewBulkUpdateRow,
+  validateBulkUpdate
+} from '../bulkUpdate';
+import { calculateDuration } from '../dateUtils';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+
+function createRecord(overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId: 'ORG_EA_000001',
+    client: 'Electronic Arts',
+    platform: Platform.STEAM,
+    region: Region.EUROPE,
+    discount: 'Summer Sale 2026',
+    startDate: '2026-07-28',
+    startTime: '10:00',
+    endDate: '2026-08-03',
+    endTime: '18:00',
+    timezone: 'UTC',
+    percent: 97,
+    deadline: '2026-07-20',
+    implementationStatus: ImplementationStatus.PENDING,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+describe('applyBulkUpdate', () => {
+  it('shifts start and end dates across month ends while keeping the length', () => {
+    const record = createRecord();
+    const updated = applyBulkUpdate(record, {
+      startDate: { type: 'shiftDays', days: 7 },
+      endDate: { type: 'shiftDays', days: 7 }
+    });
+
+    expect(updated.startDate).toBe('2026-08-04');
+    expect(updated.endDate).toBe('2026-08-10');
+    expect(calculateDuration(updated)).toBe(calculateDuration(record));
+  });
+
+  it('adds to the percent, clamped to 0-100', () => {
+    expect(applyBulkUpdate(createRecord(), { percent: { type: 'adjust', amount: 5 } }).percent).toBe(100);
+    expect(applyBulkUpdate(createRecord({ percent: 3 }), { percent: { type: 'adjust', amount: -5 } }).percent).toBe(0);
+    expect(applyBulkUpdate(createRecord({ percent: 40 }), { percent: { type: 'adjust', amount: 5 } }).percent).toBe(45);
+  });
+
+  it('replaces every occurrence of text and appends to comments', () => {
+    const updated = applyBulkUpdate(createRecord({ discount: '2026 Sale 2026', comments: 'Approved' }), {
+      discount: { type: 'replace', find: '2026', replacement: '2027' },
+      comments: { type: 'append', text: 'Moved by a week' }
+    });
+
+    expect(updated.discount).toBe('2027 Sale 2027');
+    expect(updated.comments).toBe('Approved Moved by a week');
+    expect(applyBulkUpdate(createRecord(), { comments: { type: 'append', text: 'First' } }).comments).toBe('First');
+  });
+
+  it('sets numbers as numbers and leaves other fields alone', () => {
+    const record = createRecord();
+    const updated = applyBulkUpdate(record, { percent: { type: 'set', value: '30' }, region: { type: 'set', value: 'Global' } });
+
+    expect(updated.percent).toBe(30);
+    expect(updated.region).toBe(Region.GLOBAL);
+    expect(updated.discount).toBe(record.discount);
+  });
+});
+
+describe('validateBulkUpdate', () => {
+  it('reports operations that do not fit their field or have no effect', () => {
+    expect(validateBulkUpdate({
+      platform: { type: 'append', text: 'x' },
+      percent: { type: 'set', value: 150 },
+      startDate: { type: 'shiftDays', days: 1.5 },
+      discount: { type: 'replace', find: '', replacement: 'x' }
+    })).toEqual([
+      'Platform cannot be changed with "Append"',
+      'Invalid percent "150" (expected 0-100)',
+      'Start Date shift must be a whole number of days other than 0',
+      'Text to find in discount is required'
+    ]);
+    expect(validateBulkUpdate({ comments: { type: 'set', value: '' } })).toEqual([]);
+  });
+});
+
+describe('previewBulkUpdateRow', () => {
+  it('flags rows that a start date alone would leave ending before they start', () => {
+    const row = previewBulkUpdateRow(createRecord(), { startDate: { type: 'set', value: '2026-08-10' } }, 'editor');
+
+    expect(row.changedFields).toEqual(['startDate']);
+    expect(row.before.startDate).toBe('2026-07-28');
+    expect(row.after.startDate).toBe('2026-08-10');
+    expect(row.errors).toEqual(['End date and time must be after the start date and time']);
+  });
+
+  it('flags platform and region combinations the platform does not support', () => {
+    const row = previewBulkUpdateRow(createRecord(), { platform: { type: 'set', value: Platform.EPIC } }, 'editor');
+
+    expect(row.errors).toEqual(['Region "Europe" is not available on Epic Games Store']);
+  });
+
+  it('reports rows the update leaves as they are without errors', () => {
+    const record = createRecord({ platform: Platform.EPIC });
+    const row = previewBulkUpdateRow(record, { platform: { type: 'set', value: Platform.EPIC } }, 'editor');
+
+    expect(row.changedFields).toEqual([]);
+    expect(row.errors).toEqual([]);
+  });
+});
+
+describe('getForbiddenStatusChanges', () => {
+  it('lists status changes the role may not make', () => {
+    const record = createRecord();
+    const updated = applyBulkUpdate(record, { implementationStatus: { type: 'set', value: ImplementationStatus.CANCELLED } });
+
+    expect(getForbiddenStatusChanges(record, updated, 'editor')).toEqual([
+      'The editor role cannot change implementation status from Pending to Cancelled'
+    ]);
+    expect(getForbiddenStatusChanges(record, updated, 'manager')).toEqual([]);
+  });
+});
+
+describe('getRowsToApply', () => {
+  it('applies valid rows only, or every row except forbidden status changes', () => {
+    const update = { startDate: { type: 'shiftDays', days: 10 } } as const;
+    const valid = previewBulkUpdateRow(createRecord({ endDate: '2026-09-01' }), update, 'editor');
+    const invalid = previewBulkUpdateRow(createRecord({ clientId: 'ORG_EA_000002' }), update, 'editor');
+    const forbidden = { ...invalid, before: createRecord({ clientId: 'ORG_EA_000003' }), forbidden: ['Not allowed'] };
+    const preview = { update, validRows: [valid], invalidRows: [invalid, forbidden], unchangedCount: 0, totalRows: 3 };
+
+    expect(getRowsToApply(preview, 'valid')).toEqual([valid]);
+    expect(getRowsToApply(preview, 'all')).toEqual([valid, invalid]);
+  });
+});
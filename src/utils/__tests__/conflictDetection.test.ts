@@ -0,0 +1,128 @@
+/**
+ * Tests for overlapping discount detection, incremental tracking and the overlap rate of generated data
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createConflictTracker, detectConflicts } from '../conflictDetection';
+import { generateTestData } from '../mockDataGenerator';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+
+function createRecord(clientId: string, overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId,
+    client: 'Capcom',
+    platform: Platform.STEAM,
+    region: Region.EUROPE,
+    discount: 'Spring Break',
+    startDate: '2026-03-01',
+    startTime: '00:00',
+    endDate: '2026-03-10',
+    endTime: '00:00',
+    timezone: 'UTC',
+    percent: 30,
+    deadline: '2026-02-20',
+    implementationStatus: ImplementationStatus.PENDING,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+describe('detectConflicts', () => {
+  it('flags overlapping windows in the same client/platform/region', () => {
+    const conflicts = detectConflicts([
+      createRecord('A'),
+      createRecord('B', { startDate: '2026-03-05', endDate: '2026-03-15' }),
+      createRecord('C', { startDate: '2026-03-15', endDate: '2026-03-20' })
+    ]);
+
+    expect(conflicts.get('A')).toEqual(['B']);
+    expect(conflicts.get('B')).toEqual(['A']);
+    // C starts exactly when B ends, which is not an overlap
+    expect(conflicts.has('C')).toBe(false);
+  });
+
+  it('ignores other regions and cancelled events', () => {
+    const conflicts = detectConflicts([
+      createRecord('A'),
+      createRecord('B', { region: Region.NORTH_AMERICA }),
+      createRecord('C', { salesEventStatus: SalesEventStatus.CANCELLED })
+    ]);
+
+    expect(conflicts.size).toBe(0);
+  });
+
+  it('uses start and end times within the same day', () => {
+    const conflicts = detectConflicts([
+      createRecord('A', { endDate: '2026-03-10', endTime: '12:00' }),
+      createRecord('B', { startDate: '2026-03-10', startTime: '11:00', endDate: '2026-03-12' })
+    ]);
+
+    expect(conflicts.get('A')).toEqual(['B']);
+  });
+});
+
+describe('createConflictTracker', () => {
+  it('matches a full detection after records are moved, cancelled, added and removed', () => {
+    const records = [
+      createRecord('A'),
+      createRecord('B', { startDate: '2026-03-05', endDate: '2026-03-15' }),
+      createRecord('C', { startDate: '2026-03-15', endDate: '2026-03-20' }),
+      createRecord('D', { region: Region.NORTH_AMERICA })
+    ];
+    const tracker = createConflictTracker();
+    const initial = tracker.reset(records);
+
+    const changed = [
+      createRecord('C', { startDate: '2026-03-08', endDate: '2026-03-20' }),
+      createRecord('A', { salesEventStatus: SalesEventStatus.CANCELLED }),
+      createRecord('E', { region: Region.NORTH_AMERICA, startDate: '2026-03-09' })
+    ];
+    const updated = tracker.update(changed, ['D']);
+
+    expect(updated).not.toBe(initial);
+    expect(initial.get('A')).toEqual(['B']);
+    expect(updated).toEqual(detectConflicts([records[1], ...changed]));
+    expect(updated.has('E')).toBe(false);
+  });
+
+  it('finds the same overlaps as a full detection after many changes to generated data', () => {
+    const sorted = (conflicts: Map<string, string[]>) =>
+      new Map(Array.from(conflicts, ([clientId, otherIds]) => [clientId, [...otherIds].sort()]));
+    const records = generateTestData(2000).map(record => ({ ...record, client: record.client.slice(0, 1) }));
+    const tracker = createConflictTracker();
+    tracker.reset(records);
+
+    const current = new Map(records.map(record => [record.clientId, record]));
+    const changed = records.filter((_, i) => i % 7 === 0).map(record => ({ ...record, startDate: '2026-03-01' }));
+    const removedIds = records.filter((_, i) => i % 11 === 0).map(record => record.clientId);
+    removedIds.forEach(clientId => current.delete(clientId));
+    changed.forEach(record => current.set(record.clientId, record));
+
+    const updated = tracker.update(changed, removedIds);
+
+    expect(updated.size).toBeGreaterThan(100);
+    expect(sorted(updated)).toEqual(sorted(detectConflicts(Array.from(current.values()))));
+  });
+
+  it('returns the same map when no tracked group changes', () => {
+    const tracker = createConflictTracker();
+    const conflicts = tracker.reset([createRecord('A')]);
+
+    expect(tracker.update([], ['unknown'])).toBe(conflicts);
+  });
+});
+
+describe('generated data', () => {
+  it('keeps overlapping discounts rare', () => {
+    const records = generateTestData(5000);
+
+    expect(detectConflicts(records).size / records.length).toBeLessThan(0.1);
+  });
+});
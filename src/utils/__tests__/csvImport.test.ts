@@ -0,0 +1,132 @@
+/**
+ * Tests for CSV import parsing and preview classification
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCSV, buildImportPreview, detectCSVDelimiter, detectDateFormat } from '../csvImport';
+import { CSV_DELIMITERS, DATE_FORMATS, convertToCSV } from '../csvExport';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+
+function createRecord(overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId: 'ORG_EA_000001',
+    client: 'Electronic Arts',
+    platform: Platform.STEAM,
+    region: Region.EUROPE,
+    discount: 'Summer Sale',
+    startDate: '2026-07-01',
+    startTime: '10:00',
+    endDate: '2026-07-14',
+    endTime: '18:00',
+    timezone: 'UTC',
+    percent: 25,
+    deadline: '2026-06-20',
+    implementationStatus: ImplementationStatus.PENDING,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+describe('parseCSV', () => {
+  it('handles quoted fields, escaped quotes and embedded newlines', () => {
+    const rows = parseCSV('a,b,c\r\n"x, y","say ""hi""","line 1\nline 2"\n');
+
+    expect(rows).toEqual([
+      ['a', 'b', 'c'],
+      ['x, y', 'say "hi"', 'line 1\nline 2']
+    ]);
+  });
+
+  it('detects the delimiter from the header line', () => {
+    expect(detectCSVDelimiter('a;b;"c,d"\n1,2,3,4,5')).toBe(';');
+    expect(detectCSVDelimiter('a\tb\tc')).toBe('\t');
+    expect(detectCSVDelimiter('single')).toBe(',');
+    expect(parseCSV('a;b\n"1;2";3')).toEqual([['a', 'b'], ['1;2', '3']]);
+  });
+});
+
+describe('detectDateFormat', () => {
+  it('tells day-first from month-first dates by a part over 12', () => {
+    expect(detectDateFormat(['2026-07-01'])).toBe('iso');
+    expect(detectDateFormat(['01/07/2026', '14/07/2026'])).toBe('dmy');
+    expect(detectDateFormat(['07/01/2026', '07/14/2026'])).toBe('mdy');
+    expect(detectDateFormat(['01/07/2026', '02/07/2026'])).toBeNull();
+  });
+});
+
+describe('buildImportPreview', () => {
+  it('round-trips exported records as unchanged', () => {
+    const records = [createRecord(), createRecord({ clientId: 'ORG_EA_000002', comments: 'Multi\nline, "quoted"' })];
+    const preview = buildImportPreview(convertToCSV(records), records, 'editor');
+
+    expect(preview.headerErrors).toEqual([]);
+    expect(preview.unchangedCount).toBe(2);
+    expect(preview.newRows).toHaveLength(0);
+    expect(preview.changedRows).toHaveLength(0);
+  });
+
+  CSV_DELIMITERS.forEach(({ value: delimiter, label }) => {
+    DATE_FORMATS.forEach(({ value: dateFormat, label: dateLabel }) => {
+      it(`round-trips files separated by ${label} with ${dateLabel} dates and decimal commas`, () => {
+        const records = [
+          createRecord({ percent: 12.5, comments: `Has ${delimiter} inside` }),
+          createRecord({ clientId: 'ORG_EA_000002', startDate: '2026-07-13', endDate: '2026-07-20', deadline: '2026-07-01' })
+        ];
+        const csv = convertToCSV(records, { delimiter, dateFormat, decimalSeparator: ',' });
+        const preview = buildImportPreview(csv, records, 'editor');
+
+        expect(preview.headerErrors).toEqual([]);
+        expect(preview.dateFormat).toBe(dateFormat);
+        expect(preview.invalidRows).toEqual([]);
+        expect(preview.unchangedCount).toBe(2);
+      });
+    });
+  });
+
+  it('asks for the date format when no date tells day and month apart', () => {
+    const records = [createRecord({ startDate: '2026-07-01', endDate: '2026-07-10', deadline: '2026-06-05' })];
+    const csv = convertToCSV(records, { dateFormat: 'dmy' });
+
+    expect(buildImportPreview(csv, records, 'editor').headerErrors).toEqual([
+      'Cannot tell whether dates are dd/mm/yyyy or mm/dd/yyyy; choose the date format'
+    ]);
+    expect(buildImportPreview(csv, records, 'editor', { dateFormat: 'dmy' }).unchangedCount).toBe(1);
+  });
+
+  it('classifies new, changed and invalid rows', () => {
+    const existing = [createRecord()];
+    const csv = convertToCSV([
+      createRecord({ percent: 40 }),
+      createRecord({ clientId: 'ORG_EA_000002' }),
+      createRecord({ clientId: 'ORG_EA_000003', platform: 'Atari' as Platform })
+    ]);
+    const preview = buildImportPreview(csv, existing, 'editor');
+
+    expect(preview.changedRows.map(row => row.changedFields)).toEqual([['percent']]);
+    expect(preview.newRows.map(row => row.record.clientId)).toEqual(['ORG_EA_000002']);
+    expect(preview.invalidRows[0].errors).toContain('Invalid platform "Atari"');
+  });
+
+  it('rejects changed rows with status changes the role may not make', () => {
+    const existing = [createRecord()];
+    const csv = convertToCSV([createRecord({ implementationStatus: ImplementationStatus.CANCELLED })]);
+
+    expect(buildImportPreview(csv, existing, 'editor').invalidRows[0].errors).toEqual([
+      'The editor role cannot change implementation status from Pending to Cancelled'
+    ]);
+    expect(buildImportPreview(csv, existing, 'manager').changedRows).toHaveLength(1);
+  });
+
+  it('rejects files with missing columns', () => {
+    const preview = buildImportPreview('Client Id,Client\nORG_1,EA', [], 'editor');
+
+    expect(preview.headerErrors).toContain('Missing column "Platform"');
+  });
+});
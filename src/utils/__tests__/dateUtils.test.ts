@@ -0,0 +1,64 @@
+/**
+ * Tests for time zone aware date handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addDays, calculateDuration, formatInstant, getMonthName, parseDateTime } from '../dateUtils';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+
+function createRecord(overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId: 'ORG_EA_000001',
+    client: 'Electronic Arts',
+    platform: Platform.STEAM,
+    region: Region.NORTH_AMERICA,
+    discount: 'Summer Sale',
+    startDate: '2026-03-07',
+    startTime: '10:00',
+    endDate: '2026-03-09',
+    endTime: '10:00',
+    timezone: 'America/Los_Angeles',
+    percent: 25,
+    deadline: '',
+    implementationStatus: ImplementationStatus.PENDING,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+describe('parseDateTime', () => {
+  it('resolves wall-clock times in the given zone, including across DST', () => {
+    expect(parseDateTime('2026-01-15', '10:00', 'America/Los_Angeles')).toBe(Date.UTC(2026, 0, 15, 18, 0));
+    expect(parseDateTime('2026-07-15', '10:00', 'America/Los_Angeles')).toBe(Date.UTC(2026, 6, 15, 17, 0));
+    expect(parseDateTime('2026-07-15', '10:00', 'Asia/Tokyo')).toBe(Date.UTC(2026, 6, 15, 1, 0));
+  });
+
+  it('rejects impossible dates and unknown zones', () => {
+    expect(parseDateTime('2026-02-31', '10:00')).toBeNaN();
+    expect(parseDateTime('2026-02-01', '10:00', 'Mars/Olympus')).toBeNaN();
+  });
+});
+
+describe('calculateDuration', () => {
+  it('uses full date/times, so a DST change shortens the window by an hour', () => {
+    const record = createRecord();
+
+    expect(calculateDuration(record, 'hours')).toBe(47);
+    expect(calculateDuration(record, 'days')).toBe(2);
+  });
+});
+
+describe('calendar helpers', () => {
+  it('do not shift dates by the local offset', () => {
+    expect(getMonthName('2026-03-01')).toBe('March');
+    expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+    expect(formatInstant(Date.UTC(2026, 6, 15, 23, 30), 'Asia/Tokyo')).toBe('2026-07-16 08:30');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for export profile column resolution, text serializers, re-import checks and stored profile sanitizing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_PROFILES,
+  EXPORT_COLUMNS,
+  createRecordSerializer,
+  getImportProblems,
+  resolveExportColumns,
+  sanitizeProfile
+} from '../exportProfiles';
+import { buildImportPreview } from '../csvImport';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+
+function createRecord(overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId: 'ORG_EA_000001',
+    client: 'Electronic Arts',
+    platform: Platform.STEAM,
+    region: Region.EUROPE,
+    discount: 'Summer Sale',
+    startDate: '2026-07-01',
+    startTime: '10:00',
+    endDate: '2026-07-14',
+    endTime: '18:00',
+    timezone: 'UTC',
+    percent: 12.5,
+    deadline: '2026-06-20',
+    implementationStatus: ImplementationStatus.PENDING,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+/**
+ * Whole file written by a serializer for some records
+ */
+function serialize(serializer: ReturnType<typeof createRecordSerializer>, records: DiscountRecord[]): string {
+  if (records.length === 0) return serializer.empty.join('');
+  return serializer.opening + serializer.leading + records.map(serializer.writeRow).join(serializer.separator) +
+    serializer.closing;
+}
+
+describe('resolveExportColumns', () => {
+  it('uses the grid\'s visible columns in grid order and drops columns that cannot be exported', () => {
+    const gridColumns = [
+      { colId: 'percent' },
+      { colId: 'startInstant' },
+      { colId: 'client', hide: true },
+      { colId: 'clientId' }
+    ];
+
+    expect(resolveExportColumns({ columns: ['client'], useGridColumns: true }, gridColumns)).toEqual(['percent', 'clientId']);
+    expect(resolveExportColumns({ columns: ['client'], useGridColumns: false }, gridColumns)).toEqual(['client']);
+  });
+
+  it('falls back to the chosen columns when the grid has no column state', () => {
+    expect(resolveExportColumns({ columns: ['discount', 'percent'], useGridColumns: true }, [])).toEqual([
+      'discount',
+      'percent'
+    ]);
+  });
+});
+
+describe('createRecordSerializer', () => {
+  const records = [createRecord(), createRecord({ clientId: 'ORG_EA_000002', discount: 'Tab\there' })];
+
+  it('writes TSV with the chosen columns, date format and decimal comma', () => {
+    const serializer = createRecordSerializer({
+      format: 'tsv',
+      columns: ['clientId', 'startDate', 'percent'],
+      dateFormat: 'dmy',
+      decimalSeparator: ','
+    });
+
+    expect(serialize(serializer, records).split('\n')).toEqual([
+      'Client Id\tStart Date\tPercent',
+      'ORG_EA_000001\t01/07/2026\t12,5',
+      'ORG_EA_000002\t01/07/2026\t12,5'
+    ]);
+  });
+
+  it('writes a JSON array of objects keyed by field, keeping numbers as numbers', () => {
+    const serializer = createRecordSerializer({ format: 'json', columns: ['discount', 'endDate', 'percent'], dateFormat: 'mdy' });
+
+    expect(JSON.parse(serialize(serializer, records))).toEqual([
+      { discount: 'Summer Sale', endDate: '07/14/2026', percent: 12.5 },
+      { discount: 'Tab\there', endDate: '07/14/2026', percent: 12.5 }
+    ]);
+    expect(serialize(serializer, [])).toBe('[]');
+  });
+
+  it('writes NDJSON as one object per line', () => {
+    const serializer = createRecordSerializer({ format: 'ndjson', columns: ['clientId', 'length'] });
+    const lines = serialize(serializer, records).split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('');
+    expect(JSON.parse(lines[1])).toEqual({ clientId: 'ORG_EA_000002', length: 13.3 });
+  });
+
+  it('writes every column by default', () => {
+    const header = createRecordSerializer({ format: 'csv' }).opening;
+    expect(header.split(',')).toHaveLength(EXPORT_COLUMNS.length);
+  });
+});
+
+describe('getImportProblems', () => {
+  it('accepts delimited and Excel files with the import columns in any order', () => {
+    const columns = [...EXPORT_COLUMNS].reverse().filter(field => field !== 'timezone' && field !== 'month');
+
+    expect(getImportProblems('tsv', columns)).toEqual([]);
+    expect(getImportProblems('xlsx', EXPORT_COLUMNS)).toEqual([]);
+  });
+
+  it('reports JSON formats and missing import columns', () => {
+    expect(getImportProblems('ndjson', EXPORT_COLUMNS)).toEqual([
+      'NDJSON files cannot be imported; use CSV, TSV or Excel for files to edit and import'
+    ]);
+    expect(getImportProblems('csv', EXPORT_COLUMNS.filter(field => field !== 'deadline' && field !== 'comments'))).toEqual([
+      'Files without the Deadline, Comments columns cannot be imported'
+    ]);
+  });
+
+  it('matches what the import reads back from a TSV file with reordered columns and day-first dates', () => {
+    const serializer = createRecordSerializer({
+      format: 'tsv',
+      columns: [...EXPORT_COLUMNS].reverse(),
+      dateFormat: 'dmy',
+      decimalSeparator: ','
+    });
+    const records = [createRecord(), createRecord({ clientId: 'ORG_EA_000002', startDate: '2026-07-13' })];
+    const preview = buildImportPreview(serialize(serializer, records), records, 'editor');
+
+    expect(preview.headerErrors).toEqual([]);
+    expect(preview.unchangedCount).toBe(2);
+  });
+});
+
+describe('sanitizeProfile', () => {
+  it('replaces unknown settings with defaults and drops unknown columns', () => {
+    const profile = sanitizeProfile({
+      id: 'p1',
+      name: 'Mine',
+      format: 'pdf',
+      columns: ['percent', 'password', 'percent'],
+      delimiter: '|',
+      decimalSeparator: ','
+    });
+
+    expect(profile).toMatchObject({
+      format: 'csv',
+      columns: ['percent'],
+      delimiter: ',',
+      decimalSeparator: ',',
+      useGridSort: true
+    });
+  });
+
+  it('rejects values without an id or name and keeps built-in profiles intact', () => {
+    expect(sanitizeProfile({ name: 'No id' })).toBeNull();
+    BUILT_IN_PROFILES.forEach(profile => expect(sanitizeProfile(profile)).toEqual(profile));
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for the shared column filter model
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  type GridFilterModel,
+  compileColumnFilter,
+  compileFilterModel,
+  describeColumnFilter,
+  isSameFilterModel
+} from '../filterModel';
+
+describe('compileColumnFilter', () => {
+  it('matches text conditions case-insensitively', () => {
+    const contains = compileColumnFilter({ filterType: 'text', type: 'contains', filter: 'SALE' });
+    expect(contains('Winter Sale')).toBe(true);
+    expect(contains('Launch')).toBe(false);
+    expect(contains(null)).toBe(false);
+
+    const notEqual = compileColumnFilter({ filterType: 'text', type: 'notEqual', filter: 'steam' });
+    expect(notEqual('Steam')).toBe(false);
+    expect(notEqual(null)).toBe(true);
+
+    const blank = compileColumnFilter({ filterType: 'text', type: 'blank' });
+    expect(blank('  ')).toBe(true);
+    expect(blank('x')).toBe(false);
+  });
+
+  it('compares numbers and dates with exclusive ranges', () => {
+    const atLeast = compileColumnFilter({ filterType: 'number', type: 'greaterThanOrEqual', filter: 50 });
+    expect(atLeast(50)).toBe(true);
+    expect(atLeast(49)).toBe(false);
+    expect(atLeast(null)).toBe(false);
+
+    const between = compileColumnFilter({ filterType: 'number', type: 'inRange', filter: 10, filterTo: 20 });
+    expect(between(15)).toBe(true);
+    expect(between(10)).toBe(false);
+
+    const before = compileColumnFilter({ filterType: 'date', type: 'lessThan', dateFrom: '2026-12-01 00:00:00' });
+    expect(before('2026-11-30')).toBe(true);
+    expect(before('2026-12-01')).toBe(false);
+
+    const onDay = compileColumnFilter({ filterType: 'date', type: 'equals', dateFrom: '2026-12-01 00:00:00' });
+    expect(onDay('2026-12-01')).toBe(true);
+  });
+
+  it('joins conditions and matches set values including blanks', () => {
+    const either = compileColumnFilter({
+      filterType: 'text',
+      operator: 'OR',
+      conditions: [
+        { filterType: 'text', type: 'startsWith', filter: 'win' },
+        { filterType: 'text', type: 'endsWith', filter: 'launch' }
+      ]
+    });
+    expect(either('Winter Sale')).toBe(true);
+    expect(either('Game Launch')).toBe(true);
+    expect(either('Summer Sale')).toBe(false);
+
+    const set = compileColumnFilter({ filterType: 'set', values: ['Steam', ''] });
+    expect(set('Steam')).toBe(true);
+    expect(set(undefined)).toBe(true);
+    expect(set('GOG')).toBe(false);
+  });
+});
+
+describe('compileFilterModel', () => {
+  it('requires every column filter to pass and returns null without filters', () => {
+    const model: GridFilterModel = {
+      platform: { filterType: 'set', values: ['Steam'] },
+      percent: { filterType: 'number', type: 'greaterThan', filter: 40 }
+    };
+    const matches = compileFilterModel(model, (record: Record<string, unknown>, colId) => record[colId])!;
+    expect(matches({ platform: 'Steam', percent: 50 })).toBe(true);
+    expect(matches({ platform: 'Steam', percent: 30 })).toBe(false);
+    expect(matches({ platform: 'GOG', percent: 50 })).toBe(false);
+    expect(compileFilterModel({}, () => null)).toBeNull();
+  });
+});
+
+describe('describeColumnFilter and isSameFilterModel', () => {
+  it('describes filters for chips', () => {
+    expect(describeColumnFilter({ filterType: 'text', type: 'contains', filter: 'sale' })).toBe('contains "sale"');
+    expect(describeColumnFilter({ filterType: 'number', type: 'inRange', filter: 10, filterTo: 20 })).toBe('between 10 and 20');
+    expect(describeColumnFilter({ filterType: 'date', type: 'greaterThan', dateFrom: '2026-11-01 00:00:00' })).toBe('> 2026-11-01');
+    expect(describeColumnFilter({ filterType: 'set', values: ['Steam', 'GOG'] })).toBe('Steam, GOG');
+  });
+
+  it('ignores key order when comparing models', () => {
+    expect(isSameFilterModel(
+      { percent: { filterType: 'number', type: 'equals', filter: 5 } },
+      { percent: { type: 'equals', filter: 5, filterType: 'number' } }
+    )).toBe(true);
+    expect(isSameFilterModel(null, {})).toBe(true);
+    expect(isSameFilterModel({ platform: { filterType: 'set', values: ['Steam'] } }, {})).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Tests for performance sample statistics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatDuration, percentile, summarizeSamples } from '../performanceMetrics';
+
+function samples(durations: number[]) {
+  return durations.map(durationMs => ({ durationMs, timestamp: '2026-10-18T00:00:00.000Z' }));
+}
+
+describe('percentile', () => {
+  it('interpolates between sorted values', () => {
+    const sorted = [10, 20, 30, 40, 50];
+    expect(percentile(sorted, 0)).toBe(10);
+    expect(percentile(sorted, 50)).toBe(30);
+    expect(percentile(sorted, 90)).toBe(46);
+    expect(percentile(sorted, 100)).toBe(50);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('summarizeSamples', () => {
+  it('summarises samples in recording order', () => {
+    const summary = summarizeSamples(samples([30, 10, 20]))!;
+    expect(summary).toMatchObject({ count: 3, last: 20, min: 10, max: 30, mean: 20, p50: 20 });
+    expect(summarizeSamples([])).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('picks a unit for the size of the value', () => {
+    expect(formatDuration(3.456)).toBe('3.5ms');
+    expect(formatDuration(850.4)).toBe('850ms');
+    expect(formatDuration(1240)).toBe('1.24s');
+  });
+});
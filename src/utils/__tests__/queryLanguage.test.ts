@@ -0,0 +1,145 @@
+/**
+ * Tests for the search bar query language
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  QueryParseError,
+  compileQuery,
+  formatQuery,
+  getQuerySuggestions,
+  parseQuery,
+  removeQueryClause
+} from '../queryLanguage';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+
+function createRecord(overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId: 'ORG_EA_000001',
+    client: 'Electronic Arts',
+    platform: Platform.STEAM,
+    region: Region.EUROPE,
+    discount: 'Winter Sale',
+    startDate: '2026-11-20',
+    startTime: '10:00',
+    endDate: '2026-12-04',
+    endTime: '18:00',
+    timezone: 'Europe/London',
+    percent: 50,
+    deadline: '',
+    implementationStatus: ImplementationStatus.COMPLETED,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+/**
+ * Whether a query matches a record
+ */
+function matches(query: string, record: DiscountRecord = createRecord()): boolean {
+  return compileQuery(parseQuery(query)!)(record);
+}
+
+/**
+ * The parse error raised for a query
+ */
+function parseError(query: string): QueryParseError {
+  try {
+    parseQuery(query);
+  } catch (error) {
+    if (error instanceof QueryParseError) return error;
+    throw error;
+  }
+  throw new Error(`Expected "${query}" to fail`);
+}
+
+describe('parseQuery and compileQuery', () => {
+  it('matches the example query', () => {
+    const query = 'platform:Steam region:"Europe" percent>=50 start:2026-11..2026-12 status:!Completed';
+    expect(matches(query)).toBe(true);
+    expect(matches(query, createRecord({ percent: 40 }))).toBe(false);
+    expect(matches(query, createRecord({ startDate: '2027-01-02' }))).toBe(false);
+    expect(matches(query, createRecord({ salesEventStatus: SalesEventStatus.COMPLETED }))).toBe(false);
+  });
+
+  it('supports AND, OR, NOT and parentheses with AND binding tighter than OR', () => {
+    expect(matches('platform:GOG OR platform:Steam percent>60')).toBe(false);
+    expect(matches('(platform:GOG OR platform:Steam) percent<=50')).toBe(true);
+    expect(matches('NOT region:Europe')).toBe(false);
+    expect(matches('platform:Steam AND NOT (percent<10 OR impl=Failed)')).toBe(true);
+  });
+
+  it('compares numbers, date prefixes and exact text', () => {
+    expect(matches('percent:50')).toBe(true);
+    expect(matches('percent:..49')).toBe(false);
+    expect(matches('start:2026-11')).toBe(true);
+    expect(matches('start>2026-11')).toBe(false);
+    expect(matches('end<=2026-12-04')).toBe(true);
+    expect(matches('platform=steam')).toBe(true);
+    expect(matches('platform=ste')).toBe(false);
+    expect(matches('platform!=Steam')).toBe(false);
+  });
+
+  it('matches free text against the main text fields', () => {
+    expect(matches('winter')).toBe(true);
+    expect(matches('"Electronic Arts"')).toBe(true);
+    expect(matches('summer')).toBe(false);
+  });
+
+  it('returns null for an empty query', () => {
+    expect(parseQuery('   ')).toBeNull();
+  });
+});
+
+describe('parse errors', () => {
+  it('points at the offending text', () => {
+    expect(parseError('platform:Steam colour:red')).toMatchObject({ message: 'Unknown field "colour"', position: 15 });
+    expect(parseError('percent>=lots').message).toBe('percent expects a number');
+    expect(parseError('start:November').message).toContain('expects a date');
+    expect(parseError('region>Europe').message).toContain('only be used with number and date fields');
+    expect(parseError('region:"Europe').message).toBe('Missing closing quote');
+    expect(parseError('(platform:Steam').message).toBe('Missing closing parenthesis');
+    expect(parseError('platform:Steam)').message).toBe('Unexpected closing parenthesis');
+    expect(parseError('platform:Steam OR').message).toBe('Expected a search term after OR');
+    expect(parseError('platform:').message).toBe('Missing value for platform');
+  });
+});
+
+describe('formatting and clauses', () => {
+  it('writes queries back as equivalent text', () => {
+    const node = parseQuery('(platform:GOG or platform:Steam) region:"North America" not percent:10..20')!;
+    expect(formatQuery(node)).toBe('(platform:GOG OR platform:Steam) region:"North America" NOT percent:10..20');
+  });
+
+  it('removes a top-level clause', () => {
+    const node = parseQuery('platform:Steam percent>=50 status:!Completed')!;
+    expect(removeQueryClause(node, 1)).toBe('platform:Steam status:!Completed');
+    expect(removeQueryClause(parseQuery('platform:Steam')!, 0)).toBe('');
+  });
+});
+
+describe('getQuerySuggestions', () => {
+  const getValues = (field: keyof DiscountRecord) =>
+    field === 'region' ? Object.values(Region) : field === 'platform' ? Object.values(Platform) : [];
+
+  it('suggests field names and keywords for a bare word', () => {
+    const suggestions = getQuerySuggestions('platform:Steam o', 16, getValues);
+    expect(suggestions.from).toBe(15);
+    expect(suggestions.items.map(item => item.label)).toEqual(['OR']);
+    expect(getQuerySuggestions('re', 2, getValues).items[0]).toMatchObject({ label: 'region:', insert: 'region:' });
+  });
+
+  it('suggests values of the field being typed, quoting where needed', () => {
+    const suggestions = getQuerySuggestions('region:"north', 13, getValues);
+    expect(suggestions.from).toBe(0);
+    expect(suggestions.items[0]).toMatchObject({ label: 'North America', insert: 'region:"North America" ' });
+    expect(getQuerySuggestions('platform:!st', 12, getValues).items[0].insert).toBe('platform:!Steam ');
+  });
+});
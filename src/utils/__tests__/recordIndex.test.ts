@@ -0,0 +1,100 @@
+/**
+ * Tests for the indexed record store
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createRecordIndex } from '../recordIndex';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+
+function createRecord(clientId: string, overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId,
+    client: 'Capcom',
+    platform: Platform.STEAM,
+    region: Region.EUROPE,
+    discount: 'Spring Break',
+    startDate: '2026-03-01',
+    startTime: '00:00',
+    endDate: '2026-03-10',
+    endTime: '00:00',
+    timezone: 'UTC',
+    percent: 30,
+    deadline: '2026-02-20',
+    implementationStatus: ImplementationStatus.PENDING,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+describe('createRecordIndex', () => {
+  it('replaces records by clientId and keeps value counts current', () => {
+    const index = createRecordIndex([
+      createRecord('A'),
+      createRecord('B', { platform: Platform.GOG }),
+      createRecord('C')
+    ]);
+    expect(index.getValueCounts('platform')).toEqual(new Map([[Platform.STEAM, 2], [Platform.GOG, 1]]));
+
+    const previous = index.replace([createRecord('C', { platform: Platform.GOG }), createRecord('missing')]);
+
+    expect(previous.map(item => [item.index, item.record.clientId])).toEqual([[2, 'C']]);
+    expect(index.get('C')?.platform).toBe(Platform.GOG);
+    expect(index.getValueCounts('platform')).toEqual(new Map([[Platform.STEAM, 1], [Platform.GOG, 2]]));
+  });
+
+  it('removes records and reinserts them at their original positions', () => {
+    const index = createRecordIndex(['A', 'B', 'C', 'D', 'E'].map(id => createRecord(id, { discount: `Sale ${id}` })));
+
+    const removed = index.remove(['D', 'B']);
+    expect(removed.map(item => [item.index, item.record.clientId])).toEqual([[1, 'B'], [3, 'D']]);
+    expect(index.records.map(record => record.clientId)).toEqual(['A', 'C', 'E']);
+    expect(index.positionOf('E')).toBe(2);
+    expect(index.normalizedAt('discount', 2)).toBe('sale e');
+
+    index.insert(removed);
+    expect(index.records.map(record => record.clientId)).toEqual(['A', 'B', 'C', 'D', 'E']);
+    expect(index.positionOf('D')).toBe(3);
+    expect(index.getValueCounts('client')).toEqual(new Map([['Capcom', 5]]));
+  });
+
+  it('tests each distinct value once and reads row codes by position', () => {
+    const index = createRecordIndex([
+      createRecord('A', { region: Region.EUROPE }),
+      createRecord('B', { region: Region.NORTH_AMERICA }),
+      createRecord('C', { region: Region.EUROPE })
+    ]);
+
+    const tested: string[] = [];
+    const accepted = index.matchCodes('region', value => {
+      tested.push(value);
+      return value === Region.NORTH_AMERICA;
+    });
+
+    expect(tested).toHaveLength(2);
+    expect([0, 1, 2].filter(position => accepted[index.codeAt('region', position)] === 1)).toEqual([1]);
+    expect(index.normalizedAt('region', 1)).toBe(Region.NORTH_AMERICA.toLowerCase());
+  });
+
+  it('builds text tests on lowercased values that follow later changes', () => {
+    const index = createRecordIndex([
+      createRecord('A', { discount: 'Winter Sale' }),
+      createRecord('B', { discount: 'Spring Break' })
+    ]);
+
+    const hasWinter = index.getTextTest('discount', text => text.includes('winter'));
+    expect([0, 1].filter(hasWinter)).toEqual([0]);
+
+    index.insert([{ index: 0, record: createRecord('C', { discount: 'WINTER Deals', platform: Platform.GOG }) }]);
+    expect([0, 1, 2].filter(hasWinter)).toEqual([0, 1]);
+
+    const onGog = index.getTextTest('platform', text => text === 'gog');
+    expect([0, 1, 2].filter(onGog)).toEqual([0]);
+  });
+});
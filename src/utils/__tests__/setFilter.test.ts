@@ -0,0 +1,49 @@
+/**
+ * Tests for the set filter helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeSetFilterModel,
+  searchFilterValues,
+  sortFilterValues,
+  toFilterValue
+} from '../setFilter';
+
+describe('toFilterValue', () => {
+  it('treats missing values as blanks and keeps zero', () => {
+    expect(toFilterValue(undefined)).toBe('');
+    expect(toFilterValue(null)).toBe('');
+    expect(toFilterValue(0)).toBe('0');
+    expect(toFilterValue('Steam')).toBe('Steam');
+  });
+});
+
+describe('sortFilterValues', () => {
+  it('sorts text, numbers and custom orders with blanks last', () => {
+    expect(sortFilterValues(['GOG', '', 'Epic', 'Steam'])).toEqual(['Epic', 'GOG', 'Steam', '']);
+    expect(sortFilterValues(['10', '9', '100'])).toEqual(['9', '10', '100']);
+
+    const calendar = ['January', 'February', 'March'];
+    const byCalendar = (a: string, b: string) => calendar.indexOf(a) - calendar.indexOf(b);
+    expect(sortFilterValues(['March', 'January', 'February'], byCalendar)).toEqual(calendar);
+  });
+});
+
+describe('searchFilterValues', () => {
+  it('matches labels case-insensitively, including the blanks label', () => {
+    const values = ['Europe', 'North America', ''];
+    expect(searchFilterValues(values, 'AMER')).toEqual(['North America']);
+    expect(searchFilterValues(values, 'blank')).toEqual(['']);
+    expect(searchFilterValues(values, '  ')).toBe(values);
+  });
+});
+
+describe('describeSetFilterModel', () => {
+  it('summarises the selected values', () => {
+    expect(describeSetFilterModel(null)).toBe('');
+    expect(describeSetFilterModel({ filterType: 'set', values: [] })).toBe('None');
+    expect(describeSetFilterModel({ filterType: 'set', values: ['Steam', ''] })).toBe('Steam, (Blanks)');
+    expect(describeSetFilterModel({ filterType: 'set', values: ['Steam', 'GOG', 'Epic', 'Xbox'] })).toBe('Steam, GOG +2 more');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for the status transition model and date-driven scheduling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canTransition, getNextStatuses, getScheduledSalesEventStatus } from '../statusTransitions';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+import { parseDateTime } from '../dateUtils';
+
+function createRecord(overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId: 'ORG_EA_000001',
+    client: 'Electronic Arts',
+    platform: Platform.STEAM,
+    region: Region.EUROPE,
+    discount: 'Summer Sale',
+    startDate: '2026-07-01',
+    startTime: '10:00',
+    endDate: '2026-07-14',
+    endTime: '18:00',
+    timezone: 'UTC',
+    percent: 25,
+    deadline: '',
+    implementationStatus: ImplementationStatus.COMPLETED,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+describe('getNextStatuses', () => {
+  it('offers the current status plus the moves allowed for the role', () => {
+    expect(getNextStatuses('implementationStatus', ImplementationStatus.PENDING, 'editor'))
+      .toEqual([ImplementationStatus.PENDING, ImplementationStatus.IN_PROGRESS]);
+    expect(getNextStatuses('implementationStatus', ImplementationStatus.PENDING, 'manager'))
+      .toEqual([ImplementationStatus.PENDING, ImplementationStatus.IN_PROGRESS, ImplementationStatus.CANCELLED]);
+  });
+
+  it('does not allow reopening a completed sales event', () => {
+    expect(canTransition('salesEventStatus', SalesEventStatus.COMPLETED, SalesEventStatus.ACTIVE, 'manager'))
+      .toBe(false);
+  });
+});
+
+describe('getScheduledSalesEventStatus', () => {
+  it('moves events forward as the start and end times pass', () => {
+    const record = createRecord();
+
+    expect(getScheduledSalesEventStatus(record, parseDateTime('2026-07-01', '09:59'))).toBeNull();
+    expect(getScheduledSalesEventStatus(record, parseDateTime('2026-07-01', '10:00'))).toBe(SalesEventStatus.ACTIVE);
+    expect(getScheduledSalesEventStatus(record, parseDateTime('2026-07-15'))).toBe(SalesEventStatus.COMPLETED);
+  });
+
+  it('leaves cancelled events and later statuses alone', () => {
+    const now = parseDateTime('2026-07-05');
+
+    expect(getScheduledSalesEventStatus(createRecord({ salesEventStatus: SalesEventStatus.CANCELLED }), now)).toBeNull();
+    expect(getScheduledSalesEventStatus(createRecord({ salesEventStatus: SalesEventStatus.COMPLETED }), now)).toBeNull();
+  });
+
+  it('does not start or complete events whose implementation is not completed', () => {
+    const record = createRecord({ implementationStatus: ImplementationStatus.IN_PROGRESS });
+
+    expect(getScheduledSalesEventStatus(record, parseDateTime('2026-07-05'))).toBeNull();
+    expect(getScheduledSalesEventStatus(record, parseDateTime('2026-07-15'))).toBeNull();
+  });
+});
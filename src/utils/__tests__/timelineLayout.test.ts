@@ -0,0 +1,91 @@
+/**
+ * Tests for timeline grouping, lane packing and hit testing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTimelineLayout, findBarAt } from '../timelineLayout';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+import { parseDateTime } from '../dateUtils';
+
+function createRecord(overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId: 'ORG_EA_000001',
+    client: 'Electronic Arts',
+    platform: Platform.STEAM,
+    region: Region.EUROPE,
+    discount: 'Summer Sale',
+    startDate: '2026-07-01',
+    startTime: '00:00',
+    endDate: '2026-07-10',
+    endTime: '00:00',
+    timezone: 'UTC',
+    percent: 25,
+    deadline: '',
+    implementationStatus: ImplementationStatus.COMPLETED,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+describe('buildTimelineLayout', () => {
+  it('packs overlapping windows into separate lanes and reuses free lanes', () => {
+    const layout = buildTimelineLayout([
+      createRecord({ clientId: 'A' }),
+      createRecord({ clientId: 'B', startDate: '2026-07-05', endDate: '2026-07-15' }),
+      createRecord({ clientId: 'C', startDate: '2026-07-10', endDate: '2026-07-20' })
+    ], 'client');
+
+    expect(layout.groups).toEqual([{ label: 'Electronic Arts', firstRow: 0, rowCount: 2, barCount: 3 }]);
+    expect(layout.rows.map(row => row.map(bar => bar.record.clientId))).toEqual([['A', 'C'], ['B']]);
+    expect(layout.minTime).toBe(parseDateTime('2026-07-01'));
+    expect(layout.maxTime).toBe(parseDateTime('2026-07-20'));
+  });
+
+  it('sorts groups by label and gives each group its own rows', () => {
+    const layout = buildTimelineLayout([
+      createRecord({ clientId: 'A', region: Region.NORTH_AMERICA }),
+      createRecord({ clientId: 'B', region: Region.EUROPE }),
+      createRecord({ clientId: 'C', region: Region.EUROPE })
+    ], 'region');
+
+    expect(layout.groups.map(group => group.label)).toEqual([Region.EUROPE, Region.NORTH_AMERICA]);
+    expect(layout.rowGroups).toEqual([0, 0, 1]);
+    expect(layout.rows[2][0].record.clientId).toBe('A');
+  });
+
+  it('leaves out records with invalid or reversed dates', () => {
+    const layout = buildTimelineLayout([
+      createRecord({ clientId: 'A', startDate: 'bad' }),
+      createRecord({ clientId: 'B', startDate: '2026-07-20' })
+    ], 'client');
+
+    expect(layout.rows).toEqual([]);
+    expect(layout.groups).toEqual([]);
+  });
+});
+
+describe('findBarAt', () => {
+  const layout = buildTimelineLayout([
+    createRecord({ clientId: 'A' }),
+    createRecord({ clientId: 'B', startDate: '2026-07-15', endDate: '2026-07-20' })
+  ], 'client');
+
+  it('finds the bar covering a time in a row', () => {
+    expect(findBarAt(layout, 0, parseDateTime('2026-07-16'))?.record.clientId).toBe('B');
+    expect(findBarAt(layout, 0, parseDateTime('2026-07-12'))).toBeNull();
+    expect(findBarAt(layout, 5, parseDateTime('2026-07-16'))).toBeNull();
+  });
+
+  it('allows some slack around the edges', () => {
+    const hour = 60 * 60 * 1000;
+    expect(findBarAt(layout, 0, parseDateTime('2026-07-10') + hour)).toBeNull();
+    expect(findBarAt(layout, 0, parseDateTime('2026-07-10') + hour, 2 * hour)?.record.clientId).toBe('A');
+  });
+});
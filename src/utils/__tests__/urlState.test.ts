@@ -0,0 +1,39 @@
+/**
+ * Tests for encoding grid state in the URL query string
+ */
+
+import { describe, it, expect } from 'vitest';
+import { decodeUrlState, encodeUrlState, hasUrlState, type UrlGridState } from '../urlState';
+
+const state: UrlGridState = {
+  filterModel: { platform: { filterType: 'set', values: ['Steam', 'GOG'] } },
+  sortModel: [{ colId: 'startDate', sort: 'asc' }, { colId: 'percent', sort: 'desc' }],
+  page: 2,
+  focusedRecord: 'ORG_EA_000042'
+};
+
+describe('urlState', () => {
+  it('round-trips filters, sort, page and focused record', () => {
+    const search = encodeUrlState(state);
+    expect(search).toContain('sort=startDate%3Aasc%2Cpercent%3Adesc');
+    expect(search).toContain('page=3');
+    expect(decodeUrlState(search)).toEqual(state);
+  });
+
+  it('leaves defaults out and keeps unrelated parameters', () => {
+    const empty: UrlGridState = { filterModel: {}, sortModel: [], page: 0, focusedRecord: null };
+    expect(encodeUrlState(empty)).toBe('');
+    expect(encodeUrlState(empty, '?debug=1&page=4')).toBe('?debug=1');
+    expect(hasUrlState('?debug=1')).toBe(false);
+    expect(hasUrlState('?record=ORG_EA_000042')).toBe(true);
+  });
+
+  it('ignores malformed parameters', () => {
+    expect(decodeUrlState('?filter=%7Bbroken&sort=client:sideways,region:asc&page=-2')).toEqual({
+      filterModel: {},
+      sortModel: [{ colId: 'region', sort: 'asc' }],
+      page: 0,
+      focusedRecord: null
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for the shared discount record validation rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateField, validateRecord, findPlatformRegionViolations } from '../validationRules';
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../../types/discount';
+
+function createRecord(overrides: Partial<DiscountRecord> = {}): DiscountRecord {
+  return {
+    clientId: 'ORG_EA_000001',
+    client: 'Electronic Arts',
+    platform: Platform.STEAM,
+    region: Region.EUROPE,
+    discount: 'Summer Sale',
+    startDate: '2026-07-01',
+    startTime: '10:00',
+    endDate: '2026-07-14',
+    endTime: '18:00',
+    timezone: 'UTC',
+    percent: 25,
+    deadline: '',
+    implementationStatus: ImplementationStatus.PENDING,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: '',
+    ...overrides
+  };
+}
+
+describe('validateField', () => {
+  it('checks required fields, ranges, formats and enum membership', () => {
+    expect(validateField('client', ' ')).toBe('Client is required');
+    expect(validateField('percent', 120)).toBe('Invalid percent "120" (expected 0-100)');
+    expect(validateField('startTime', '25:00')).toBe('Invalid start time "25:00" (expected HH:MM)');
+    expect(validateField('platform', 'Atari')).toBe('Invalid platform "Atari"');
+    expect(validateField('deadline', '')).toBeNull();
+  });
+});
+
+describe('validateRecord', () => {
+  it('accepts a valid record', () => {
+    expect(validateRecord(createRecord())).toEqual([]);
+  });
+
+  it('flags every date and time field when the end is not after the start', () => {
+    const errors = validateRecord(createRecord({ endDate: '2026-07-01', endTime: '09:00' }));
+
+    expect(errors.map(error => error.field)).toEqual(['startDate', 'startTime', 'endDate', 'endTime']);
+  });
+
+  it('skips cross-field rules while a field is invalid on its own', () => {
+    const errors = validateRecord(createRecord({ endDate: '2026-13-45' }));
+
+    expect(errors).toEqual([{ field: 'endDate', message: 'Invalid end date "2026-13-45" (expected YYYY-MM-DD)' }]);
+  });
+});
+
+describe('platform/region constraints', () => {
+  it('flags regions the platform does not support', () => {
+    const epicInLatam = createRecord({ platform: Platform.EPIC, region: Region.LATIN_AMERICA });
+
+    expect(validateRecord(epicInLatam)).toEqual([
+      { field: 'platform', message: 'Region "Latin America" is not available on Epic Games Store' },
+      { field: 'region', message: 'Region "Latin America" is not available on Epic Games Store' }
+    ]);
+    expect(findPlatformRegionViolations([createRecord(), epicInLatam])).toEqual([epicInLatam]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for the XLSX writer and reader
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readXlsxRows } from '../xlsxImport';
+import { createXlsxWorkbook, getXlsxRow } from '../xlsxExport';
+import { buildImportPreviewFromRows } from '../csvImport';
+import { CSV_COLUMNS } from '../csvExport';
+import { createZip, readZip } from '../zipArchive';
+import { generateTestData } from '../mockDataGenerator';
+import type { DiscountRecord } from '../../types/discount';
+
+async function writeWorkbook(records: DiscountRecord[], withSummary = false): Promise<Uint8Array> {
+  const blob = createXlsxWorkbook({
+    rowParts: [records.map((record, index) => getXlsxRow(record, index + 2)).join('')],
+    rowCount: records.length,
+    summaryRecords: withSummary ? records : undefined
+  });
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe('XLSX export and import', () => {
+  it('round-trips exported records as unchanged', async () => {
+    const records = generateTestData(20);
+    records[0] = { ...records[0], comments: 'Multi\nline, "quoted" <b>&</b>' };
+
+    const rows = await readXlsxRows(await writeWorkbook(records));
+    const preview = buildImportPreviewFromRows(rows, records, 'editor');
+
+    expect(rows[0]).toEqual(CSV_COLUMNS.map(column => column.header));
+    expect(preview.headerErrors).toEqual([]);
+    expect(preview.invalidRows).toEqual([]);
+    expect(preview.unchangedCount).toBe(20);
+  });
+
+  it('writes typed cells, formulas, a frozen filterable header and dropdowns', async () => {
+    const [record] = generateTestData(1);
+    const entries = await readZip(await writeWorkbook([{ ...record, startDate: '2026-03-01', percent: 35 }], true));
+    const sheet = new TextDecoder().decode(entries.get('xl/worksheets/sheet1.xml'));
+
+    expect(sheet).toContain('<c r="F2" s="2"><v>46082</v></c>');
+    expect(sheet).toContain('<c r="K2" s="4"><v>0.35</v></c>');
+    expect(sheet).toContain('<f>TEXT(F2,&quot;mmmm&quot;)</f><v>March</v>');
+    expect(sheet).toContain('state="frozen"');
+    expect(sheet).toContain('<autoFilter ref="A1:Q2"/>');
+    expect(sheet).toMatch(/<dataValidation type="list"[^>]*sqref="C2:C1002"><formula1>&quot;Steam,/);
+    expect(entries.has('xl/worksheets/sheet2.xml')).toBe(true);
+  });
+
+  it('reads shared strings and number formats as written by Excel', async () => {
+    const readRows = async (sheetData: string) => {
+      const workbook = await writeWorkbook([]);
+      const entries = await readZip(workbook);
+      const encoder = new TextEncoder();
+      const files = Array.from(entries, ([name, data]) => ({ name, data: [data] }));
+      const sheet = files.find(file => file.name === 'xl/worksheets/sheet1.xml')!;
+      sheet.data = [encoder.encode(`<worksheet><sheetData>${sheetData}</sheetData></worksheet>`)];
+      files.push({ name: 'xl/sharedStrings.xml', data: [encoder.encode('<sst><si><t>Client</t></si><si><r><t>Cap</t></r><r><t>com</t></r></si></sst>')] });
+      return readXlsxRows(new Uint8Array(await createZip(files).arrayBuffer()));
+    };
+
+    const rows = await readRows(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c></row>' +
+      '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="C3" s="2"><v>46082</v></c><c r="D3" s="3"><v>0.5625</v></c><c r="E3" s="4"><v>0.15</v></c></row>'
+    );
+
+    expect(rows).toEqual([['Client'], ['Capcom', '', '2026-03-01', '13:30', '15']]);
+  });
+
+  it('rejects files that are not workbooks', async () => {
+    await expect(readXlsxRows(new TextEncoder().encode('Client Id,Client\n'))).rejects.toThrow('not a ZIP archive');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for the ZIP archive writer and reader
+ */
+
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, readZip } from '../zipArchive';
+
+const encoder = new TextEncoder();
+
+/**
+ * Single-entry archive with deflated content, as spreadsheet applications write them
+ */
+async function createDeflatedZip(name: string, content: string): Promise<Uint8Array> {
+  const raw = encoder.encode(content);
+  const stream = new Blob([raw]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+  const nameBytes = encoder.encode(name);
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, 8, true);
+  local.setUint32(14, crc32([raw]), true);
+  local.setUint32(18, compressed.length, true);
+  local.setUint32(22, raw.length, true);
+  local.setUint16(26, nameBytes.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, 8, true);
+  central.setUint32(16, crc32([raw]), true);
+  central.setUint32(20, compressed.length, true);
+  central.setUint32(24, raw.length, true);
+  central.setUint16(28, nameBytes.length, true);
+
+  const centralOffset = 30 + nameBytes.length + compressed.length;
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + nameBytes.length, true);
+  end.setUint32(16, centralOffset, true);
+
+  const blob = new Blob([local, nameBytes, compressed, central, nameBytes, end]);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe('zipArchive', () => {
+  it('computes the standard CRC-32 over content in parts', () => {
+    expect(crc32([encoder.encode('1234'), encoder.encode('56789')])).toBe(0xcbf43926);
+  });
+
+  it('reads back the entries it writes', async () => {
+    const blob = createZip([
+      { name: 'a.txt', data: [encoder.encode('hello '), encoder.encode('world')] },
+      { name: 'dir/ü.xml', data: [encoder.encode('<x/>')] }
+    ]);
+    const entries = await readZip(new Uint8Array(await blob.arrayBuffer()));
+    const decoder = new TextDecoder();
+
+    expect(Array.from(entries.keys())).toEqual(['a.txt', 'dir/ü.xml']);
+    expect(decoder.decode(entries.get('a.txt'))).toBe('hello world');
+    expect(decoder.decode(entries.get('dir/ü.xml'))).toBe('<x/>');
+  });
+
+  it('inflates deflated entries', async () => {
+    const content = 'row,'.repeat(1000);
+    const entries = await readZip(await createDeflatedZip('sheet.xml', content));
+
+    expect(new TextDecoder().decode(entries.get('sheet.xml'))).toBe(content);
+  });
+});
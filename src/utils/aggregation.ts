@@ -0,0 +1,203 @@
+/**
+ * Grouped aggregates over discount records for the analytics panel
+ * Records are grouped by one or two dimensions in a single pass and summarised per group
+ */
+
+import type { DiscountRecord } from '../types/discount';
+import { calculateDuration } from './dateUtils';
+
+export type AggregateDimension =
+  | 'client'
+  | 'platform'
+  | 'region'
+  | 'month'
+  | 'implementationStatus'
+  | 'salesEventStatus';
+
+export type AggregateMetric = 'count' | 'avgPercent' | 'minPercent' | 'maxPercent' | 'discountDays';
+
+// Dimensions records can be grouped by, in display order
+export const AGGREGATE_DIMENSIONS: { key: AggregateDimension; label: string }[] = [
+  { key: 'client', label: 'Client' },
+  { key: 'platform', label: 'Platform' },
+  { key: 'region', label: 'Region' },
+  { key: 'month', label: 'Start Month' },
+  { key: 'implementationStatus', label: 'Implementation Status' },
+  { key: 'salesEventStatus', label: 'Sales Event Status' }
+];
+
+// Metrics computed for every group
+export const AGGREGATE_METRICS: { key: AggregateMetric; label: string }[] = [
+  { key: 'count', label: 'Count' },
+  { key: 'avgPercent', label: 'Avg Percent' },
+  { key: 'minPercent', label: 'Min Percent' },
+  { key: 'maxPercent', label: 'Max Percent' },
+  { key: 'discountDays', label: 'Discount-Days' }
+];
+
+// Summary of a group of records; percent metrics are null for an empty group
+export interface AggregateValues {
+  count: number;
+  avgPercent: number | null;
+  minPercent: number | null;
+  maxPercent: number | null;
+  discountDays: number;
+}
+
+export interface AggregateRow {
+  key: string;
+  values: AggregateValues;
+}
+
+export interface PivotTable {
+  rowKeys: string[];
+  columnKeys: string[];
+  cells: (AggregateValues | null)[][]; // [row][column], null when no records fall in the cell
+  rowTotals: AggregateValues[];
+  columnTotals: AggregateValues[];
+  grandTotal: AggregateValues;
+}
+
+// Running totals for a group while scanning records
+interface Accumulator {
+  count: number;
+  percentSum: number;
+  minPercent: number;
+  maxPercent: number;
+  discountDays: number;
+}
+
+function createAccumulator(): Accumulator {
+  return { count: 0, percentSum: 0, minPercent: Infinity, maxPercent: -Infinity, discountDays: 0 };
+}
+
+function accumulate(accumulator: Accumulator, percent: number, days: number) {
+  accumulator.count++;
+  accumulator.percentSum += percent;
+  if (percent < accumulator.minPercent) accumulator.minPercent = percent;
+  if (percent > accumulator.maxPercent) accumulator.maxPercent = percent;
+  accumulator.discountDays += days;
+}
+
+function finalize(accumulator: Accumulator): AggregateValues {
+  const { count } = accumulator;
+  return {
+    count,
+    avgPercent: count > 0 ? Math.round((accumulator.percentSum / count) * 10) / 10 : null,
+    minPercent: count > 0 ? accumulator.minPercent : null,
+    maxPercent: count > 0 ? accumulator.maxPercent : null,
+    discountDays: Math.round(accumulator.discountDays * 10) / 10
+  };
+}
+
+/**
+ * Group key of a record for a dimension; months are yyyy-mm so different years stay apart
+ */
+export function getDimensionValue(record: DiscountRecord, dimension: AggregateDimension): string {
+  if (dimension === 'month') {
+    return /^\d{4}-\d{2}/.test(record.startDate) ? record.startDate.slice(0, 7) : '';
+  }
+  return String(record[dimension] ?? '');
+}
+
+/**
+ * Display label for a group key
+ */
+export function formatDimensionValue(value: string, dimension: AggregateDimension): string {
+  if (value === '') return '(none)';
+  if (dimension === 'month') {
+    const [year, month] = value.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-US', {
+      month: 'short', year: 'numeric', timeZone: 'UTC'
+    });
+  }
+  return value;
+}
+
+/**
+ * Length of a record's discount window in days, using the value precomputed by the data store
+ */
+function getDiscountDays(record: DiscountRecord): number {
+  return record.length ?? calculateDuration(record, 'days');
+}
+
+/**
+ * Aggregate records grouped by one dimension, sorted by group key
+ */
+export function aggregateBy(records: readonly DiscountRecord[], dimension: AggregateDimension): AggregateRow[] {
+  const groups = new Map<string, Accumulator>();
+
+  records.forEach(record => {
+    const key = getDimensionValue(record, dimension);
+    let accumulator = groups.get(key);
+    if (!accumulator) {
+      accumulator = createAccumulator();
+      groups.set(key, accumulator);
+    }
+    accumulate(accumulator, record.percent, getDiscountDays(record));
+  });
+
+  return Array.from(groups.keys())
+    .sort((a, b) => a.localeCompare(b))
+    .map(key => ({ key, values: finalize(groups.get(key)!) }));
+}
+
+/**
+ * Aggregate records into a pivot table of one dimension against another, with row, column and grand totals
+ * Without a column dimension every record falls in a single column and the row totals are the groups
+ */
+export function buildPivotTable(
+  records: readonly DiscountRecord[],
+  rowDimension: AggregateDimension,
+  columnDimension: AggregateDimension | null
+): PivotTable {
+  const cells = new Map<string, Map<string, Accumulator>>();
+  const rowTotals = new Map<string, Accumulator>();
+  const columnTotals = new Map<string, Accumulator>();
+  const grandTotal = createAccumulator();
+
+  records.forEach(record => {
+    const rowKey = getDimensionValue(record, rowDimension);
+    const columnKey = columnDimension ? getDimensionValue(record, columnDimension) : '';
+    const percent = record.percent;
+    const days = getDiscountDays(record);
+
+    let row = cells.get(rowKey);
+    if (!row) {
+      row = new Map();
+      cells.set(rowKey, row);
+      rowTotals.set(rowKey, createAccumulator());
+    }
+    let cell = row.get(columnKey);
+    if (!cell) {
+      cell = createAccumulator();
+      row.set(columnKey, cell);
+    }
+    if (!columnTotals.has(columnKey)) {
+      columnTotals.set(columnKey, createAccumulator());
+    }
+
+    accumulate(cell, percent, days);
+    accumulate(rowTotals.get(rowKey)!, percent, days);
+    accumulate(columnTotals.get(columnKey)!, percent, days);
+    accumulate(grandTotal, percent, days);
+  });
+
+  const rowKeys = Array.from(cells.keys()).sort((a, b) => a.localeCompare(b));
+  const columnKeys = Array.from(columnTotals.keys()).sort((a, b) => a.localeCompare(b));
+
+  return {
+    rowKeys,
+    columnKeys,
+    cells: rowKeys.map(rowKey => {
+      const row = cells.get(rowKey)!;
+      return columnKeys.map(columnKey => {
+        const cell = row.get(columnKey);
+        return cell ? finalize(cell) : null;
+      });
+    }),
+    rowTotals: rowKeys.map(key => finalize(rowTotals.get(key)!)),
+    columnTotals: columnKeys.map(key => finalize(columnTotals.get(key)!)),
+    grandTotal: finalize(grandTotal)
+  };
+}
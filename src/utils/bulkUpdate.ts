@@ -0,0 +1,211 @@
+/**
+ * Bulk update operations on discount records
+ * Each field gets one operation: overwrite it, or change it relative to its current value, such as shifting a
+ * date, adding to the percent, replacing text or appending to it. A dry run previews the result of every
+ * selected row, checked with the shared validation rules and the status transitions the user's role allows.
+ */
+
+import {
+  type BulkEditableField,
+  type BulkFieldOperation,
+  type BulkOperationType,
+  type BulkUpdateData,
+  type DiscountRecord,
+  type UserRole,
+  DISCOUNT_RECORD_FIELDS
+} from '../types/discount';
+import { addDays } from './dateUtils';
+import { canTransition, type StatusField } from './statusTransitions';
+import { DISCOUNT_RECORD_SCHEMA, getErrorMessages, validateField, validateRecord } from './validationRules';
+
+// Fields a bulk update may change, in column order
+export const BULK_EDITABLE_FIELDS = DISCOUNT_RECORD_FIELDS.filter(
+  (field): field is BulkEditableField => field !== 'clientId'
+);
+
+// Form labels for each operation type
+export const BULK_OPERATION_LABELS: Record<BulkOperationType, string> = {
+  set: 'Set to',
+  shiftDays: 'Shift by days',
+  adjust: 'Add',
+  replace: 'Find and replace',
+  append: 'Append'
+};
+
+const STATUS_FIELDS: StatusField[] = ['implementationStatus', 'salesEventStatus'];
+
+// A selected record with the result of a bulk update, computed without saving anything
+export interface BulkUpdatePreviewRow {
+  before: DiscountRecord;
+  after: DiscountRecord;
+  changedFields: BulkEditableField[];
+  errors: string[]; // Validation errors of the result; rows with errors can still be applied on request
+  forbidden: string[]; // Status changes the user's role may not make; such rows are never applied
+}
+
+export interface BulkUpdatePreview {
+  update: BulkUpdateData;
+  validRows: BulkUpdatePreviewRow[]; // Changed and valid
+  invalidRows: BulkUpdatePreviewRow[]; // Changed, with errors or forbidden status changes
+  unchangedCount: number; // Rows the update leaves as they are
+  totalRows: number;
+}
+
+// Which rows of a preview are saved
+export type BulkApplyMode = 'valid' | 'all';
+
+/**
+ * Label of an editable field, from the validation schema
+ */
+export function getBulkFieldLabel(field: BulkEditableField): string {
+  return DISCOUNT_RECORD_SCHEMA[field]?.label ?? field;
+}
+
+/**
+ * Operations that apply to a field, by its schema type
+ */
+export function getBulkOperationTypes(field: BulkEditableField): BulkOperationType[] {
+  switch (DISCOUNT_RECORD_SCHEMA[field]?.type) {
+    case 'date':
+      return ['set', 'shiftDays'];
+    case 'number':
+      return ['set', 'adjust'];
+    case 'text':
+      return ['set', 'replace', 'append'];
+    default:
+      return ['set'];
+  }
+}
+
+/**
+ * Check every operation on its own, before it is applied to any record
+ * Returns one message per problem; an empty list means the update can be applied
+ */
+export function validateBulkUpdate(update: BulkUpdateData): string[] {
+  const errors: string[] = [];
+
+  (Object.keys(update) as BulkEditableField[]).forEach(field => {
+    const operation = update[field];
+    if (!operation) return;
+
+    const label = getBulkFieldLabel(field);
+    if (!getBulkOperationTypes(field).includes(operation.type)) {
+      errors.push(`${label} cannot be changed with "${BULK_OPERATION_LABELS[operation.type]}"`);
+      return;
+    }
+
+    switch (operation.type) {
+      case 'set': {
+        const message = validateField(field, operation.value);
+        if (message) errors.push(message);
+        break;
+      }
+      case 'shiftDays':
+        if (!Number.isInteger(operation.days) || operation.days === 0) {
+          errors.push(`${label} shift must be a whole number of days other than 0`);
+        }
+        break;
+      case 'adjust':
+        if (!Number.isFinite(operation.amount) || operation.amount === 0) {
+          errors.push(`${label} change must be a number other than 0`);
+        }
+        break;
+      case 'replace':
+        if (operation.find === '') {
+          errors.push(`Text to find in ${label.toLowerCase()} is required`);
+        }
+        break;
+      case 'append':
+        if (operation.text.trim() === '') {
+          errors.push(`Text to append to ${label.toLowerCase()} is required`);
+        }
+        break;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * New value of a field after an operation
+ */
+function applyOperation(
+  record: DiscountRecord,
+  field: BulkEditableField,
+  operation: BulkFieldOperation
+): string | number {
+  const current = record[field];
+  const schema = DISCOUNT_RECORD_SCHEMA[field];
+
+  switch (operation.type) {
+    case 'set':
+      return schema?.type === 'number' ? Number(operation.value) : String(operation.value);
+    case 'shiftDays':
+      return addDays(String(current), operation.days);
+    case 'adjust': {
+      const value = Number(current) + operation.amount;
+      return Math.min(schema?.max ?? Infinity, Math.max(schema?.min ?? -Infinity, value));
+    }
+    case 'replace':
+      return String(current ?? '').split(operation.find).join(operation.replacement);
+    case 'append': {
+      // Separate appended text from existing text with a space
+      const text = String(current ?? '');
+      return text.trim() === '' ? operation.text : `${text} ${operation.text}`;
+    }
+  }
+}
+
+/**
+ * Record with every operation of an update applied
+ */
+export function applyBulkUpdate(record: DiscountRecord, update: BulkUpdateData): DiscountRecord {
+  const updated: DiscountRecord = { ...record };
+  (Object.keys(update) as BulkEditableField[]).forEach(field => {
+    const operation = update[field];
+    if (operation) {
+      (updated as unknown as Record<string, string | number>)[field] = applyOperation(record, field, operation);
+    }
+  });
+  return updated;
+}
+
+/**
+ * Status changes between two versions of a record that a role may not make
+ */
+export function getForbiddenStatusChanges(before: DiscountRecord, after: DiscountRecord, role: UserRole): string[] {
+  return STATUS_FIELDS
+    .filter(field => !canTransition(field, before[field], after[field], role))
+    .map(field => {
+      const label = getBulkFieldLabel(field).toLowerCase();
+      return `The ${role} role cannot change ${label} from ${before[field]} to ${after[field]}`;
+    });
+}
+
+/**
+ * Dry run of an update on one record: the result, what changes and why it could not be saved
+ */
+export function previewBulkUpdateRow(
+  record: DiscountRecord,
+  update: BulkUpdateData,
+  role: UserRole
+): BulkUpdatePreviewRow {
+  const after = applyBulkUpdate(record, update);
+  const changedFields = BULK_EDITABLE_FIELDS.filter(field => after[field] !== record[field]);
+  return {
+    before: record,
+    after,
+    changedFields,
+    errors: changedFields.length > 0 ? getErrorMessages(validateRecord(after)) : [],
+    forbidden: getForbiddenStatusChanges(record, after, role)
+  };
+}
+
+/**
+ * Rows of a preview that an apply mode saves: valid rows only, or every changed row the role may change
+ */
+export function getRowsToApply(preview: BulkUpdatePreview, mode: BulkApplyMode): BulkUpdatePreviewRow[] {
+  return mode === 'valid'
+    ? preview.validRows
+    : [...preview.validRows, ...preview.invalidRows.filter(row => row.forbidden.length === 0)];
+}
@@ -0,0 +1,356 @@
+/**
+ * Detection of overlapping discounts for the same client, platform and region
+ * Platforms reject overlapping discount windows, so these must be flagged before submission
+ */
+
+import { type DiscountRecord, SalesEventStatus } from '../types/discount';
+import { getStartInstant, getEndInstant } from './dateUtils';
+
+// A discount window prepared for the sweep
+interface Interval {
+  number: number; // Record of the window, as numbered by the tracker
+  key: string; // Group of the record
+  start: number;
+  end: number;
+}
+
+// Windows of one client/platform/region sorted by start, as record numbers with their starts and ends
+// alongside, so searches and rebuilds read packed numbers and the groups hold no objects
+interface IntervalGroup {
+  numbers: Int32Array;
+  starts: Float64Array;
+  ends: Float64Array;
+  longest: number; // No window in the group is longer; bounds how far back an overlap can start
+}
+
+/**
+ * Build the grouping key for records that must not overlap
+ */
+export function getConflictKey(record: DiscountRecord): string {
+  return `${record.client}|${record.platform}|${record.region}`;
+}
+
+/**
+ * Discount window of a record with its number, or null when it cannot conflict
+ * Cancelled sales events and records with invalid dates are ignored; computed instants are used when present
+ */
+function toInterval(record: DiscountRecord, number: number): Interval | null {
+  if (record.salesEventStatus === SalesEventStatus.CANCELLED) return null;
+
+  const start = record.startInstant ?? getStartInstant(record);
+  const end = record.endInstant ?? getEndInstant(record);
+  if (isNaN(start) || isNaN(end) || end <= start) return null;
+
+  return { number, key: getConflictKey(record), start, end };
+}
+
+/**
+ * Add a value to the list under a key, starting the list when there is none
+ */
+function appendTo<K, T>(lists: Map<K, T[]>, key: K, value: T) {
+  const list = lists.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    lists.set(key, [value]);
+  }
+}
+
+/**
+ * Sweep the sorted windows of one group once, adding every overlap to conflicts
+ */
+function sweepGroup(group: Interval[], clientIds: readonly string[], conflicts: Map<string, string[]>) {
+  // Windows that are still open at the current start time
+  let active: Interval[] = [];
+
+  group.forEach(interval => {
+    // Windows ending at or before this start do not overlap (touching is allowed)
+    active = active.filter(open => open.end > interval.start);
+
+    active.forEach(open => {
+      appendTo(conflicts, clientIds[interval.number], clientIds[open.number]);
+      appendTo(conflicts, clientIds[open.number], clientIds[interval.number]);
+    });
+
+    active.push(interval);
+  });
+}
+
+/**
+ * Group of windows that are already sorted by start
+ */
+function createGroup(intervals: Interval[]): IntervalGroup {
+  const numbers = new Int32Array(intervals.length);
+  const starts = new Float64Array(intervals.length);
+  const ends = new Float64Array(intervals.length);
+  let longest = 0;
+  intervals.forEach((interval, i) => {
+    numbers[i] = interval.number;
+    starts[i] = interval.start;
+    ends[i] = interval.end;
+    longest = Math.max(longest, interval.end - interval.start);
+  });
+  return { numbers, starts, ends, longest };
+}
+
+/**
+ * Position of the first window in a group that starts at or after a time
+ */
+function findFirstStart(group: IntervalGroup, time: number): number {
+  let low = 0;
+  let high = group.starts.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (group.starts[middle] < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Numbers of the windows of a group that overlap a window, other than the window itself
+ * Only windows starting within the group's longest window before it can still be open when it starts
+ */
+function findOverlaps(group: IntervalGroup, interval: Interval): number[] {
+  const { numbers, starts, ends } = group;
+  const overlaps: number[] = [];
+  for (let i = findFirstStart(group, interval.start - group.longest); i < starts.length && starts[i] < interval.end; i++) {
+    if (ends[i] > interval.start && numbers[i] !== interval.number) overlaps.push(numbers[i]);
+  }
+  return overlaps;
+}
+
+/**
+ * Group without some of its windows and with others added, still sorted by start; null when none are left
+ */
+function rebuildGroup(group: IntervalGroup | undefined, departed: Interval[], added: Interval[]): IntervalGroup | null {
+  const { numbers = new Int32Array(0), starts = new Float64Array(0), ends = new Float64Array(0), longest = 0 } =
+    group ?? {};
+
+  // Departed windows are found among the windows with the same start, by number
+  const dropped = new Uint8Array(numbers.length);
+  departed.forEach(interval => {
+    let position = findFirstStart(group!, interval.start);
+    while (numbers[position] !== interval.number) position++;
+    dropped[position] = 1;
+  });
+
+  added.sort((a, b) => a.start - b.start);
+  const size = numbers.length - departed.length + added.length;
+  if (size === 0) return null;
+
+  const merged: IntervalGroup = {
+    numbers: new Int32Array(size),
+    starts: new Float64Array(size),
+    ends: new Float64Array(size),
+    longest
+  };
+  let i = 0;
+  let j = 0;
+  for (let write = 0; write < size; write++) {
+    while (i < numbers.length && dropped[i] === 1) i++;
+    if (i < numbers.length && (j >= added.length || starts[i] <= added[j].start)) {
+      merged.numbers[write] = numbers[i];
+      merged.starts[write] = starts[i];
+      merged.ends[write] = ends[i];
+      i++;
+    } else {
+      const interval = added[j++];
+      merged.numbers[write] = interval.number;
+      merged.starts[write] = interval.start;
+      merged.ends[write] = interval.end;
+      merged.longest = Math.max(merged.longest, interval.end - interval.start);
+    }
+  }
+  return merged;
+}
+
+export type ConflictTracker = ReturnType<typeof createConflictTracker>;
+
+/**
+ * Conflicts kept per client/platform/region group, with each group's windows sorted by start
+ * A change looks up the overlaps of the windows it adds or moves by binary search in their group,
+ * so the conflicts of every other record stay as they are without sweeping the group again
+ */
+export function createConflictTracker() {
+  const groups = new Map<string, IntervalGroup>();
+
+  // Number of every clientId seen, with the clientId and current window of each number, held in
+  // plain arrays; numbers are kept when records are removed, so records that come back reuse them
+  const numberById = new Map<string, number>();
+  let clientIds: string[] = [];
+  let windowKeys: (string | null)[] = []; // Group of each record's window, null when it has none
+  let windowStarts: number[] = [];
+  let windowEnds: number[] = [];
+  let conflicts = new Map<string, string[]>();
+
+  /**
+   * Number of a record, numbering it when it is new
+   */
+  function getNumber(clientId: string): number {
+    let number = numberById.get(clientId);
+    if (number === undefined) {
+      number = clientIds.length;
+      numberById.set(clientId, number);
+      clientIds.push(clientId);
+      windowKeys.push(null);
+      windowStarts.push(NaN);
+      windowEnds.push(NaN);
+    }
+    return number;
+  }
+
+  /**
+   * Make a window the current one of its record
+   */
+  function setWindow(interval: Interval) {
+    windowKeys[interval.number] = interval.key;
+    windowStarts[interval.number] = interval.start;
+    windowEnds[interval.number] = interval.end;
+  }
+
+  /**
+   * Track a new set of records, sweeping every group
+   * Returns a map of clientId to the clientIds of the records it overlaps with
+   */
+  function reset(records: readonly DiscountRecord[]): Map<string, string[]> {
+    groups.clear();
+    numberById.clear();
+    clientIds = [];
+    windowKeys = [];
+    windowStarts = [];
+    windowEnds = [];
+    const grouped = new Map<string, Interval[]>();
+    records.forEach(record => {
+      const interval = toInterval(record, getNumber(record.clientId));
+      if (!interval) return;
+
+      appendTo(grouped, interval.key, interval);
+      setWindow(interval);
+    });
+
+    conflicts = new Map();
+    grouped.forEach((intervals, key) => {
+      intervals.sort((a, b) => a.start - b.start);
+      groups.set(key, createGroup(intervals));
+      sweepGroup(intervals, clientIds, conflicts);
+    });
+    return conflicts;
+  }
+
+  /**
+   * Apply saved or added records and removed ids
+   * Old windows leave their groups with their conflicts, then the overlaps of the new windows are looked up
+   * Returns a new map when any conflicts may have changed, so watchers see the change
+   */
+  function update(changed: readonly DiscountRecord[], removedIds: readonly string[] = []): Map<string, string[]> {
+    // Old windows leaving each group with the clientIds of their records, and the new windows joining each group
+    const departing = new Map<string, Interval[]>();
+    const leavingIds = new Set<string>();
+    const joining = new Map<string, Interval[]>();
+    const joiningNumbers = new Set<number>();
+    const touchedKeys = new Set<string>();
+
+    const leave = (number: number) => {
+      const key = windowKeys[number];
+      if (key === null) return;
+
+      appendTo(departing, key, { number, key, start: windowStarts[number], end: windowEnds[number] });
+      leavingIds.add(clientIds[number]);
+      touchedKeys.add(key);
+      windowKeys[number] = null;
+    };
+
+    removedIds.forEach(clientId => {
+      const number = numberById.get(clientId);
+      if (number !== undefined) leave(number);
+    });
+    changed.forEach(record => {
+      const number = getNumber(record.clientId);
+      const interval = toInterval(record, number);
+      // A window that did not move keeps its conflicts, as when only the percent or comments change
+      if (interval && interval.key === windowKeys[number] && interval.start === windowStarts[number] &&
+        interval.end === windowEnds[number]) {
+        return;
+      }
+
+      leave(number);
+      if (!interval) return;
+
+      setWindow(interval);
+      joiningNumbers.add(number);
+      touchedKeys.add(interval.key);
+      appendTo(joining, interval.key, interval);
+    });
+    if (touchedKeys.size === 0) return conflicts;
+
+    // Lists are shared with the previous map, so each one is copied before its first change
+    const next = new Map(conflicts);
+    const owned = new Set<string>();
+    const getOwnList = (clientId: string): string[] => {
+      const list = next.get(clientId);
+      if (list && owned.has(clientId)) return list;
+      const copy = list ? [...list] : [];
+      next.set(clientId, copy);
+      owned.add(clientId);
+      return copy;
+    };
+
+    // Drop the old conflicts of leaving windows from both sides
+    leavingIds.forEach(clientId => {
+      next.get(clientId)?.forEach(otherId => {
+        if (leavingIds.has(otherId)) return;
+        const list = next.get(otherId)!.filter(id => id !== clientId);
+        if (list.length > 0) {
+          next.set(otherId, list);
+          owned.add(otherId);
+        } else {
+          next.delete(otherId);
+        }
+      });
+      next.delete(clientId);
+    });
+
+    // Rebuild the sorted windows of every touched group
+    touchedKeys.forEach(key => {
+      const group = rebuildGroup(groups.get(key), departing.get(key) ?? [], joining.get(key) ?? []);
+      if (group) {
+        groups.set(key, group);
+      } else {
+        groups.delete(key);
+      }
+    });
+
+    // New windows list every overlap; other windows only gain the new ones, which list themselves
+    joining.forEach((intervals, key) => {
+      const group = groups.get(key)!;
+      intervals.forEach(interval => {
+        const clientId = clientIds[interval.number];
+        findOverlaps(group, interval).forEach(other => {
+          getOwnList(clientId).push(clientIds[other]);
+          if (!joiningNumbers.has(other)) getOwnList(clientIds[other]).push(clientId);
+        });
+      });
+    });
+
+    conflicts = next;
+    return conflicts;
+  }
+
+  return { reset, update };
+}
+
+/**
+ * Find overlapping discount windows
+ * Returns a map of clientId to the clientIds of the records it overlaps with
+ *
+ * Records are grouped by client/platform/region and each group is sorted by start
+ * and swept once, so the cost is O(n log n) plus the number of conflicts found.
+ * Cancelled sales events and records with invalid dates are ignored.
+ */
+export function detectConflicts(records: readonly DiscountRecord[]): Map<string, string[]> {
+  return createConflictTracker().reset(records);
+}
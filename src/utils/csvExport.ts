@@ -2,73 +2,173 @@
  * CSV export functionality for discount data
  */
 
-import type { DiscountRecord } from '../types/discount';
-import { getMonthName, calculateDaysBetween } from './dateUtils';
+import type { AuditEntry, DiscountRecord } from '../types/discount';
+import { getMonthName, calculateDuration } from './dateUtils';
+
+export type CSVDelimiter = ',' | ';' | '\t';
+
+// Delimiters offered for export; Excel in many European locales expects semicolons
+export const CSV_DELIMITERS: { value: CSVDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' }
+];
+
+export type DateFormat = 'iso' | 'dmy' | 'mdy';
+
+// Date layouts offered for export
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+  { value: 'iso', label: 'yyyy-mm-dd' },
+  { value: 'dmy', label: 'dd/mm/yyyy' },
+  { value: 'mdy', label: 'mm/dd/yyyy' }
+];
+
+export type DecimalSeparator = '.' | ',';
+
+const UTF8_BOM = '\uFEFF';
+
+// Date fields, written in the chosen date format
+export const DATE_FIELDS = new Set<keyof DiscountRecord>(['startDate', 'endDate', 'deadline']);
+
+/**
+ * Column layout shared by CSV export and import
+ * Computed columns (Month, Length) are written on export and ignored on import
+ * Optional columns may be left out of imported files
+ */
+export const CSV_COLUMNS: {
+  header: string;
+  field: keyof DiscountRecord;
+  computed?: boolean;
+  optional?: boolean;
+}[] = [
+  { header: 'Client Id', field: 'clientId' },
+  { header: 'Client', field: 'client' },
+  { header: 'Platform', field: 'platform' },
+  { header: 'Region', field: 'region' },
+  { header: 'Discount', field: 'discount' },
+  { header: 'Start Date', field: 'startDate' },
+  { header: 'Start Time', field: 'startTime' },
+  { header: 'End Date', field: 'endDate' },
+  { header: 'End Time', field: 'endTime' },
+  { header: 'Timezone', field: 'timezone', optional: true },
+  { header: 'Percent', field: 'percent' },
+  { header: 'Deadline', field: 'deadline' },
+  { header: 'Implementation Status', field: 'implementationStatus' },
+  { header: 'Sales Event Status', field: 'salesEventStatus' },
+  { header: 'Comments', field: 'comments' },
+  { header: 'Month', field: 'month', computed: true },
+  { header: 'Length (Days)', field: 'length', computed: true }
+];
+
+// How exported CSV files are written
+export interface CSVFormat {
+  delimiter: CSVDelimiter;
+  columns: (keyof DiscountRecord)[]; // Written in this order
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+}
+
+// Every column in layout order, as the import expects
+export const DEFAULT_CSV_FORMAT: CSVFormat = {
+  delimiter: ',',
+  columns: CSV_COLUMNS.map(column => column.field),
+  dateFormat: 'iso',
+  decimalSeparator: '.'
+};
+
+/**
+ * Header text of an exportable field
+ */
+export function getColumnHeader(field: keyof DiscountRecord): string {
+  return CSV_COLUMNS.find(column => column.field === field)?.header ?? field;
+}
+
+/**
+ * Value of a column for export, with Month and Length computed when the record lacks them
+ * Percent and Length are numbers, everything else text
+ */
+export function getExportValue(record: DiscountRecord, field: keyof DiscountRecord): string | number {
+  switch (field) {
+    case 'percent':
+      return record.percent;
+    case 'length':
+      return record.length ?? calculateDuration(record, 'days');
+    case 'month':
+      return getMonthName(record.startDate);
+    default:
+      return String(record[field] ?? '');
+  }
+}
+
+/**
+ * Rewrite a yyyy-mm-dd date in another layout; other text is left as it is
+ */
+export function formatExportDate(value: string, dateFormat: DateFormat): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match || dateFormat === 'iso') return value;
+  const [, year, month, day] = match;
+  return dateFormat === 'dmy' ? `${day}/${month}/${year}` : `${month}/${day}/${year}`;
+}
+
+/**
+ * Text of a column for export, with dates and numbers in the chosen formats
+ */
+export function formatExportValue(
+  record: DiscountRecord,
+  field: keyof DiscountRecord,
+  format: Pick<CSVFormat, 'dateFormat' | 'decimalSeparator'>
+): string {
+  const value = getExportValue(record, field);
+  if (typeof value === 'number') {
+    return format.decimalSeparator === ',' ? String(value).replace('.', ',') : String(value);
+  }
+  return DATE_FIELDS.has(field) ? formatExportDate(value, format.dateFormat) : value;
+}
+
+/**
+ * CSV header line for discount records
+ */
+export function getCSVHeader(format: Partial<CSVFormat> = {}): string {
+  const { delimiter, columns } = { ...DEFAULT_CSV_FORMAT, ...format };
+  return columns.map(field => escapeCSVValue(getColumnHeader(field), delimiter)).join(delimiter);
+}
+
+/**
+ * Converter from records to CSV lines, with the format resolved once for many rows
+ */
+export function createCSVRowWriter(format: Partial<CSVFormat> = {}): (record: DiscountRecord) => string {
+  const resolved = { ...DEFAULT_CSV_FORMAT, ...format };
+  const { delimiter, columns } = resolved;
+  return record => columns.map(field => escapeCSVValue(formatExportValue(record, field, resolved), delimiter)).join(delimiter);
+}
+
+/**
+ * Convert one discount record to a CSV line
+ */
+export function convertRecordToCSVRow(record: DiscountRecord, format: Partial<CSVFormat> = {}): string {
+  return createCSVRowWriter(format)(record);
+}
 
 /**
  * Convert discount records to CSV format
  */
-export function convertToCSV(records: DiscountRecord[]): string {
+export function convertToCSV(records: DiscountRecord[], format: Partial<CSVFormat> = {}): string {
   if (records.length === 0) {
     return '';
   }
 
-  // Define headers
-  const headers = [
-    'Client Id',
-    'Client',
-    'Platform',
-    'Region',
-    'Discount',
-    'Start Date',
-    'Start Time',
-    'End Date',
-    'End Time',
-    'Percent',
-    'Deadline',
-    'Implementation Status',
-    'Sales Event Status',
-    'Comments',
-    'Month',
-    'Length (Days)'
-  ];
-
-  // Convert records to CSV rows
-  const rows = records.map(record => {
-    const month = getMonthName(record.startDate);
-    const length = calculateDaysBetween(record.startDate, record.endDate);
-    
-    return [
-      escapeCSVValue(record.clientId),
-      escapeCSVValue(record.client),
-      escapeCSVValue(record.platform),
-      escapeCSVValue(record.region),
-      escapeCSVValue(record.discount),
-      escapeCSVValue(record.startDate),
-      escapeCSVValue(record.startTime),
-      escapeCSVValue(record.endDate),
-      escapeCSVValue(record.endTime),
-      record.percent.toString(),
-      escapeCSVValue(record.deadline),
-      escapeCSVValue(record.implementationStatus),
-      escapeCSVValue(record.salesEventStatus),
-      escapeCSVValue(record.comments),
-      escapeCSVValue(month),
-      length.toString()
-    ].join(',');
-  });
-
-  return [headers.join(','), ...rows].join('\n');
+  const writeRow = createCSVRowWriter(format);
+  return [getCSVHeader(format), ...records.map(writeRow)].join('\n');
 }
 
 /**
- * Escape CSV values that contain commas, quotes, or newlines
+ * Escape CSV values that contain the delimiter, quotes, or newlines
  */
-function escapeCSVValue(value: string | number): string {
+function escapeCSVValue(value: string | number, delimiter: CSVDelimiter = ','): string {
   const stringValue = String(value);
   
-  // If the value contains comma, quote, or newline, wrap in quotes and escape existing quotes
-  if (stringValue.includes(',') || stringValue.includes('"') || stringValue.includes('\n')) {
+  // If the value contains the delimiter, a quote, or a line break, wrap in quotes and escape existing quotes
+  if (/["\r\n]/.test(stringValue) || stringValue.includes(delimiter)) {
     return `"${stringValue.replace(/"/g, '""')}"`;
   }
   
@@ -76,12 +176,29 @@ function escapeCSVValue(value: string | number): string {
 }
 
 /**
- * Download CSV file
+ * Convert audit log entries to CSV format
  */
-export function downloadCSV(records: DiscountRecord[], filename: string = 'discount-data.csv'): void {
-  const csvContent = convertToCSV(records);
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  
+export function convertAuditLogToCSV(entries: AuditEntry[]): string {
+  const headers = ['Timestamp', 'Client Id', 'Action', 'Field', 'Old Value', 'New Value', 'Actor', 'Source'];
+
+  const rows = entries.map(entry => [
+    escapeCSVValue(entry.timestamp),
+    escapeCSVValue(entry.clientId),
+    escapeCSVValue(entry.action),
+    escapeCSVValue(entry.field ?? ''),
+    escapeCSVValue(entry.oldValue ?? ''),
+    escapeCSVValue(entry.newValue ?? ''),
+    escapeCSVValue(entry.actor),
+    escapeCSVValue(entry.source)
+  ].join(','));
+
+  return [headers.join(','), ...rows].join('\n');
+}
+
+/**
+ * Trigger a browser download of a blob
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
   // Create download link
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
@@ -98,11 +215,44 @@ export function downloadCSV(records: DiscountRecord[], filename: string = 'disco
   URL.revokeObjectURL(url);
 }
 
+/**
+ * CSV file assembled from parts written in chunks, so the content never has to exist as one string
+ * Other text formats pass their own MIME type
+ */
+export function createCSVBlob(
+  parts: string[],
+  includeBOM: boolean = false,
+  mimeType: string = 'text/csv;charset=utf-8;'
+): Blob {
+  return new Blob(includeBOM ? [UTF8_BOM, ...parts] : parts, { type: mimeType });
+}
+
+/**
+ * Trigger a browser download of CSV content
+ */
+export function downloadCSVContent(csvContent: string, filename: string): void {
+  downloadBlob(createCSVBlob([csvContent]), filename);
+}
+
+/**
+ * Download CSV file
+ */
+export function downloadCSV(records: DiscountRecord[], filename: string = 'discount-data.csv'): void {
+  downloadCSVContent(convertToCSV(records), filename);
+}
+
+/**
+ * Download audit log entries as a CSV file
+ */
+export function downloadAuditLogCSV(entries: AuditEntry[], filename: string = 'audit-log.csv'): void {
+  downloadCSVContent(convertAuditLogToCSV(entries), filename);
+}
+
 /**
  * Generate filename with timestamp
  */
-export function generateFilename(prefix: string = 'discount-data'): string {
+export function generateFilename(prefix: string = 'discount-data', extension: string = 'csv'): string {
   const now = new Date();
   const timestamp = now.toISOString().slice(0, 19).replace(/[:]/g, '-');
-  return `${prefix}-${timestamp}.csv`;
+  return `${prefix}-${timestamp}.${extension}`;
 }
\ No newline at end of file
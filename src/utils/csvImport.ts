@@ -0,0 +1,354 @@
+/**
+ * CSV import functionality for discount data
+ * Reads files in the layout written by convertToCSV and validates every row
+ * The delimiter is detected from the header line, and dates and percents are read in any of the export formats
+ * Changed rows are also checked against the status transitions the importing role may make
+ */
+
+import {
+  type DiscountRecord,
+  type UserRole,
+  DISCOUNT_RECORD_FIELDS,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus,
+  REGION_DEFAULT_TIMEZONES
+} from '../types/discount';
+import { getForbiddenStatusChanges } from './bulkUpdate';
+import { type CSVDelimiter, type DateFormat, CSV_COLUMNS, CSV_DELIMITERS, DATE_FIELDS } from './csvExport';
+import { validateField, validateRecord, getErrorMessages } from './validationRules';
+
+// A row that parsed and validated successfully
+export interface ImportRow {
+  rowNumber: number; // 1-based record number, header is record 1 (not the line: empty lines are skipped and quoted fields may span lines)
+  record: DiscountRecord;
+  existing?: DiscountRecord;
+  changedFields: (keyof DiscountRecord)[];
+}
+
+// A row that failed validation and will not be imported
+export interface InvalidImportRow {
+  rowNumber: number;
+  clientId: string;
+  values: string[];
+  errors: string[];
+}
+
+// How dates in an imported file are read; detected from the file when left out
+export interface ImportOptions {
+  dateFormat?: DateFormat;
+}
+
+export interface ImportPreview {
+  headerErrors: string[];
+  dateFormat: DateFormat; // Layout the file's dates were read in
+  newRows: ImportRow[];
+  changedRows: ImportRow[];
+  invalidRows: InvalidImportRow[];
+  unchangedCount: number;
+  totalRows: number;
+}
+
+/**
+ * Delimiter of a CSV file: whichever of comma, semicolon and tab occurs most often outside quotes in the header line
+ * A header with none of them is read as comma separated
+ */
+export function detectCSVDelimiter(text: string): CSVDelimiter {
+  const counts = new Map<string, number>(CSV_DELIMITERS.map(({ value }) => [value, 0]));
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  let delimiter: CSVDelimiter = ',';
+  let bestCount = 0;
+  CSV_DELIMITERS.forEach(({ value }) => {
+    if (counts.get(value)! > bestCount) {
+      delimiter = value;
+      bestCount = counts.get(value)!;
+    }
+  });
+  return delimiter;
+}
+
+/**
+ * Parse CSV text into rows of fields
+ * Supports quoted fields, escaped quotes ("") and line breaks inside quotes
+ * The delimiter is detected from the header line unless given
+ */
+export function parseCSV(text: string, delimiter: CSVDelimiter = detectCSVDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM written by some spreadsheet tools
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat \r\n as a single line break
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the last row when the file has no trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop completely empty lines
+  return rows.filter(r => r.length > 1 || r[0] !== '');
+}
+
+/**
+ * Map header names to column indexes, reporting missing or unknown columns
+ */
+function mapHeaders(headerRow: string[]): {
+  columnIndex: Map<keyof DiscountRecord, number>;
+  errors: string[];
+} {
+  const columnIndex = new Map<keyof DiscountRecord, number>();
+  const errors: string[] = [];
+  const normalized = headerRow.map(header => header.trim().toLowerCase());
+
+  CSV_COLUMNS.forEach(column => {
+    const index = normalized.indexOf(column.header.toLowerCase());
+    if (index !== -1) {
+      columnIndex.set(column.field, index);
+    } else if (!column.computed && !column.optional) {
+      errors.push(`Missing column "${column.header}"`);
+    }
+  });
+
+  headerRow.forEach(header => {
+    const known = CSV_COLUMNS.some(column => column.header.toLowerCase() === header.trim().toLowerCase());
+    if (!known && header.trim()) {
+      errors.push(`Unknown column "${header.trim()}"`);
+    }
+  });
+
+  return { columnIndex, errors };
+}
+
+// Dates written as dd/mm/yyyy or mm/dd/yyyy
+const SLASH_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+/**
+ * Layout of the dates in a file's date columns
+ * Slash dates are day first when a first part is over 12 and month first when a second part is;
+ * null when no date tells them apart, or the dates disagree
+ */
+export function detectDateFormat(dates: readonly string[]): DateFormat | null {
+  let dayFirst = false;
+  let monthFirst = false;
+  let slashDates = 0;
+
+  dates.forEach(date => {
+    const match = SLASH_DATE_PATTERN.exec(date.trim());
+    if (!match) return;
+    slashDates++;
+    if (Number(match[1]) > 12) dayFirst = true;
+    if (Number(match[2]) > 12) monthFirst = true;
+  });
+
+  if (slashDates === 0) return 'iso';
+  if (dayFirst === monthFirst) return null;
+  return dayFirst ? 'dmy' : 'mdy';
+}
+
+/**
+ * Rewrite a date in the given layout as yyyy-mm-dd; other text is left for validation to report
+ */
+export function parseImportDate(value: string, dateFormat: DateFormat): string {
+  const match = dateFormat === 'iso' ? null : SLASH_DATE_PATTERN.exec(value);
+  if (!match) return value;
+
+  const [day, month] = dateFormat === 'dmy' ? [match[1], match[2]] : [match[2], match[1]];
+  return `${match[3]}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * Validate a raw CSV row and convert it into a DiscountRecord
+ */
+function parseRow(
+  values: string[],
+  columnIndex: Map<keyof DiscountRecord, number>,
+  dateFormat: DateFormat
+): { record: DiscountRecord | null; errors: string[] } {
+  const cell = (field: keyof DiscountRecord) => (values[columnIndex.get(field) ?? -1] ?? '').trim();
+  const get = (field: keyof DiscountRecord) => (DATE_FIELDS.has(field) ? parseImportDate(cell(field), dateFormat) : cell(field));
+
+  // Percent may be written with a trailing % sign and a decimal comma
+  const raw = (field: keyof DiscountRecord) =>
+    field === 'percent' ? get(field).replace(/%$/, '').replace(',', '.') : get(field);
+
+  // Check each field on its raw text first so messages show what the file contained
+  const errors = DISCOUNT_RECORD_FIELDS
+    .map(field => validateField(field, raw(field)))
+    .filter((message): message is string => message !== null);
+
+  if (errors.length > 0) {
+    return { record: null, errors };
+  }
+
+  const record: DiscountRecord = {
+    clientId: get('clientId'),
+    client: get('client'),
+    platform: get('platform') as Platform,
+    region: get('region') as Region,
+    discount: get('discount'),
+    startDate: get('startDate'),
+    startTime: get('startTime'),
+    endDate: get('endDate'),
+    endTime: get('endTime'),
+    // Files without a timezone use the region's default
+    timezone: get('timezone') || REGION_DEFAULT_TIMEZONES[get('region') as Region],
+    percent: Number(raw('percent')),
+    deadline: get('deadline'),
+    implementationStatus: get('implementationStatus') as ImplementationStatus,
+    salesEventStatus: get('salesEventStatus') as SalesEventStatus,
+    comments: get('comments')
+  };
+
+  // Cross-field rules such as date order
+  const recordErrors = getErrorMessages(validateRecord(record));
+  return recordErrors.length > 0 ? { record: null, errors: recordErrors } : { record, errors };
+}
+
+/**
+ * Build an import preview by comparing CSV rows with existing records by Client Id
+ */
+export function buildImportPreview(
+  text: string,
+  existingRecords: readonly DiscountRecord[],
+  role: UserRole,
+  options: ImportOptions = {}
+): ImportPreview {
+  return buildImportPreviewFromRows(parseCSV(text), existingRecords, role, options);
+}
+
+/**
+ * Build an import preview from rows already split into fields, such as a spreadsheet's cells
+ * The first row is the header, in the layout written by convertToCSV
+ */
+export function buildImportPreviewFromRows(
+  rows: string[][],
+  existingRecords: readonly DiscountRecord[],
+  role: UserRole,
+  options: ImportOptions = {}
+): ImportPreview {
+  const preview: ImportPreview = {
+    headerErrors: [],
+    dateFormat: options.dateFormat ?? 'iso',
+    newRows: [],
+    changedRows: [],
+    invalidRows: [],
+    unchangedCount: 0,
+    totalRows: 0
+  };
+
+  if (rows.length === 0) {
+    preview.headerErrors.push('The file is empty');
+    return preview;
+  }
+
+  const { columnIndex, errors } = mapHeaders(rows[0]);
+  if (errors.length > 0) {
+    preview.headerErrors = errors;
+    return preview;
+  }
+
+  const dataRows = rows.slice(1);
+  const dateFormat = options.dateFormat ?? detectDateFormat(
+    dataRows.flatMap(values => Array.from(DATE_FIELDS, field => values[columnIndex.get(field) ?? -1] ?? ''))
+  );
+  if (!dateFormat) {
+    preview.headerErrors.push('Cannot tell whether dates are dd/mm/yyyy or mm/dd/yyyy; choose the date format');
+    return preview;
+  }
+  preview.dateFormat = dateFormat;
+
+  const existingById = new Map(existingRecords.map(record => [record.clientId, record]));
+  const seenIds = new Set<string>();
+  preview.totalRows = dataRows.length;
+
+  dataRows.forEach((values, index) => {
+    const rowNumber = index + 2;
+    const { record, errors: rowErrors } = parseRow(values, columnIndex, dateFormat);
+
+    if (record && seenIds.has(record.clientId)) {
+      rowErrors.push(`Duplicate Client Id "${record.clientId}" in file`);
+    }
+
+    // Imports may only make the status changes the role could make in the grid
+    const existing = record ? existingById.get(record.clientId) : undefined;
+    if (record && existing) {
+      rowErrors.push(...getForbiddenStatusChanges(existing, record, role));
+    }
+
+    if (!record || rowErrors.length > 0) {
+      preview.invalidRows.push({
+        rowNumber,
+        clientId: (values[columnIndex.get('clientId') ?? -1] ?? '').trim(),
+        values,
+        errors: rowErrors
+      });
+      return;
+    }
+
+    seenIds.add(record.clientId);
+
+    if (!existing) {
+      preview.newRows.push({ rowNumber, record, changedFields: [] });
+      return;
+    }
+
+    const changedFields = DISCOUNT_RECORD_FIELDS.filter(field => record[field] !== existing[field]);
+    if (changedFields.length === 0) {
+      preview.unchangedCount++;
+    } else {
+      preview.changedRows.push({ rowNumber, record, existing, changedFields });
+    }
+  });
+
+  return preview;
+}
@@ -1,44 +1,156 @@
 /**
  * Date utility functions for the Discount Management System
+ * Date strings (yyyy-mm-dd) are calendar dates; instants are resolved in a record's time zone
  */
 
+import { type DiscountRecord, REGION_DEFAULT_TIMEZONES } from '../types/discount';
+
+export const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+// Formatters are expensive to create, so keep one per time zone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+// Zone offsets by zone, then by the wall-clock start of the local hour; offsets only change on hour boundaries
+// Keyed by number rather than a joined string, so a cached lookup builds no text
+const offsetCache = new Map<string, Map<number, number>>();
+const OFFSET_CACHE_LIMIT = 200000;
+
+// Minutes after midnight of each parsed HH:MM time (NaN when invalid)
+const timeCache = new Map<string, number>();
+const TIME_CACHE_LIMIT = 10000;
+
+// UTC midnight of each parsed date string (NaN when invalid); datasets reuse a few hundred dates
+const dateCache = new Map<string, number>();
+const DATE_CACHE_LIMIT = 10000;
+
 /**
- * Get the month name from a date string (yyyy-mm-dd)
+ * Split a yyyy-mm-dd string into numeric parts, checking the date exists
  */
-export function getMonthName(dateString: string): string {
-  if (!dateString) return '';
-  
-  try {
-    const date = new Date(dateString);
-    if (isNaN(date.getTime())) return '';
-    
-    return date.toLocaleDateString('en-US', { month: 'long' });
-  } catch {
-    return '';
+function parseDateParts(dateString: string): [number, number, number] | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateString ?? '');
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
   }
+  return [year, month, day];
 }
 
 /**
- * Calculate the number of days between two dates
+ * UTC midnight of a yyyy-mm-dd date as epoch milliseconds, NaN when invalid
  */
-export function calculateDaysBetween(startDate: string, endDate: string): number {
-  if (!startDate || !endDate) return 0;
-  
+function getUtcMidnight(dateString: string): number {
+  let midnight = dateCache.get(dateString);
+  if (midnight === undefined) {
+    const parts = parseDateParts(dateString);
+    midnight = parts ? Date.UTC(parts[0], parts[1] - 1, parts[2]) : NaN;
+    if (dateCache.size >= DATE_CACHE_LIMIT) {
+      dateCache.clear();
+    }
+    dateCache.set(dateString, midnight);
+  }
+  return midnight;
+}
+
+/**
+ * Minutes after midnight of an HH:MM time, NaN when invalid
+ */
+function getMinutesOfDay(timeString: string): number {
+  let minutes = timeCache.get(timeString);
+  if (minutes === undefined) {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(timeString);
+    minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+    if (timeCache.size >= TIME_CACHE_LIMIT) {
+      timeCache.clear();
+    }
+    timeCache.set(timeString, minutes);
+  }
+  return minutes;
+}
+
+/**
+ * Get a 24-hour formatter for a time zone
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock parts of an instant in a time zone
+ */
+function getZonedParts(instant: number, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  });
+  return parts;
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = getZonedParts(instant, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return wallClock - Math.floor(instant / 60000) * 60000;
+}
+
+/**
+ * Check whether a string is a time zone supported by the browser
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
   try {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
-    
-    if (isNaN(start.getTime()) || isNaN(end.getTime())) return 0;
-    
-    const timeDifference = end.getTime() - start.getTime();
-    const daysDifference = Math.ceil(timeDifference / (1000 * 3600 * 24));
-    
-    return Math.max(0, daysDifference);
+    getFormatter(timeZone);
+    return true;
   } catch {
-    return 0;
+    return false;
   }
 }
 
+/**
+ * Get the month name from a date string (yyyy-mm-dd)
+ */
+export function getMonthName(dateString: string): string {
+  // Only valid yyyy-mm-dd strings pass, so the month sits at a fixed place
+  return isValidDateString(dateString) ? MONTH_NAMES[Number(dateString.slice(5, 7)) - 1] : '';
+}
+
+/**
+ * Calculate the number of calendar days between two dates
+ */
+export function calculateDaysBetween(startDate: string, endDate: string): number {
+  const start = getUtcMidnight(startDate);
+  const end = getUtcMidnight(endDate);
+  if (isNaN(start) || isNaN(end)) return 0;
+
+  // Compare as UTC midnights so daylight saving changes cannot shift the result
+  return Math.max(0, (end - start) / MS_PER_DAY);
+}
+
 /**
  * Format date to yyyy-mm-dd format
  */
@@ -60,26 +172,108 @@ export function getTodayString(): string {
  * Add days to a date string and return new date string
  */
 export function addDays(dateString: string, days: number): string {
-  try {
-    const date = new Date(dateString);
-    if (isNaN(date.getTime())) return dateString;
-    
-    date.setDate(date.getDate() + days);
-    return formatDate(date);
-  } catch {
-    return dateString;
-  }
+  const parts = parseDateParts(dateString);
+  if (!parts) return dateString;
+
+  // Build a local date from the parts so formatDate's local getters read back the same calendar day
+  const date = new Date(parts[0], parts[1] - 1, parts[2] + days);
+  return formatDate(date);
 }
 
 /**
  * Validate if a string is a valid date in yyyy-mm-dd format
  */
 export function isValidDateString(dateString: string): boolean {
-  if (!dateString) return false;
-  
-  const regex = /^\d{4}-\d{2}-\d{2}$/;
-  if (!regex.test(dateString)) return false;
-  
-  const date = new Date(dateString);
-  return !isNaN(date.getTime());
-}
\ No newline at end of file
+  return !isNaN(getUtcMidnight(dateString));
+}
+
+/**
+ * Convert a yyyy-mm-dd date and optional HH:MM time in a time zone to epoch milliseconds
+ * Returns NaN when the date, time or time zone is invalid
+ */
+export function parseDateTime(dateString: string, timeString: string = '', timeZone: string = 'UTC'): number {
+  const minutesOfDay = getMinutesOfDay(timeString || '00:00');
+  if (isNaN(minutesOfDay)) return NaN;
+
+  const midnight = getUtcMidnight(dateString);
+  if (isNaN(midnight)) return NaN;
+
+  const wallClock = midnight + minutesOfDay * 60000;
+  if (timeZone === 'UTC') return wallClock;
+
+  const hourStart = midnight + Math.floor(minutesOfDay / 60) * MS_PER_HOUR;
+  let offsets = offsetCache.get(timeZone);
+  let offset = offsets?.get(hourStart);
+
+  if (offset === undefined) {
+    if (!isValidTimeZone(timeZone)) return NaN;
+
+    // Guess with the offset at the wall-clock time, then correct once for a DST change in between
+    offset = getTimeZoneOffset(wallClock, timeZone);
+    const corrected = getTimeZoneOffset(wallClock - offset, timeZone);
+    if (corrected !== offset) {
+      offset = corrected;
+    }
+
+    if (!offsets) {
+      offsets = new Map();
+      offsetCache.set(timeZone, offsets);
+    } else if (offsets.size >= OFFSET_CACHE_LIMIT) {
+      offsets.clear();
+    }
+    offsets.set(hourStart, offset);
+  }
+
+  return wallClock - offset;
+}
+
+/**
+ * Format epoch milliseconds as "yyyy-mm-dd HH:MM" in a time zone
+ */
+export function formatInstant(instant: number, timeZone: string): string {
+  if (isNaN(instant) || !isValidTimeZone(timeZone)) return '';
+
+  const parts = getZonedParts(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * Time zone a record's dates and times are expressed in, falling back to its region's default
+ */
+export function getRecordTimeZone(record: Pick<DiscountRecord, 'timezone' | 'region'>): string {
+  return record.timezone || REGION_DEFAULT_TIMEZONES[record.region] || 'UTC';
+}
+
+/**
+ * Start of a record's discount window as epoch milliseconds
+ */
+export function getStartInstant(record: DiscountRecord): number {
+  return parseDateTime(record.startDate, record.startTime, getRecordTimeZone(record));
+}
+
+/**
+ * End of a record's discount window as epoch milliseconds
+ */
+export function getEndInstant(record: DiscountRecord): number {
+  return parseDateTime(record.endDate, record.endTime, getRecordTimeZone(record));
+}
+
+/**
+ * Length of a record's discount window from its full start and end date/times
+ * Rounded to one decimal place; 0 when the dates are invalid or out of order
+ */
+export function calculateDuration(record: DiscountRecord, unit: 'days' | 'hours' = 'days'): number {
+  return getDurationBetween(getStartInstant(record), getEndInstant(record), unit);
+}
+
+/**
+ * Length between a start and end instant, rounded to one decimal place; 0 when invalid or out of order
+ */
+export function getDurationBetween(startInstant: number, endInstant: number, unit: 'days' | 'hours' = 'days'): number {
+  const duration = endInstant - startInstant;
+  if (isNaN(duration) || duration <= 0) return 0;
+
+  const value = duration / (unit === 'days' ? MS_PER_DAY : MS_PER_HOUR);
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,232 @@
+/**
+ * Export profiles: saved choices of file format, columns and value formatting for exports
+ * A profile can follow the grid's current sort and visible columns instead of a fixed column list.
+ * Text formats are written record by record, so the data engine can produce them in chunks.
+ */
+
+import type { DiscountRecord, ViewColumnState } from '../types/discount';
+import {
+  type CSVDelimiter,
+  type DateFormat,
+  type DecimalSeparator,
+  CSV_COLUMNS,
+  CSV_DELIMITERS,
+  DATE_FIELDS,
+  DATE_FORMATS,
+  createCSVRowWriter,
+  formatExportDate,
+  getCSVHeader,
+  getExportValue
+} from './csvExport';
+import { XLSX_MIME_TYPE } from './xlsxExport';
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'ndjson' | 'xlsx';
+
+// Formats written as text, record by record
+export type TextExportFormat = Exclude<ExportFormat, 'xlsx'>;
+
+// Formats offered for export
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8;' },
+  { value: 'tsv', label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values;charset=utf-8;' },
+  { value: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json;charset=utf-8;' },
+  { value: 'ndjson', label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson;charset=utf-8;' },
+  { value: 'xlsx', label: 'Excel (.xlsx)', extension: 'xlsx', mimeType: XLSX_MIME_TYPE }
+];
+
+// Columns that can be exported, in layout order
+export const EXPORT_COLUMNS: (keyof DiscountRecord)[] = CSV_COLUMNS.map(column => column.field);
+
+// What a profile controls
+export interface ExportProfileSettings {
+  format: ExportFormat;
+  columns: (keyof DiscountRecord)[]; // Chosen columns in export order
+  useGridColumns: boolean; // Export the grid's visible columns in grid order instead of the chosen ones
+  useGridSort: boolean; // Write rows in the grid's current sort order
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator; // CSV and TSV only; JSON numbers always use a point
+  delimiter: CSVDelimiter; // CSV only; TSV always uses tabs
+  includeBOM: boolean; // CSV and TSV only
+  includeSummary: boolean; // Excel only
+}
+
+export interface ExportProfile extends ExportProfileSettings {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_PROFILE_SETTINGS: ExportProfileSettings = {
+  format: 'csv',
+  columns: EXPORT_COLUMNS,
+  useGridColumns: false,
+  useGridSort: true,
+  dateFormat: 'iso',
+  decimalSeparator: '.',
+  delimiter: ',',
+  includeBOM: false,
+  includeSummary: false
+};
+
+// Profiles offered before the user has saved any
+export const BUILT_IN_PROFILES: ExportProfile[] = [
+  { id: 'standard-csv', name: 'Standard CSV', ...DEFAULT_PROFILE_SETTINGS },
+  {
+    id: 'european-csv',
+    name: 'European CSV',
+    ...DEFAULT_PROFILE_SETTINGS,
+    delimiter: ';',
+    dateFormat: 'dmy',
+    decimalSeparator: ',',
+    includeBOM: true
+  },
+  {
+    id: 'grid-view-excel',
+    name: 'Grid view (Excel)',
+    ...DEFAULT_PROFILE_SETTINGS,
+    format: 'xlsx',
+    useGridColumns: true,
+    includeSummary: true
+  }
+];
+
+// How records are written as text, resolved from a profile
+export interface TextExportOptions {
+  format: TextExportFormat;
+  columns: (keyof DiscountRecord)[];
+  delimiter: CSVDelimiter;
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+}
+
+// Pieces a text export is assembled from: opening, then leading + rows joined by separator, then closing
+export interface RecordSerializer {
+  opening: string;
+  leading: string;
+  separator: string;
+  closing: string;
+  empty: string[]; // The whole file when there are no records
+  writeRow: (record: DiscountRecord) => string;
+}
+
+/**
+ * Format details of an export format
+ */
+export function getExportFormat(format: ExportFormat) {
+  return EXPORT_FORMATS.find(option => option.value === format) ?? EXPORT_FORMATS[0];
+}
+
+/**
+ * Whether a format is written as text, record by record
+ */
+export function isTextExportFormat(format: ExportFormat): format is TextExportFormat {
+  return format !== 'xlsx';
+}
+
+/**
+ * Columns a profile exports: the grid's visible columns in grid order, or the chosen ones
+ * Grid columns that cannot be exported, such as the display-zone instants, are left out
+ */
+export function resolveExportColumns(
+  settings: Pick<ExportProfileSettings, 'columns' | 'useGridColumns'>,
+  gridColumns: readonly ViewColumnState[] | null
+): (keyof DiscountRecord)[] {
+  const chosen = settings.useGridColumns && gridColumns && gridColumns.length > 0
+    ? gridColumns.filter(column => !column.hide).map(column => column.colId)
+    : settings.columns;
+  return Array.from(new Set(chosen)).filter((field): field is keyof DiscountRecord =>
+    (EXPORT_COLUMNS as string[]).includes(field)
+  );
+}
+
+/**
+ * Reasons the import could not read back a file written with these settings; empty when it can
+ * Delimiters, date formats, decimal separators and column order are all read by the import
+ */
+export function getImportProblems(format: ExportFormat, columns: readonly (keyof DiscountRecord)[]): string[] {
+  if (!['csv', 'tsv', 'xlsx'].includes(format)) {
+    return [`${getExportFormat(format).label} files cannot be imported; use CSV, TSV or Excel for files to edit and import`];
+  }
+
+  const missing = CSV_COLUMNS
+    .filter(column => !column.computed && !column.optional && !columns.includes(column.field))
+    .map(column => column.header);
+  if (missing.length === 0) return [];
+  return [`Files without the ${missing.join(', ')} column${missing.length !== 1 ? 's' : ''} cannot be imported`];
+}
+
+/**
+ * Record as a JSON object of the chosen columns, keyed by field name, with dates in the chosen format
+ */
+function createObjectWriter(
+  columns: (keyof DiscountRecord)[],
+  dateFormat: DateFormat
+): (record: DiscountRecord) => Record<string, string | number> {
+  return record => {
+    const object: Record<string, string | number> = {};
+    columns.forEach(field => {
+      const value = getExportValue(record, field);
+      object[field] = typeof value === 'string' && DATE_FIELDS.has(field) ? formatExportDate(value, dateFormat) : value;
+    });
+    return object;
+  };
+}
+
+/**
+ * Serializer for a text format; options left out take the defaults
+ */
+export function createRecordSerializer(
+  options: Partial<TextExportOptions> & Pick<TextExportOptions, 'format'>
+): RecordSerializer {
+  const { format, columns = EXPORT_COLUMNS, dateFormat = 'iso', decimalSeparator = '.' } = options;
+
+  if (format === 'json' || format === 'ndjson') {
+    const toObject = createObjectWriter(columns, dateFormat);
+    const writeRow = (record: DiscountRecord) => JSON.stringify(toObject(record));
+    return format === 'json'
+      ? { opening: '[', leading: '\n', separator: ',\n', closing: '\n]', empty: ['[]'], writeRow }
+      : { opening: '', leading: '', separator: '\n', closing: '\n', empty: [], writeRow };
+  }
+
+  const csvFormat = {
+    delimiter: format === 'tsv' ? '\t' as const : options.delimiter ?? ',',
+    columns,
+    dateFormat,
+    decimalSeparator
+  };
+  return {
+    opening: getCSVHeader(csvFormat),
+    leading: '\n',
+    separator: '\n',
+    closing: '',
+    empty: [],
+    writeRow: createCSVRowWriter(csvFormat)
+  };
+}
+
+/**
+ * Profile read from storage or a file, with missing or unknown settings replaced by defaults
+ * Returns null when the value has no id or name
+ */
+export function sanitizeProfile(value: any): ExportProfile | null {
+  if (!value || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+
+  const pick = <T>(candidate: unknown, allowed: readonly T[], fallback: T): T =>
+    allowed.includes(candidate as T) ? (candidate as T) : fallback;
+  const columns = Array.isArray(value.columns)
+    ? resolveExportColumns({ columns: value.columns, useGridColumns: false }, null)
+    : DEFAULT_PROFILE_SETTINGS.columns;
+
+  return {
+    id: value.id,
+    name: value.name,
+    format: pick(value.format, EXPORT_FORMATS.map(option => option.value), DEFAULT_PROFILE_SETTINGS.format),
+    columns,
+    useGridColumns: Boolean(value.useGridColumns),
+    useGridSort: value.useGridSort === undefined ? DEFAULT_PROFILE_SETTINGS.useGridSort : Boolean(value.useGridSort),
+    dateFormat: pick(value.dateFormat, DATE_FORMATS.map(option => option.value), DEFAULT_PROFILE_SETTINGS.dateFormat),
+    decimalSeparator: pick(value.decimalSeparator, ['.', ','] as const, DEFAULT_PROFILE_SETTINGS.decimalSeparator),
+    delimiter: pick(value.delimiter, CSV_DELIMITERS.map(option => option.value), DEFAULT_PROFILE_SETTINGS.delimiter),
+    includeBOM: Boolean(value.includeBOM),
+    includeSummary: Boolean(value.includeSummary)
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * Column filter model shared by the data store and AG-Grid
+ * Models use AG-Grid's filter model format, so the grid's column filters and the store filter the same rows
+ */
+
+import type { DiscountRecord } from '../types/discount';
+import type { LengthUnit } from '../composables/useDisplaySettings';
+import { type SetFilterModel, describeSetFilterModel, toFilterValue } from './setFilter';
+
+export type TextFilterType =
+  | 'contains' | 'notContains' | 'equals' | 'notEqual' | 'startsWith' | 'endsWith' | 'blank' | 'notBlank';
+
+export type ScalarFilterType =
+  | 'equals' | 'notEqual' | 'lessThan' | 'lessThanOrEqual' | 'greaterThan' | 'greaterThanOrEqual'
+  | 'inRange' | 'blank' | 'notBlank';
+
+export interface TextFilterCondition {
+  filterType: 'text';
+  type: TextFilterType;
+  filter?: string | null;
+}
+
+export interface NumberFilterCondition {
+  filterType: 'number';
+  type: ScalarFilterType;
+  filter?: number | null;
+  filterTo?: number | null;
+}
+
+// Dates are sent by the grid as 'yyyy-mm-dd hh:mm:ss'; only the date part is compared
+export interface DateFilterCondition {
+  filterType: 'date';
+  type: ScalarFilterType;
+  dateFrom?: string | null;
+  dateTo?: string | null;
+}
+
+export type FilterCondition = TextFilterCondition | NumberFilterCondition | DateFilterCondition;
+
+// Two or more conditions on one column joined by AND or OR
+export interface CombinedFilterModel {
+  filterType: FilterCondition['filterType'];
+  operator: 'AND' | 'OR';
+  conditions: FilterCondition[];
+}
+
+export type ColumnFilterModel = FilterCondition | CombinedFilterModel | SetFilterModel;
+
+// Filter model for the whole grid, keyed by column id
+export type GridFilterModel = Record<string, ColumnFilterModel>;
+
+type ValuePredicate = (value: unknown) => boolean;
+
+const SCALAR_LABELS: Record<ScalarFilterType, string> = {
+  equals: '=',
+  notEqual: '≠',
+  lessThan: '<',
+  lessThanOrEqual: '≤',
+  greaterThan: '>',
+  greaterThanOrEqual: '≥',
+  inRange: 'between',
+  blank: 'is blank',
+  notBlank: 'is not blank'
+};
+
+const TEXT_LABELS: Record<TextFilterType, string> = {
+  contains: 'contains',
+  notContains: 'does not contain',
+  equals: 'equals',
+  notEqual: 'does not equal',
+  startsWith: 'starts with',
+  endsWith: 'ends with',
+  blank: 'is blank',
+  notBlank: 'is not blank'
+};
+
+/**
+ * Whether a cell is blank the way AG-Grid's filters see it
+ */
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Text condition; case-insensitive, and blank cells only pass the negative conditions
+ */
+function compileTextCondition(condition: TextFilterCondition): ValuePredicate {
+  const needle = String(condition.filter ?? '').toLowerCase();
+
+  return value => {
+    if (condition.type === 'blank') return isBlank(value);
+    if (condition.type === 'notBlank') return !isBlank(value);
+    if (value === null || value === undefined) {
+      return condition.type === 'notEqual' || condition.type === 'notContains';
+    }
+
+    const text = String(value).toLowerCase();
+    switch (condition.type) {
+      case 'contains': return text.includes(needle);
+      case 'notContains': return !text.includes(needle);
+      case 'equals': return text === needle;
+      case 'notEqual': return text !== needle;
+      case 'startsWith': return text.startsWith(needle);
+      case 'endsWith': return text.endsWith(needle);
+      default: return true;
+    }
+  };
+}
+
+/**
+ * Number or date comparison; ranges exclude their bounds, as AG-Grid's do by default
+ */
+function compileScalarCondition<T extends number | string>(
+  type: ScalarFilterType,
+  from: T | null,
+  to: T | null,
+  toComparable: (value: unknown) => T | null
+): ValuePredicate {
+  return value => {
+    if (type === 'blank') return isBlank(value);
+    if (type === 'notBlank') return !isBlank(value);
+
+    const cell = isBlank(value) ? null : toComparable(value);
+    if (cell === null || from === null) return false;
+
+    switch (type) {
+      case 'equals': return cell === from;
+      case 'notEqual': return cell !== from;
+      case 'lessThan': return cell < from;
+      case 'lessThanOrEqual': return cell <= from;
+      case 'greaterThan': return cell > from;
+      case 'greaterThanOrEqual': return cell >= from;
+      case 'inRange': return to !== null && cell > from && cell < to;
+      default: return true;
+    }
+  };
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function toDate(value: unknown): string | null {
+  const date = String(value ?? '').slice(0, 10);
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null;
+}
+
+/**
+ * Predicate for a single condition
+ */
+function compileCondition(condition: FilterCondition): ValuePredicate {
+  switch (condition.filterType) {
+    case 'text':
+      return compileTextCondition(condition);
+    case 'number':
+      return compileScalarCondition(condition.type, toNumber(condition.filter), toNumber(condition.filterTo), toNumber);
+    case 'date':
+      return compileScalarCondition(condition.type, toDate(condition.dateFrom), toDate(condition.dateTo), toDate);
+    default:
+      return () => true;
+  }
+}
+
+/**
+ * Predicate for one column's filter model
+ */
+export function compileColumnFilter(model: ColumnFilterModel): ValuePredicate {
+  if (model.filterType === 'set') {
+    const values = new Set(model.values.map(toFilterValue));
+    return value => values.has(toFilterValue(value));
+  }
+
+  if ('conditions' in model && Array.isArray(model.conditions)) {
+    const predicates = model.conditions.map(compileCondition);
+    return model.operator === 'OR'
+      ? value => predicates.some(predicate => predicate(value))
+      : value => predicates.every(predicate => predicate(value));
+  }
+
+  return compileCondition(model as FilterCondition);
+}
+
+/**
+ * Value a grid column shows for a record; the length column switches field with the length unit
+ */
+export function getRecordColumnValue(record: DiscountRecord, colId: string, lengthUnit: LengthUnit): unknown {
+  if (colId === 'length' && lengthUnit === 'hours') {
+    return record.lengthHours;
+  }
+  return (record as any)[colId];
+}
+
+/**
+ * Predicate for the whole grid filter model, or null when no column is filtered
+ * getValue reads the value a column shows for a record
+ */
+export function compileFilterModel<T>(
+  model: GridFilterModel,
+  getValue: (record: T, colId: string) => unknown
+): ((record: T) => boolean) | null {
+  const columns = Object.entries(model).map(([colId, columnModel]) => ({
+    colId,
+    matches: compileColumnFilter(columnModel)
+  }));
+  if (columns.length === 0) return null;
+
+  return record => columns.every(({ colId, matches }) => matches(getValue(record, colId)));
+}
+
+/**
+ * Short description of one condition, e.g. 'contains "sale"' or 'between 10 and 20'
+ */
+function describeCondition(condition: FilterCondition): string {
+  if (condition.filterType === 'text') {
+    const label = TEXT_LABELS[condition.type] ?? condition.type;
+    return condition.type === 'blank' || condition.type === 'notBlank' ? label : `${label} "${condition.filter ?? ''}"`;
+  }
+
+  const label = SCALAR_LABELS[condition.type] ?? condition.type;
+  if (condition.type === 'blank' || condition.type === 'notBlank') return label;
+
+  const [from, to] = condition.filterType === 'number'
+    ? [condition.filter, condition.filterTo]
+    : [toDate(condition.dateFrom), toDate(condition.dateTo)];
+  return condition.type === 'inRange' ? `${label} ${from} and ${to}` : `${label} ${from}`;
+}
+
+/**
+ * Short description of one column's filter model for filter chips
+ */
+export function describeColumnFilter(model: ColumnFilterModel): string {
+  if (model.filterType === 'set') return describeSetFilterModel(model);
+  if ('conditions' in model && Array.isArray(model.conditions)) {
+    return model.conditions.map(describeCondition).join(` ${model.operator} `);
+  }
+  return describeCondition(model as FilterCondition);
+}
+
+/**
+ * JSON with object keys sorted, so equal models compare equal whatever order they were built in
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Whether two grid filter models filter the same way
+ */
+export function isSameFilterModel(a: GridFilterModel | null, b: GridFilterModel | null): boolean {
+  return stableStringify(a ?? {}) === stableStringify(b ?? {});
+}
@@ -1,17 +1,40 @@
 /**
  * Mock data generator for creating realistic discount records
  * Generates 100,000 rows for performance testing
+ *
+ * Discounts for the same client, platform and region must not overlap, so each record is given a
+ * client/platform/region group and a time slot of its own in that group. Only a small share runs on
+ * into the next slot, which gives conflict detection a realistic handful of overlaps to flag.
  */
 
 import { 
   type DiscountRecord, 
   Platform, 
-  Region, 
   ImplementationStatus, 
   SalesEventStatus,
-  CLIENT_OPTIONS 
+  CLIENT_OPTIONS,
+  REGION_DEFAULT_TIMEZONES
 } from '../types/discount';
-import { formatDate, addDays } from './dateUtils';
+import { getTodayString, addDays } from './dateUtils';
+import { getAllowedRegions } from './validationRules';
+import { getSalesEventStatusByDate } from './statusTransitions';
+
+// Client/platform/region combinations; discounts within one must not overlap
+const CONFLICT_GROUPS = CLIENT_OPTIONS.flatMap(client =>
+  Object.values(Platform).flatMap(platform => getAllowedRegions(platform).map(region => ({ client, platform, region })))
+);
+
+// Step between the groups of consecutive records; coprime with the number of groups,
+// so every run of CONFLICT_GROUPS.length records uses each group exactly once
+const GROUP_STEP = 97;
+
+// Dates cover at least a year around today; larger datasets spread over more years
+const MIN_SPAN_DAYS = 365;
+const MIN_SLOT_DAYS = 10;
+const MAX_LENGTH_DAYS = 30;
+
+// Share of discounts that run on into the next slot of their group
+const OVERLAP_RATE = 0.02;
 
 // Discount name templates
 const DISCOUNT_TEMPLATES = [
@@ -46,13 +69,6 @@ const GAME_GENRES = [
   'Indie'
 ];
 
-/**
- * Generate a random date within the specified range
- */
-function randomDate(start: Date, end: Date): Date {
-  return new Date(start.getTime() + Math.random() * (end.getTime() - start.getTime()));
-}
-
 /**
  * Generate a random integer between min and max (inclusive)
  */
@@ -134,56 +150,82 @@ function generateComment(implementationStatus: ImplementationStatus, salesEventS
 }
 
 /**
- * Generate appropriate regions based on platform
+ * Generate statuses consistent with the record's dates and the status transition model
  */
-function getValidRegions(platform: Platform): Region[] {
-  const allRegions = Object.values(Region);
-  
-  // Steam has limited regional support in this mock
-  if (platform === Platform.STEAM) {
-    return [Region.GLOBAL];
+function generateStatuses(record: DiscountRecord, now: number): {
+  implementationStatus: ImplementationStatus;
+  salesEventStatus: SalesEventStatus;
+} {
+  // A small share of events is cancelled at any stage
+  if (Math.random() < 0.05) {
+    return {
+      implementationStatus: randomChoice(Object.values(ImplementationStatus)),
+      salesEventStatus: SalesEventStatus.CANCELLED
+    };
   }
   
-  return allRegions;
+  const salesEventStatus = getSalesEventStatusByDate(record, now) ?? SalesEventStatus.PLANNED;
+  
+  // Running and finished events have completed implementation; planned ones can be at any stage
+  const implementationStatus = salesEventStatus === SalesEventStatus.PLANNED
+    ? randomChoice([
+        ImplementationStatus.PENDING,
+        ImplementationStatus.IN_PROGRESS,
+        ImplementationStatus.COMPLETED,
+        ImplementationStatus.FAILED
+      ])
+    : ImplementationStatus.COMPLETED;
+  
+  return { implementationStatus, salesEventStatus };
 }
 
 /**
  * Generate a single discount record
+ * The record's group and time slot follow from its index and the size of the dataset it belongs to
  */
-function generateDiscountRecord(index: number): DiscountRecord {
-  const now = new Date();
-  const sixMonthsAgo = new Date(now.getTime() - 6 * 30 * 24 * 60 * 60 * 1000);
-  const sixMonthsFromNow = new Date(now.getTime() + 6 * 30 * 24 * 60 * 60 * 1000);
-  
-  const startDate = randomDate(sixMonthsAgo, sixMonthsFromNow);
-  const endDate = new Date(startDate.getTime() + randomInt(1, 30) * 24 * 60 * 60 * 1000);
-  
-  const platform = randomChoice(Object.values(Platform));
-  const validRegions = getValidRegions(platform);
-  const region = randomChoice(validRegions);
-  
-  const client = randomChoice(CLIENT_OPTIONS);
+export function generateDiscountRecord(index: number, count: number = index + 1): DiscountRecord {
+  const now = Date.now();
+  const today = getTodayString();
+
+  // Each group gets one slot per run of CONFLICT_GROUPS.length records, spread evenly around today
+  const { client, platform, region } = CONFLICT_GROUPS[(index * GROUP_STEP) % CONFLICT_GROUPS.length];
+  const slotCount = Math.ceil(count / CONFLICT_GROUPS.length);
+  const slotDays = Math.max(MIN_SLOT_DAYS, Math.floor(MIN_SPAN_DAYS / slotCount));
+  const slot = Math.floor(index / CONFLICT_GROUPS.length);
+  const slotStart = (slot - Math.floor(slotCount / 2)) * slotDays;
+
+  // The discount ends by the last day of its slot, the next slot's discount starts on its first day at the earliest
+  const lengthDays = randomInt(1, Math.min(MAX_LENGTH_DAYS, slotDays - 2));
+  const startOffset = slotStart + randomInt(0, slotDays - 1 - lengthDays);
+  const endOffset = startOffset + lengthDays + (Math.random() < OVERLAP_RATE ? slotDays : 0);
+  const startDate = addDays(today, startOffset);
+
   const clientId = `ORG_${client.replace(/[^A-Z]/g, '')}_${String(index).padStart(6, '0')}`;
   
-  const implementationStatus = randomChoice(Object.values(ImplementationStatus));
-  const salesEventStatus = randomChoice(Object.values(SalesEventStatus));
-  
-  return {
+  const record: DiscountRecord = {
     clientId,
     client,
     platform,
     region,
     discount: generateDiscountName(),
-    startDate: formatDate(startDate),
+    startDate,
     startTime: generateTime(),
-    endDate: formatDate(endDate),
+    endDate: addDays(today, endOffset),
     endTime: generateTime(),
+    timezone: REGION_DEFAULT_TIMEZONES[region],
     percent: randomInt(5, 75),
-    deadline: formatDate(new Date(startDate.getTime() - randomInt(1, 14) * 24 * 60 * 60 * 1000)),
-    implementationStatus,
-    salesEventStatus,
-    comments: generateComment(implementationStatus, salesEventStatus)
+    deadline: addDays(startDate, -randomInt(1, 14)),
+    implementationStatus: ImplementationStatus.PENDING,
+    salesEventStatus: SalesEventStatus.PLANNED,
+    comments: ''
   };
+  
+  const { implementationStatus, salesEventStatus } = generateStatuses(record, now);
+  record.implementationStatus = implementationStatus;
+  record.salesEventStatus = salesEventStatus;
+  record.comments = generateComment(implementationStatus, salesEventStatus);
+  
+  return record;
 }
 
 /**
@@ -196,7 +238,7 @@ export function generateMockData(count: number = 100000): DiscountRecord[] {
   const records: DiscountRecord[] = [];
   
   for (let i = 0; i < count; i++) {
-    records.push(generateDiscountRecord(i));
+    records.push(generateDiscountRecord(i, count));
     
     // Log progress for large datasets
     if (i > 0 && i % 10000 === 0) {
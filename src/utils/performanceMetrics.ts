@@ -0,0 +1,88 @@
+/**
+ * Performance samples, rolling percentiles and the exported performance report
+ */
+
+export type MetricName = 'dataLoad' | 'filter' | 'gridRender' | 'filterPaint' | 'bulkOperation' | 'export';
+
+export const METRIC_LABELS: Record<MetricName, string> = {
+  dataLoad: 'Data Load',
+  filter: 'Filter',
+  gridRender: 'Grid Render',
+  filterPaint: 'Paint After Filter',
+  bulkOperation: 'Bulk Operation',
+  export: 'Export'
+};
+
+export const METRIC_NAMES = Object.keys(METRIC_LABELS) as MetricName[];
+
+// One timed run; detail says what was measured, e.g. the operation and record count
+export interface PerformanceSample {
+  durationMs: number;
+  timestamp: string; // ISO 8601
+  detail?: string;
+}
+
+export interface MetricSummary {
+  count: number;
+  last: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+// JS heap as reported by browsers that expose performance.memory
+export interface HeapUsage {
+  usedMb: number;
+  totalMb: number;
+  limitMb: number;
+}
+
+export interface PerformanceReport {
+  version: 1;
+  generatedAt: string; // ISO 8601
+  userAgent: string;
+  recordCount: number;
+  heap: HeapUsage | null;
+  metrics: Record<MetricName, { summary: MetricSummary | null; samples: PerformanceSample[] }>;
+}
+
+/**
+ * Percentile of sorted values by linear interpolation; p is 0-100
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Summary statistics of a metric's samples, or null when there are none
+ */
+export function summarizeSamples(samples: PerformanceSample[]): MetricSummary | null {
+  if (samples.length === 0) return null;
+
+  const sorted = samples.map(sample => sample.durationMs).sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    last: samples[samples.length - 1].durationMs,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99)
+  };
+}
+
+/**
+ * Duration for display, e.g. "850ms" or "1.24s"
+ */
+export function formatDuration(ms: number): string {
+  if (ms >= 1000) return `${(ms / 1000).toFixed(2)}s`;
+  return ms >= 10 ? `${Math.round(ms)}ms` : `${ms.toFixed(1)}ms`;
+}
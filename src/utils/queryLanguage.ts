@@ -0,0 +1,631 @@
+/**
+ * Query language for the search bar
+ * Parses expressions like `platform:Steam region:"Europe" percent>=50 start:2026-11..2026-12 status:!Completed`
+ * with AND/OR/NOT and parentheses, compiles them to record predicates or evaluates them over a whole dataset,
+ * and suggests completions
+ */
+
+import type { DiscountRecord } from '../types/discount';
+
+export type QueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+export type QueryFieldType = 'text' | 'number' | 'date';
+
+// A field that can be searched, with the names users may type for it
+export interface QueryField {
+  name: string;
+  field: keyof DiscountRecord;
+  type: QueryFieldType;
+  aliases?: string[];
+}
+
+// A single comparison; field is null for free text matched against the main text fields
+export interface QueryTerm {
+  type: 'term';
+  field: string | null;
+  operator: QueryOperator;
+  value: string;
+  negated: boolean; // field:!value
+  range: [string, string] | null; // field:from..to, either end may be empty
+}
+
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | QueryTerm;
+
+// Reads field values of the rows a compiled query tests
+export interface QueryRowReader<T> {
+  // Row test applying a test to the field's lowercased text
+  textTest(field: keyof DiscountRecord, test: (text: string) => boolean): (row: T) => boolean;
+  value(field: keyof DiscountRecord): (row: T) => unknown;
+}
+
+// Tests a field over every row of a dataset at once; results flag each row by position, 1 for a match
+// Rows not flagged in candidates are never tested and never match; null makes every row a candidate
+export interface QuerySetReader {
+  size: number;
+  // Sets the flags of matching rows in flags, when given, leaving the others as they are
+  matchText(
+    field: keyof DiscountRecord,
+    test: (text: string) => boolean,
+    candidates: Uint8Array | null,
+    flags?: Uint8Array
+  ): Uint8Array;
+  matchValue(field: keyof DiscountRecord, test: (value: unknown) => boolean, candidates: Uint8Array | null): Uint8Array;
+}
+
+// A completion offered while typing; insert replaces the text between from and to
+export interface QuerySuggestion {
+  label: string;
+  insert: string;
+  kind: 'field' | 'value' | 'keyword';
+}
+
+export interface QuerySuggestions {
+  from: number;
+  to: number;
+  items: QuerySuggestion[];
+}
+
+// Error thrown for a query that cannot be parsed; position and length mark the offending text
+export class QueryParseError extends Error {
+  position: number;
+  length: number;
+
+  constructor(message: string, position: number, length: number = 1) {
+    super(message);
+    this.name = 'QueryParseError';
+    this.position = position;
+    this.length = length;
+  }
+}
+
+// Searchable fields, in the order they are suggested
+export const QUERY_FIELDS: QueryField[] = [
+  { name: 'client', field: 'client', type: 'text' },
+  { name: 'id', field: 'clientId', type: 'text', aliases: ['clientId'] },
+  { name: 'platform', field: 'platform', type: 'text' },
+  { name: 'region', field: 'region', type: 'text' },
+  { name: 'discount', field: 'discount', type: 'text' },
+  { name: 'percent', field: 'percent', type: 'number' },
+  { name: 'start', field: 'startDate', type: 'date', aliases: ['startDate'] },
+  { name: 'end', field: 'endDate', type: 'date', aliases: ['endDate'] },
+  { name: 'deadline', field: 'deadline', type: 'date' },
+  { name: 'status', field: 'salesEventStatus', type: 'text', aliases: ['salesEventStatus'] },
+  { name: 'impl', field: 'implementationStatus', type: 'text', aliases: ['implementation', 'implementationStatus'] },
+  { name: 'month', field: 'month', type: 'text' },
+  { name: 'length', field: 'length', type: 'number' },
+  { name: 'timezone', field: 'timezone', type: 'text', aliases: ['tz'] },
+  { name: 'comments', field: 'comments', type: 'text' }
+];
+
+// Fields searched by terms without a field name
+const FREE_TEXT_FIELDS: (keyof DiscountRecord)[] = ['clientId', 'client', 'discount', 'platform', 'region', 'comments'];
+
+const KEYWORDS = ['AND', 'OR', 'NOT'];
+
+const DATE_VALUE = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+const FIELD_OPERATOR = /([A-Za-z]+)(>=|<=|!=|:|=|>|<)/y;
+
+const fieldsByName = new Map<string, QueryField>();
+QUERY_FIELDS.forEach(definition => {
+  [definition.name, ...(definition.aliases ?? [])].forEach(name => fieldsByName.set(name.toLowerCase(), definition));
+});
+
+/**
+ * Look up a field by any of its names
+ */
+export function getQueryField(name: string): QueryField | null {
+  return fieldsByName.get(name.toLowerCase()) ?? null;
+}
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; position: number; length: number }
+  | { type: 'term'; position: number; length: number; term: QueryTerm };
+
+/**
+ * Read a double-quoted string starting at a position; backslash escapes the next character
+ */
+function readQuoted(text: string, start: number): { value: string; end: number } {
+  let value = '';
+  let index = start + 1;
+  while (index < text.length && text[index] !== '"') {
+    if (text[index] === '\\' && index + 1 < text.length) {
+      index++;
+    }
+    value += text[index];
+    index++;
+  }
+  if (index >= text.length) {
+    throw new QueryParseError('Missing closing quote', start, text.length - start);
+  }
+  return { value, end: index + 1 };
+}
+
+/**
+ * Read an unquoted value, which runs until whitespace or a parenthesis
+ */
+function readBare(text: string, start: number): { value: string; end: number } {
+  let index = start;
+  while (index < text.length && !/[\s()]/.test(text[index])) {
+    index++;
+  }
+  return { value: text.slice(start, index), end: index };
+}
+
+/**
+ * Check a term's value against its field type, turning from..to into a range
+ */
+function checkTerm(term: QueryTerm, definition: QueryField, position: number, length: number) {
+  const rangeIndex = term.value.indexOf('..');
+  if (rangeIndex >= 0 && term.operator === ':' && !term.negated && definition.type !== 'text') {
+    term.range = [term.value.slice(0, rangeIndex), term.value.slice(rangeIndex + 2)];
+    if (!term.range[0] && !term.range[1]) {
+      throw new QueryParseError(`Range for ${definition.name} needs at least one end`, position, length);
+    }
+  }
+
+  const values = term.range ? term.range.filter(Boolean) : [term.value];
+  if (definition.type === 'number' && values.some(value => value === '' || isNaN(Number(value)))) {
+    throw new QueryParseError(`${definition.name} expects a number`, position, length);
+  }
+  if (definition.type === 'date' && values.some(value => !DATE_VALUE.test(value))) {
+    throw new QueryParseError(`${definition.name} expects a date like 2026-11 or 2026-11-15`, position, length);
+  }
+  if (definition.type === 'text' && ['>', '>=', '<', '<='].includes(term.operator)) {
+    throw new QueryParseError(
+      `"${term.operator}" can only be used with number and date fields`,
+      position,
+      length
+    );
+  }
+}
+
+/**
+ * Split query text into tokens
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position: index, length: 1 });
+      index++;
+      continue;
+    }
+
+    const start = index;
+
+    // Free text in quotes
+    if (char === '"') {
+      const { value, end } = readQuoted(text, index);
+      tokens.push({
+        type: 'term',
+        position: start,
+        length: end - start,
+        term: { type: 'term', field: null, operator: ':', value, negated: false, range: null }
+      });
+      index = end;
+      continue;
+    }
+
+    // field, operator and value
+    FIELD_OPERATOR.lastIndex = index;
+    const match = FIELD_OPERATOR.exec(text);
+    if (match) {
+      const definition = getQueryField(match[1]);
+      if (!definition) {
+        throw new QueryParseError(`Unknown field "${match[1]}"`, start, match[1].length);
+      }
+
+      const operator = match[2] as QueryOperator;
+      index += match[0].length;
+      const negated = operator === ':' && text[index] === '!';
+      if (negated) index++;
+
+      const { value, end } = text[index] === '"' ? readQuoted(text, index) : readBare(text, index);
+      if (value === '') {
+        throw new QueryParseError(`Missing value for ${definition.name}`, start, end - start);
+      }
+
+      const term: QueryTerm = { type: 'term', field: definition.name, operator, value, negated, range: null };
+      checkTerm(term, definition, start, end - start);
+      tokens.push({ type: 'term', position: start, length: end - start, term });
+      index = end;
+      continue;
+    }
+
+    // Keyword or free text word
+    const { value, end } = readBare(text, index);
+    const keyword = value.toUpperCase();
+    if (KEYWORDS.includes(keyword)) {
+      tokens.push({ type: keyword.toLowerCase() as 'and' | 'or' | 'not', position: start, length: end - start });
+    } else {
+      tokens.push({
+        type: 'term',
+        position: start,
+        length: end - start,
+        term: { type: 'term', field: null, operator: ':', value, negated: false, range: null }
+      });
+    }
+    index = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse query text into a syntax tree; returns null for an empty query
+ * Terms next to each other are combined with AND; AND binds tighter than OR
+ */
+export function parseQuery(text: string): QueryNode | null {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return null;
+
+  let index = 0;
+  const peek = () => tokens[index];
+
+  function expected(after: string): QueryParseError {
+    const token = peek();
+    return token
+      ? new QueryParseError(`Expected a search term after ${after}`, token.position, token.length)
+      : new QueryParseError(`Expected a search term after ${after}`, text.length, 0);
+  }
+
+  function parseOr(): QueryNode {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      index++;
+      if (!peek() || peek().type === 'rparen' || peek().type === 'or' || peek().type === 'and') {
+        throw expected('OR');
+      }
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  function parseAnd(): QueryNode {
+    const children = [parseNot()];
+    while (peek() && peek().type !== 'or' && peek().type !== 'rparen') {
+      if (peek().type === 'and') {
+        index++;
+        if (!peek() || peek().type === 'rparen' || peek().type === 'or' || peek().type === 'and') {
+          throw expected('AND');
+        }
+      }
+      children.push(parseNot());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  function parseNot(): QueryNode {
+    if (peek()?.type === 'not') {
+      index++;
+      if (!peek() || peek().type === 'rparen' || peek().type === 'or' || peek().type === 'and') {
+        throw expected('NOT');
+      }
+      return { type: 'not', child: parseNot() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): QueryNode {
+    const token = peek();
+    if (!token) {
+      throw new QueryParseError('Unexpected end of query', text.length, 0);
+    }
+
+    if (token.type === 'lparen') {
+      index++;
+      if (peek()?.type === 'rparen') {
+        throw new QueryParseError('Empty parentheses', token.position, peek().position - token.position + 1);
+      }
+      const node = parseOr();
+      if (peek()?.type !== 'rparen') {
+        throw new QueryParseError('Missing closing parenthesis', token.position, 1);
+      }
+      index++;
+      return node;
+    }
+
+    if (token.type === 'term') {
+      index++;
+      return token.term;
+    }
+
+    throw new QueryParseError(
+      token.type === 'rparen' ? 'Unexpected closing parenthesis' : `Unexpected ${token.type.toUpperCase()}`,
+      token.position,
+      token.length
+    );
+  }
+
+  const node = parseOr();
+  const extra = peek();
+  if (extra) {
+    throw new QueryParseError('Unexpected closing parenthesis', extra.position, extra.length);
+  }
+  return node;
+}
+
+/**
+ * Compare a value with a date prefix; "2026-11" covers every day of November 2026
+ */
+function compareDate(value: string, prefix: string): number {
+  const truncated = value.slice(0, prefix.length);
+  return truncated < prefix ? -1 : truncated > prefix ? 1 : 0;
+}
+
+// Reads values straight from records, lowercasing text as it goes
+const RECORD_READER: QueryRowReader<DiscountRecord> = {
+  textTest: (field, test) => record => test(String(record[field] ?? '').toLowerCase()),
+  value: field => record => record[field]
+};
+
+// What a term tests: the lowercased text of its fields, any of which may match, or the value of one field
+type TermTest =
+  | { fields: (keyof DiscountRecord)[]; text: (text: string) => boolean }
+  | { field: keyof DiscountRecord; value: (value: unknown) => boolean };
+
+/**
+ * Test a single term applies, before negation
+ */
+function getTermTest(term: QueryTerm): TermTest {
+  const needle = term.value.toLowerCase();
+
+  if (term.field === null) {
+    return { fields: FREE_TEXT_FIELDS, text: text => text.includes(needle) };
+  }
+
+  const definition = getQueryField(term.field)!;
+  const field = definition.field;
+
+  if (definition.type === 'text') {
+    switch (term.operator) {
+      case '=':
+        return { fields: [field], text: text => text === needle };
+      case '!=':
+        return { fields: [field], text: text => text !== needle };
+      default:
+        return { fields: [field], text: text => text.includes(needle) };
+    }
+  }
+
+  // Numbers and dates both reduce to a comparison result: <0, 0 or >0
+  const compare = definition.type === 'number'
+    ? (value: unknown, bound: string) => Number(value) - Number(bound)
+    : (value: unknown, bound: string) => compareDate(String(value ?? ''), bound);
+
+  if (term.range) {
+    const [from, to] = term.range;
+    return { field, value: value => (!from || compare(value, from) >= 0) && (!to || compare(value, to) <= 0) };
+  }
+
+  const check: Record<QueryOperator, (result: number) => boolean> = {
+    ':': result => result === 0,
+    '=': result => result === 0,
+    '!=': result => result !== 0,
+    '>': result => result > 0,
+    '>=': result => result >= 0,
+    '<': result => result < 0,
+    '<=': result => result <= 0
+  };
+  const test = check[term.operator];
+  return { field, value: value => test(compare(value, term.value)) };
+}
+
+/**
+ * Build a predicate for a single term
+ */
+function compileTerm<T>(term: QueryTerm, reader: QueryRowReader<T>): (record: T) => boolean {
+  const test = getTermTest(term);
+  let matches: (record: T) => boolean;
+
+  if ('text' in test) {
+    const tests = test.fields.map(field => reader.textTest(field, test.text));
+    matches = tests.length === 1 ? tests[0] : record => tests.some(fieldTest => fieldTest(record));
+  } else {
+    const read = reader.value(test.field);
+    matches = record => test.value(read(record));
+  }
+
+  return term.negated ? record => !matches(record) : matches;
+}
+
+/**
+ * Compile a syntax tree to a record predicate
+ * Pass a reader to test other kinds of rows, e.g. positions in an index with precomputed lowercase values
+ */
+export function compileQuery(node: QueryNode): (record: DiscountRecord) => boolean;
+export function compileQuery<T>(node: QueryNode, reader: QueryRowReader<T>): (row: T) => boolean;
+export function compileQuery<T>(
+  node: QueryNode,
+  reader: QueryRowReader<T> = RECORD_READER as unknown as QueryRowReader<T>
+): (row: T) => boolean {
+  switch (node.type) {
+    case 'and': {
+      const children = node.children.map(child => compileQuery(child, reader));
+      return row => children.every(matches => matches(row));
+    }
+    case 'or': {
+      const children = node.children.map(child => compileQuery(child, reader));
+      return row => children.some(matches => matches(row));
+    }
+    case 'not': {
+      const child = compileQuery(node.child, reader);
+      return row => !child(row);
+    }
+    default:
+      return compileTerm(node, reader);
+  }
+}
+
+/**
+ * Flag every row flagged in source as well
+ */
+function addFlags(target: Uint8Array, source: Uint8Array) {
+  for (let row = 0; row < target.length; row++) {
+    target[row] |= source[row];
+  }
+}
+
+/**
+ * Rows among the candidates that are not flagged; every row is a candidate when candidates is null
+ */
+function complementFlags(flags: Uint8Array, candidates: Uint8Array | null): Uint8Array {
+  const result = new Uint8Array(flags.length);
+  for (let row = 0; row < flags.length; row++) {
+    result[row] = (candidates ? candidates[row] : 1) & (flags[row] ^ 1);
+  }
+  return result;
+}
+
+/**
+ * Flags of the rows among the candidates that match a single term
+ */
+function evaluateTerm(term: QueryTerm, reader: QuerySetReader, candidates: Uint8Array | null): Uint8Array {
+  const test = getTermTest(term);
+  let flags: Uint8Array;
+
+  if ('text' in test) {
+    flags = new Uint8Array(reader.size);
+    test.fields.forEach(field => reader.matchText(field, test.text, candidates, flags));
+  } else {
+    flags = reader.matchValue(test.field, test.value, candidates);
+  }
+
+  return term.negated ? complementFlags(flags, candidates) : flags;
+}
+
+/**
+ * Evaluate a syntax tree over a whole set of rows at once, returning a flag per row (1 for a match)
+ * Only candidate rows are tested: each term of an AND is tested on the rows the terms before it left
+ */
+export function evaluateQuery(node: QueryNode, reader: QuerySetReader, candidates: Uint8Array | null = null): Uint8Array {
+  switch (node.type) {
+    case 'and': {
+      let flags = candidates;
+      node.children.forEach(child => {
+        flags = evaluateQuery(child, reader, flags);
+      });
+      return flags ?? new Uint8Array(reader.size).fill(1);
+    }
+    case 'or': {
+      const flags = new Uint8Array(reader.size);
+      node.children.forEach(child => addFlags(flags, evaluateQuery(child, reader, candidates)));
+      return flags;
+    }
+    case 'not':
+      return complementFlags(evaluateQuery(node.child, reader, candidates), candidates);
+    default:
+      return evaluateTerm(node, reader, candidates);
+  }
+}
+
+/**
+ * Quote a value when it would not survive as a bare word
+ */
+function quoteValue(value: string): string {
+  return /^[^\s()"]+$/.test(value) && !KEYWORDS.includes(value.toUpperCase())
+    ? value
+    : `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+/**
+ * Write a syntax tree back as query text
+ */
+export function formatQuery(node: QueryNode): string {
+  switch (node.type) {
+    case 'and':
+      return node.children.map(child => (child.type === 'or' ? `(${formatQuery(child)})` : formatQuery(child))).join(' ');
+    case 'or':
+      return node.children.map(formatQuery).join(' OR ');
+    case 'not':
+      return `NOT ${node.child.type === 'term' || node.child.type === 'not' ? formatQuery(node.child) : `(${formatQuery(node.child)})`}`;
+    default: {
+      const value = node.range ? `${node.range[0]}..${node.range[1]}` : quoteValue(node.value);
+      if (node.field === null) return value;
+      return `${node.field}${node.operator}${node.negated ? '!' : ''}${value}`;
+    }
+  }
+}
+
+/**
+ * Top-level clauses of a query, each shown as one chip
+ */
+export function getQueryClauses(node: QueryNode | null): QueryNode[] {
+  if (!node) return [];
+  return node.type === 'and' ? node.children : [node];
+}
+
+/**
+ * Query text with one top-level clause removed
+ */
+export function removeQueryClause(node: QueryNode, index: number): string {
+  const remaining = getQueryClauses(node).filter((_, clauseIndex) => clauseIndex !== index);
+  if (remaining.length === 0) return '';
+  return formatQuery(remaining.length === 1 ? remaining[0] : { type: 'and', children: remaining });
+}
+
+/**
+ * Completions for the word at the cursor: field names, keywords, or values of the field being typed
+ */
+export function getQuerySuggestions(
+  text: string,
+  cursor: number,
+  getValues: (field: keyof DiscountRecord) => string[],
+  limit: number = 8
+): QuerySuggestions {
+  const before = text.slice(0, cursor);
+
+  // Inside an open quote the word starts before the quote, at the field name if any
+  const quoteCount = (before.match(/"/g) ?? []).length;
+  let from = quoteCount % 2 === 1 ? before.lastIndexOf('"') : cursor;
+  while (from > 0 && !/[\s()]/.test(text[from - 1])) {
+    from--;
+  }
+  const word = text.slice(from, cursor);
+
+  const fieldMatch = /^([A-Za-z]+)(>=|<=|!=|:|=|>|<)(!?)"?([^"]*)$/.exec(word);
+  if (fieldMatch) {
+    const definition = getQueryField(fieldMatch[1]);
+    if (!definition) return { from, to: cursor, items: [] };
+
+    const [, name, operator, negation, partial] = fieldMatch;
+    const needle = partial.toLowerCase();
+    const values = getValues(definition.field).filter(value => value.toLowerCase().includes(needle));
+    // Values starting with what was typed come first
+    values.sort((a, b) => Number(!a.toLowerCase().startsWith(needle)) - Number(!b.toLowerCase().startsWith(needle)));
+
+    return {
+      from,
+      to: cursor,
+      items: values.slice(0, limit).map(value => ({
+        label: value,
+        insert: `${name}${operator}${negation}${quoteValue(value)} `,
+        kind: 'value'
+      }))
+    };
+  }
+
+  if (!/^[A-Za-z]*$/.test(word)) return { from, to: cursor, items: [] };
+
+  const needle = word.toLowerCase();
+  const items: QuerySuggestion[] = QUERY_FIELDS
+    .filter(definition => definition.name.startsWith(needle))
+    .map(definition => ({ label: `${definition.name}:`, insert: `${definition.name}:`, kind: 'field' }));
+
+  if (needle) {
+    KEYWORDS
+      .filter(keyword => keyword.toLowerCase().startsWith(needle))
+      .forEach(keyword => items.push({ label: keyword, insert: `${keyword} `, kind: 'keyword' }));
+  }
+
+  return { from, to: cursor, items: items.slice(0, limit) };
+}
@@ -0,0 +1,604 @@
+/**
+ * Indexed record store used by the data store and the data engine
+ * Records are kept in display order with a clientId → position lookup, so single-record updates are O(1).
+ * Each record holds a numbered key for as long as it is indexed, and the position of each key sits in a
+ * plain array, so moving rows after a removal or insertion never rewrites the clientId map.
+ *
+ * Categorical fields are dictionary-encoded: each distinct value gets a code, every row stores its code
+ * and the number of rows per code is kept current. Filters on these fields are evaluated once per
+ * distinct value instead of once per row, and value counts never need a scan. Posting lists hold the
+ * positions of each code, so a filter on these fields only visits the rows it matches.
+ * Other fields are dictionary-encoded the first time they are searched, so text search tests each
+ * distinct value once and never lowercases every field of every row.
+ */
+
+import type { DiscountRecord, PositionedRecord } from '../types/discount';
+import { toFilterValue } from './setFilter';
+
+// Fields with few distinct values, indexed by value
+export const INDEXED_FIELDS = [
+  'client',
+  'platform',
+  'region',
+  'timezone',
+  'implementationStatus',
+  'salesEventStatus',
+  'month'
+] as const satisfies readonly (keyof DiscountRecord)[];
+
+export type IndexedField = (typeof INDEXED_FIELDS)[number];
+
+// Dictionary-encoded values of one field
+interface ValueColumn {
+  values: string[]; // Distinct values by code
+  normalized: string[]; // Lowercased values by code
+  codeByValue: Map<string, number>;
+  counts: number[]; // Rows per code; codes whose rows are all gone stay with a count of 0
+  codes: Int32Array; // Code of each row, by position, with room for rows to come
+  // Field value of the first row of each code; mixed once rows of one code hold different values,
+  // such as 50 and '50' or null and '', so tests on field values cannot run once per code
+  raw: unknown[];
+  mixed: boolean;
+  // Positions of the rows of each code, in no particular order; indexed fields only, built on first use
+  // and dropped when rows move. slots holds where each position sits in its code's list
+  postings: number[][] | null;
+  slots: number[];
+}
+
+export type RecordIndex = ReturnType<typeof createRecordIndex>;
+
+/**
+ * Whether a field is dictionary-encoded by the index
+ */
+export function isIndexedField(field: string): field is IndexedField {
+  return (INDEXED_FIELDS as readonly string[]).includes(field);
+}
+
+// Fewest rows the typed arrays of an index have room for
+const MIN_CAPACITY = 1024;
+
+/**
+ * Rows to make room for when an index holds a number of rows, leaving space to insert more without copying
+ */
+function getCapacity(size: number): number {
+  return Math.max(MIN_CAPACITY, Math.ceil(size * 1.5));
+}
+
+/**
+ * Copy of a typed array with room for more rows
+ */
+function growRows(array: Int32Array, capacity: number): Int32Array {
+  const grown = new Int32Array(capacity);
+  grown.set(array);
+  return grown;
+}
+
+function createColumn(capacity: number): ValueColumn {
+  return {
+    values: [],
+    normalized: [],
+    codeByValue: new Map(),
+    counts: [],
+    codes: new Int32Array(capacity),
+    raw: [],
+    mixed: false,
+    postings: null,
+    slots: []
+  };
+}
+
+/**
+ * Code for a field value, adding it to the dictionary when it is new; values are coded by their text
+ */
+function getCode(column: ValueColumn, value: unknown): number {
+  const text = toFilterValue(value);
+  let code = column.codeByValue.get(text);
+  if (code === undefined) {
+    code = column.values.length;
+    column.values.push(text);
+    column.normalized.push(text.toLowerCase());
+    column.counts.push(0);
+    column.raw.push(value);
+    column.postings?.push([]);
+    column.codeByValue.set(text, code);
+  } else if (!column.mixed && !Object.is(column.raw[code], value)) {
+    column.mixed = true;
+  }
+  return code;
+}
+
+/**
+ * Flag of each code whose value passes a test, 1 by code
+ */
+function acceptCodes<T>(values: readonly T[], test: (value: T) => boolean): Uint8Array {
+  const accepted = new Uint8Array(values.length);
+  for (let code = 0; code < values.length; code++) {
+    if (test(values[code])) accepted[code] = 1;
+  }
+  return accepted;
+}
+
+/**
+ * Give a row a code, keeping counts and posting lists current; replacing releases the code it had, unless unchanged
+ */
+function addRow(column: ValueColumn, position: number, value: unknown, replacing = false) {
+  const code = getCode(column, value);
+  if (replacing) {
+    if (column.codes[position] === code) return;
+    releaseRow(column, position);
+  }
+  column.codes[position] = code;
+  column.counts[code]++;
+  if (column.postings) {
+    column.slots[position] = column.postings[code].length;
+    column.postings[code].push(position);
+  }
+}
+
+/**
+ * Move the rows of an array down over removed positions, which are sorted, and drop the rest
+ */
+function compactRows<T>(array: T[], removedPositions: readonly number[]) {
+  let write = removedPositions[0];
+  let nextRemoved = 0;
+  for (let read = write; read < array.length; read++) {
+    if (removedPositions[nextRemoved] === read) {
+      nextRemoved++;
+    } else {
+      array[write++] = array[read];
+    }
+  }
+  array.length = write;
+}
+
+/**
+ * Move the first rows of a typed array down over removed positions, which are sorted, a run of kept rows at a time
+ */
+function compactCodes(array: Int32Array, size: number, removedPositions: readonly number[]) {
+  let write = removedPositions[0];
+  removedPositions.forEach((removed, i) => {
+    const end = i + 1 < removedPositions.length ? removedPositions[i + 1] : size;
+    array.copyWithin(write, removed + 1, end);
+    write += end - removed - 1;
+  });
+}
+
+/**
+ * Move the rows of an array up to open the target positions, which are sorted; the opened rows are left to fill
+ */
+function openRows<T>(array: T[], targets: readonly number[]) {
+  let read = array.length - 1;
+  for (let i = 0; i < targets.length; i++) {
+    // Grow by repeating the last row, so the array never gets holes
+    array.push(array[read]);
+  }
+
+  let next = targets.length - 1;
+  for (let write = array.length - 1; write >= targets[0]; write--) {
+    if (targets[next] === write) {
+      next--;
+    } else {
+      array[write] = array[read--];
+    }
+  }
+}
+
+/**
+ * Move the first rows of a typed array up to open the target positions, which are sorted, a run at a time
+ * The array must have room for the opened rows
+ */
+function openCodes(array: Int32Array, size: number, targets: readonly number[]) {
+  for (let i = targets.length - 1; i >= 0; i--) {
+    // Rows after target i, up to the next target, move up by the i + 1 rows opened before them
+    const end = i + 1 < targets.length ? targets[i + 1] : size + targets.length;
+    array.copyWithin(targets[i] + 1, targets[i] - i, end - i - 1);
+  }
+}
+
+/**
+ * Take a row's code back before it gets a new one; the last row of its posting list fills its slot
+ */
+function releaseRow(column: ValueColumn, position: number) {
+  const code = column.codes[position];
+  column.counts[code]--;
+  if (column.postings) {
+    const list = column.postings[code];
+    const last = list.pop()!;
+    if (last !== position) {
+      const slot = column.slots[position];
+      list[slot] = last;
+      column.slots[last] = slot;
+    }
+  }
+}
+
+export function createRecordIndex(initialRecords: readonly DiscountRecord[] = []) {
+  let records: DiscountRecord[] = [];
+  let rowIds: string[] = []; // clientId of each row by position, read without touching the records
+  const keyById = new Map<string, number>();
+  let rowKeys = new Int32Array(0); // Key of each row by position, with the same room as the codes
+  // Position of each key's row, -1 once removed; removed records keep their key, so restoring them
+  // reuses it and the clientId map never fills up with deleted entries
+  let positionByKey: number[] = [];
+  let columns = {} as Record<IndexedField, ValueColumn>;
+
+  // Other fields, encoded the same way when first filtered; no posting lists, as most have many values
+  let otherColumns = new Map<keyof DiscountRecord, ValueColumn>();
+
+  /**
+   * Write the codes of the record at a position
+   * Replacing a record releases the codes it had, except for fields that still hold the same value
+   */
+  function indexRow(position: number, record: DiscountRecord, replaced: DiscountRecord | null) {
+    INDEXED_FIELDS.forEach(field => {
+      if (!replaced || !Object.is(replaced[field], record[field])) {
+        addRow(columns[field], position, record[field], replaced !== null);
+      }
+    });
+    otherColumns.forEach((column, field) => {
+      if (!replaced || !Object.is(replaced[field], record[field])) {
+        addRow(column, position, record[field], replaced !== null);
+      }
+    });
+  }
+
+  /**
+   * Position of an indexed record
+   */
+  function getPosition(clientId: string): number | undefined {
+    const key = keyById.get(clientId);
+    const position = key === undefined ? -1 : positionByKey[key];
+    return position < 0 ? undefined : position;
+  }
+
+  /**
+   * Give a record a key at a position
+   */
+  function assignKey(clientId: string, position: number) {
+    let key = keyById.get(clientId);
+    if (key === undefined) {
+      key = positionByKey.length;
+      keyById.set(clientId, key);
+    }
+    rowKeys[position] = key;
+    positionByKey[key] = position;
+  }
+
+  /**
+   * Point the keys of every row from a position on at their positions again, after rows moved
+   */
+  function updatePositions(from: number) {
+    for (let position = from; position < records.length; position++) {
+      positionByKey[rowKeys[position]] = position;
+    }
+  }
+
+  /**
+   * Every array indexed by position, so rows can be moved in all of them at once
+   * Posting lists hold positions, so they are dropped and rebuilt on next use
+   */
+  function getRowArrays(): { rows: unknown[][]; codes: Int32Array[] } {
+    INDEXED_FIELDS.forEach(field => {
+      columns[field].postings = null;
+      columns[field].slots = [];
+    });
+    return {
+      rows: [records, rowIds],
+      codes: [
+        rowKeys,
+        ...INDEXED_FIELDS.map(field => columns[field].codes),
+        ...Array.from(otherColumns.values(), column => column.codes)
+      ]
+    };
+  }
+
+  /**
+   * Make room in the typed arrays for a number of rows, growing all of them together
+   */
+  function reserveRows(size: number) {
+    if (size <= rowKeys.length) return;
+    const capacity = getCapacity(size);
+    rowKeys = growRows(rowKeys, capacity);
+    INDEXED_FIELDS.forEach(field => {
+      columns[field].codes = growRows(columns[field].codes, capacity);
+    });
+    otherColumns.forEach(column => {
+      column.codes = growRows(column.codes, capacity);
+    });
+  }
+
+  /**
+   * Replace every record
+   */
+  function reset(next: readonly DiscountRecord[]) {
+    records = [...next];
+    rowIds = records.map(record => record.clientId);
+    keyById.clear();
+    rowKeys = new Int32Array(getCapacity(records.length));
+    positionByKey = [];
+    columns = {} as Record<IndexedField, ValueColumn>;
+    INDEXED_FIELDS.forEach(field => {
+      columns[field] = createColumn(rowKeys.length);
+    });
+    otherColumns = new Map();
+
+    records.forEach((record, position) => {
+      assignKey(record.clientId, position);
+      indexRow(position, record, null);
+    });
+  }
+
+  /**
+   * Replace existing records in place, O(1) each
+   * Returns the versions that were replaced with their positions; records that are not in the index are ignored
+   */
+  function replace(updated: readonly DiscountRecord[]): PositionedRecord[] {
+    const previous: PositionedRecord[] = [];
+    updated.forEach(record => {
+      const position = getPosition(record.clientId);
+      if (position === undefined) return;
+
+      const replaced = records[position];
+      previous.push({ index: position, record: replaced });
+      records[position] = record;
+      indexRow(position, record, replaced);
+    });
+    return previous;
+  }
+
+  /**
+   * Remove records, compacting the rows after the first removed one in place
+   * Returns the removed records with the positions they had, in position order
+   */
+  function remove(clientIds: Iterable<string>): PositionedRecord[] {
+    const removedPositions: number[] = [];
+    for (const clientId of new Set(clientIds)) {
+      const position = getPosition(clientId);
+      if (position !== undefined) removedPositions.push(position);
+    }
+    if (removedPositions.length === 0) return [];
+    removedPositions.sort((a, b) => a - b);
+
+    const arrays = getRowArrays();
+    const removed = removedPositions.map(position => {
+      const record = records[position];
+      positionByKey[rowKeys[position]] = -1;
+      INDEXED_FIELDS.forEach(field => releaseRow(columns[field], position));
+      otherColumns.forEach(column => releaseRow(column, position));
+      return { index: position, record };
+    });
+
+    arrays.codes.forEach(array => compactCodes(array, records.length, removedPositions));
+    arrays.rows.forEach(array => compactRows(array, removedPositions));
+    updatePositions(removedPositions[0]);
+    return removed;
+  }
+
+  /**
+   * Insert records at the given positions, shifting the rows after the first one in place
+   * Positions past the end append; returns the inserted records in position order
+   */
+  function insert(positioned: readonly PositionedRecord[]): PositionedRecord[] {
+    const sorted = [...positioned].sort((a, b) => a.index - b.index);
+    if (sorted.length === 0) return sorted;
+
+    // Where each record lands: its position, after the record inserted before it, at most the end
+    const count = records.length;
+    const targets: number[] = [];
+    sorted.forEach((item, offset) => {
+      const afterPrevious = offset > 0 ? targets[offset - 1] + 1 : 0;
+      targets.push(Math.min(Math.max(item.index, afterPrevious), count + offset));
+    });
+
+    reserveRows(count + sorted.length);
+    const arrays = getRowArrays();
+    if (count > 0) {
+      arrays.codes.forEach(array => openCodes(array, count, targets));
+      arrays.rows.forEach(array => openRows(array, targets));
+    }
+    sorted.forEach(({ record }, offset) => {
+      const position = targets[offset];
+      records[position] = record;
+      rowIds[position] = record.clientId;
+      assignKey(record.clientId, position);
+      indexRow(position, record, null);
+    });
+    updatePositions(targets[0]);
+
+    return sorted;
+  }
+
+  /**
+   * Replace the records that exist and append the rest
+   */
+  function upsert(changed: readonly DiscountRecord[]) {
+    const added: PositionedRecord[] = [];
+    changed.forEach(record => {
+      const position = getPosition(record.clientId);
+      if (position === undefined) {
+        added.push({ index: records.length + added.length, record });
+      } else {
+        const replaced = records[position];
+        records[position] = record;
+        indexRow(position, record, replaced);
+      }
+    });
+    insert(added);
+  }
+
+  /**
+   * Encoded values of a field; fields that are not indexed are encoded on first use
+   */
+  function getColumn(field: keyof DiscountRecord): ValueColumn {
+    if (isIndexedField(field)) return columns[field];
+
+    let column = otherColumns.get(field);
+    if (!column) {
+      const created = createColumn(rowKeys.length);
+      records.forEach((record, position) => addRow(created, position, record[field]));
+      otherColumns.set(field, created);
+      column = created;
+    }
+    return column;
+  }
+
+  /**
+   * Posting lists of an indexed field, built on first use
+   */
+  function getPostings(column: ValueColumn): number[][] {
+    if (!column.postings) {
+      const postings: number[][] = column.values.map(() => []);
+      const slots: number[] = new Array(records.length);
+      for (let position = 0; position < records.length; position++) {
+        const code = column.codes[position];
+        slots[position] = postings[code].length;
+        postings[code].push(position);
+      }
+      column.postings = postings;
+      column.slots = slots;
+    }
+    return column.postings;
+  }
+
+  /**
+   * Row test on a field's lowercased value, run once per distinct value as values are met
+   * Follows later changes, including values added after the test was built
+   */
+  function getTextTest(field: keyof DiscountRecord, test: (text: string) => boolean): (position: number) => boolean {
+    const column = getColumn(field);
+    const accepted: boolean[] = [];
+    return position => {
+      const code = column.codes[position];
+      if (accepted[code] === undefined) accepted[code] = test(column.normalized[code]);
+      return accepted[code];
+    };
+  }
+
+  /**
+   * Lowercased value of a field at a position
+   */
+  function normalizedAt(field: keyof DiscountRecord, position: number): string {
+    const column = getColumn(field);
+    return column.normalized[column.codes[position]];
+  }
+
+  /**
+   * Which codes of a field pass a value test, evaluated once per distinct value
+   */
+  function matchCodes(field: IndexedField, matches: (value: string) => boolean): Uint8Array {
+    return acceptCodes(columns[field].values, matches);
+  }
+
+  /**
+   * Set the flag of every candidate row whose code is accepted to 1, by position; other flags are left alone
+   * Indexed fields visit only the rows of accepted codes, through their posting lists
+   */
+  function flagRows(
+    field: keyof DiscountRecord,
+    accepted: Uint8Array,
+    candidates: Uint8Array | null,
+    flags: Uint8Array = new Uint8Array(records.length)
+  ): Uint8Array {
+    const column = getColumn(field);
+    const { codes } = column;
+
+    if (isIndexedField(field)) {
+      const postings = getPostings(column);
+      accepted.forEach((isAccepted, code) => {
+        if (isAccepted === 0) return;
+        postings[code].forEach(position => {
+          if (!candidates || candidates[position] === 1) flags[position] = 1;
+        });
+      });
+      return flags;
+    }
+
+    for (let position = 0; position < records.length; position++) {
+      if (accepted[codes[position]] === 1 && (!candidates || candidates[position] === 1)) {
+        flags[position] = 1;
+      }
+    }
+    return flags;
+  }
+
+  /**
+   * Flags of the rows whose lowercased value of a field passes a test, run once per distinct value
+   * Pass flags to add the matching rows to them
+   */
+  function matchText(
+    field: keyof DiscountRecord,
+    test: (text: string) => boolean,
+    candidates: Uint8Array | null = null,
+    flags?: Uint8Array
+  ): Uint8Array {
+    return flagRows(field, acceptCodes(getColumn(field).normalized, test), candidates, flags);
+  }
+
+  /**
+   * Flags of the rows whose value of a field passes a test
+   * Runs once per distinct value, or once per candidate row when one text stands for different values
+   */
+  function matchValues(
+    field: keyof DiscountRecord,
+    matches: (value: unknown) => boolean,
+    candidates: Uint8Array | null = null
+  ): Uint8Array {
+    const column = getColumn(field);
+    if (!column.mixed) {
+      return flagRows(field, acceptCodes(column.raw, matches), candidates);
+    }
+
+    const flags = new Uint8Array(records.length);
+    for (let position = 0; position < records.length; position++) {
+      if ((!candidates || candidates[position] === 1) && matches(records[position][field])) {
+        flags[position] = 1;
+      }
+    }
+    return flags;
+  }
+
+  /**
+   * Number of records per distinct value of an indexed field, blanks under ''
+   */
+  function getValueCounts(field: IndexedField): Map<string, number> {
+    const { values, counts } = columns[field];
+    const result = new Map<string, number>();
+    values.forEach((value, code) => {
+      if (counts[code] > 0) result.set(value, counts[code]);
+    });
+    return result;
+  }
+
+  reset(initialRecords);
+
+  return {
+    get size() {
+      return records.length;
+    },
+    // Records in position order; changed in place, not to be modified by callers
+    get records(): readonly DiscountRecord[] {
+      return records;
+    },
+    // clientIds in position order; changed in place like records
+    get clientIds(): readonly string[] {
+      return rowIds;
+    },
+    get: (clientId: string): DiscountRecord | undefined => {
+      const position = getPosition(clientId);
+      return position === undefined ? undefined : records[position];
+    },
+    positionOf: getPosition,
+    codeAt: (field: IndexedField, position: number): number => columns[field].codes[position],
+    reset,
+    replace,
+    remove,
+    insert,
+    upsert,
+    getTextTest,
+    normalizedAt,
+    matchCodes,
+    matchText,
+    matchValues,
+    getValueCounts
+  };
+}
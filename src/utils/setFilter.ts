@@ -0,0 +1,56 @@
+/**
+ * Helpers for the multi-select set filter
+ * Cell values are compared as strings; blank cells are represented by an empty string
+ */
+
+// Filter model saved in views and URLs; values are the selected cell values
+export interface SetFilterModel {
+  filterType: 'set';
+  values: string[];
+}
+
+// Label shown for blank cells
+export const BLANK_LABEL = '(Blanks)';
+
+/**
+ * Turn a cell value into the string the set filter compares
+ */
+export function toFilterValue(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Label shown for a filter value
+ */
+export function formatFilterValue(value: string): string {
+  return value === '' ? BLANK_LABEL : value;
+}
+
+/**
+ * Sort filter values with a comparator, or numerically when every value is a number; blanks go last
+ */
+export function sortFilterValues(values: string[], comparator?: (a: string, b: string) => number): string[] {
+  const nonBlank = values.filter(value => value !== '');
+  const numeric = !comparator && nonBlank.every(value => !isNaN(Number(value)));
+  const sorted = nonBlank.sort(comparator ?? (numeric ? (a, b) => Number(a) - Number(b) : (a, b) => a.localeCompare(b)));
+  return values.length > nonBlank.length ? [...sorted, ''] : sorted;
+}
+
+/**
+ * Values whose label contains the search text, ignoring case
+ */
+export function searchFilterValues(values: string[], search: string): string[] {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return values;
+  return values.filter(value => formatFilterValue(value).toLowerCase().includes(needle));
+}
+
+/**
+ * Short description of a set filter model, e.g. "Steam, GOG +2 more"
+ */
+export function describeSetFilterModel(model: SetFilterModel | null): string {
+  if (!model) return '';
+  const labels = model.values.map(formatFilterValue);
+  if (labels.length === 0) return 'None';
+  return labels.length <= 2 ? labels.join(', ') : `${labels[0]}, ${labels[1]} +${labels.length - 2} more`;
+}
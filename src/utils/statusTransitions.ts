@@ -0,0 +1,93 @@
+/**
+ * Status transition model for implementation and sales event statuses
+ * Defines which status changes are allowed, who may make them and which happen automatically by date
+ */
+
+import {
+  type DiscountRecord,
+  type StatusTransition,
+  type UserRole,
+  ImplementationStatus,
+  SalesEventStatus,
+  IMPLEMENTATION_STATUS_TRANSITIONS,
+  SALES_EVENT_STATUS_TRANSITIONS
+} from '../types/discount';
+import { getStartInstant, getEndInstant } from './dateUtils';
+
+export type StatusField = 'implementationStatus' | 'salesEventStatus';
+
+// Order of the date-driven sales event lifecycle; the scheduler only moves forwards
+const SCHEDULED_ORDER: SalesEventStatus[] = [
+  SalesEventStatus.PLANNED,
+  SalesEventStatus.ACTIVE,
+  SalesEventStatus.COMPLETED
+];
+
+/**
+ * Transitions defined for the current status of a field
+ */
+function getTransitions(field: StatusField, current: string): StatusTransition<string>[] {
+  const table: Record<string, StatusTransition<string>[]> = field === 'implementationStatus'
+    ? IMPLEMENTATION_STATUS_TRANSITIONS
+    : SALES_EVENT_STATUS_TRANSITIONS;
+  return table[current] ?? [];
+}
+
+/**
+ * Statuses a role may choose from, starting with the current status
+ */
+export function getNextStatuses(field: StatusField, current: string, role: UserRole): string[] {
+  const next = getTransitions(field, current)
+    .filter(transition => transition.roles.includes(role))
+    .map(transition => transition.to);
+  return [current, ...next];
+}
+
+/**
+ * Check whether a role may change a status field from one value to another
+ */
+export function canTransition(field: StatusField, from: string, to: string, role: UserRole): boolean {
+  return from === to || getNextStatuses(field, from, role).includes(to);
+}
+
+/**
+ * Sales event status implied by the start and end date/time at a given moment
+ */
+export function getSalesEventStatusByDate(record: DiscountRecord, now: number = Date.now()): SalesEventStatus | null {
+  const start = getStartInstant(record);
+  const end = getEndInstant(record);
+  if (isNaN(start) || isNaN(end)) return null;
+
+  if (now < start) return SalesEventStatus.PLANNED;
+  if (now < end) return SalesEventStatus.ACTIVE;
+  return SalesEventStatus.COMPLETED;
+}
+
+/**
+ * Status the scheduler should move a record to, or null when no change is due
+ * Cancelled events are left alone and statuses never move backwards; events whose implementation
+ * is not completed stay as they are, since starting them would break isStatusCombinationValid
+ */
+export function getScheduledSalesEventStatus(
+  record: DiscountRecord,
+  now: number = Date.now()
+): SalesEventStatus | null {
+  const currentIndex = SCHEDULED_ORDER.indexOf(record.salesEventStatus);
+  if (currentIndex === -1) return null;
+
+  const target = getSalesEventStatusByDate(record, now);
+  if (!target || SCHEDULED_ORDER.indexOf(target) <= currentIndex) return null;
+
+  if (!isStatusCombinationValid({ ...record, salesEventStatus: target })) return null;
+  return canTransition('salesEventStatus', record.salesEventStatus, target, 'system') ? target : null;
+}
+
+/**
+ * Check that the sales event status is consistent with the implementation status
+ * An event can only be running or finished once its implementation is completed
+ */
+export function isStatusCombinationValid(record: DiscountRecord): boolean {
+  const eventStarted = record.salesEventStatus === SalesEventStatus.ACTIVE ||
+    record.salesEventStatus === SalesEventStatus.COMPLETED;
+  return !eventStarted || record.implementationStatus === ImplementationStatus.COMPLETED;
+}
@@ -0,0 +1,122 @@
+/**
+ * Layout for the timeline view
+ * Groups records, packs overlapping discount windows into lanes and indexes bars by row for drawing and hit testing
+ */
+
+import type { DiscountRecord } from '../types/discount';
+import { getStartInstant, getEndInstant } from './dateUtils';
+
+export type TimelineGroupBy = 'client' | 'platform' | 'region';
+
+// A record drawn as a bar from its start to its end instant
+export interface TimelineBar {
+  record: DiscountRecord;
+  start: number;
+  end: number;
+  row: number;
+}
+
+// A group of rows sharing the same client, platform or region
+export interface TimelineGroup {
+  label: string;
+  firstRow: number;
+  rowCount: number;
+  barCount: number;
+}
+
+export interface TimelineLayout {
+  groups: TimelineGroup[];
+  rows: TimelineBar[][]; // Bars in each row, sorted by start
+  rowGroups: number[]; // Index into groups for each row
+  minTime: number;
+  maxTime: number;
+}
+
+/**
+ * Start and end instant of a record, preferring the values precomputed by the data store
+ */
+export function getRecordInterval(record: DiscountRecord): { start: number; end: number } {
+  return {
+    start: record.startInstant ?? getStartInstant(record),
+    end: record.endInstant ?? getEndInstant(record)
+  };
+}
+
+/**
+ * Build the timeline layout for a set of records
+ * Each group is sorted by start and bars are placed in the first lane that is free,
+ * so the cost is O(n log n) plus O(n x lanes) for the packing.
+ * Records with invalid or out-of-order dates are left out.
+ */
+export function buildTimelineLayout(records: readonly DiscountRecord[], groupBy: TimelineGroupBy): TimelineLayout {
+  const byGroup = new Map<string, TimelineBar[]>();
+  let minTime = Infinity;
+  let maxTime = -Infinity;
+
+  records.forEach(record => {
+    const { start, end } = getRecordInterval(record);
+    if (isNaN(start) || isNaN(end) || end <= start) return;
+
+    const key = String(record[groupBy]);
+    let bars = byGroup.get(key);
+    if (!bars) {
+      bars = [];
+      byGroup.set(key, bars);
+    }
+    bars.push({ record, start, end, row: 0 });
+
+    if (start < minTime) minTime = start;
+    if (end > maxTime) maxTime = end;
+  });
+
+  const groups: TimelineGroup[] = [];
+  const rows: TimelineBar[][] = [];
+  const rowGroups: number[] = [];
+
+  Array.from(byGroup.keys())
+    .sort((a, b) => a.localeCompare(b))
+    .forEach(label => {
+      const bars = byGroup.get(label)!;
+      bars.sort((a, b) => a.start - b.start);
+
+      // End time of the last bar in each lane of this group
+      const laneEnds: number[] = [];
+      const firstRow = rows.length;
+
+      bars.forEach(bar => {
+        let lane = laneEnds.findIndex(laneEnd => laneEnd <= bar.start);
+        if (lane === -1) {
+          lane = laneEnds.length;
+          rows.push([]);
+          rowGroups.push(groups.length);
+        }
+        laneEnds[lane] = bar.end;
+        bar.row = firstRow + lane;
+        rows[bar.row].push(bar);
+      });
+
+      groups.push({ label, firstRow, rowCount: laneEnds.length, barCount: bars.length });
+    });
+
+  return {
+    groups,
+    rows,
+    rowGroups,
+    minTime: isFinite(minTime) ? minTime : Date.now(),
+    maxTime: isFinite(maxTime) ? maxTime : Date.now()
+  };
+}
+
+/**
+ * Find the bar in a row that covers a time, allowing some slack at the edges
+ */
+export function findBarAt(layout: TimelineLayout, row: number, time: number, tolerance: number = 0): TimelineBar | null {
+  const bars = layout.rows[row];
+  if (!bars) return null;
+
+  for (const bar of bars) {
+    if (bar.start - tolerance > time) break;
+    if (bar.end + tolerance >= time) return bar;
+  }
+  return null;
+}
@@ -0,0 +1,94 @@
+/**
+ * Encoding of grid state in the URL query string
+ * Lets a link reproduce a filtered, sorted page of the grid and optionally focus one record
+ */
+
+import type { GridViewState } from '../types/discount';
+
+// Grid state carried in the URL; page is zero-based, the query string shows it one-based
+export interface UrlGridState {
+  filterModel: GridViewState['filterModel'];
+  sortModel: GridViewState['sortModel'];
+  page: number;
+  focusedRecord: string | null;
+}
+
+// Query string parameter names
+const FILTER_PARAM = 'filter';
+const SORT_PARAM = 'sort';
+const PAGE_PARAM = 'page';
+const RECORD_PARAM = 'record';
+
+const STATE_PARAMS = [FILTER_PARAM, SORT_PARAM, PAGE_PARAM, RECORD_PARAM];
+
+/**
+ * Parse the filter parameter, ignoring anything that is not a JSON object
+ */
+function parseFilterModel(value: string | null): UrlGridState['filterModel'] {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Parse the sort parameter, a comma-separated list of column:direction pairs
+ */
+function parseSortModel(value: string | null): UrlGridState['sortModel'] {
+  if (!value) return [];
+  return value.split(',').flatMap(part => {
+    const [colId, sort] = part.split(':');
+    return colId && (sort === 'asc' || sort === 'desc') ? [{ colId, sort }] : [];
+  });
+}
+
+/**
+ * Read grid state from a query string; missing or malformed parameters fall back to defaults
+ */
+export function decodeUrlState(search: string): UrlGridState {
+  const params = new URLSearchParams(search);
+  const page = Number(params.get(PAGE_PARAM));
+
+  return {
+    filterModel: parseFilterModel(params.get(FILTER_PARAM)),
+    sortModel: parseSortModel(params.get(SORT_PARAM)),
+    page: Number.isInteger(page) && page > 1 ? page - 1 : 0,
+    focusedRecord: params.get(RECORD_PARAM) || null
+  };
+}
+
+/**
+ * Write grid state into a query string, keeping any unrelated parameters of the current one
+ * Default values are left out so an unfiltered first page has a clean URL
+ */
+export function encodeUrlState(state: UrlGridState, currentSearch: string = ''): string {
+  const params = new URLSearchParams(currentSearch);
+  STATE_PARAMS.forEach(param => params.delete(param));
+
+  if (Object.keys(state.filterModel).length > 0) {
+    params.set(FILTER_PARAM, JSON.stringify(state.filterModel));
+  }
+  if (state.sortModel.length > 0) {
+    params.set(SORT_PARAM, state.sortModel.map(sort => `${sort.colId}:${sort.sort}`).join(','));
+  }
+  if (state.page > 0) {
+    params.set(PAGE_PARAM, String(state.page + 1));
+  }
+  if (state.focusedRecord) {
+    params.set(RECORD_PARAM, state.focusedRecord);
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Check whether a query string carries any grid state
+ */
+export function hasUrlState(search: string): boolean {
+  const params = new URLSearchParams(search);
+  return STATE_PARAMS.some(param => params.has(param));
+}
@@ -0,0 +1,226 @@
+/**
+ * Declarative validation rules for discount records
+ * One schema shared by cell editing, bulk updates and CSV import
+ */
+
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus,
+  PLATFORM_REGION_CONSTRAINTS
+} from '../types/discount';
+import { isValidDateString, isValidTimeZone, getStartInstant, getEndInstant } from './dateUtils';
+import { isStatusCombinationValid } from './statusTransitions';
+
+// Rules for a single field
+export interface FieldSchema {
+  label: string;
+  type: 'text' | 'number' | 'date' | 'time' | 'timezone' | 'enum';
+  required?: boolean;
+  min?: number;
+  max?: number;
+  values?: readonly string[];
+}
+
+// A rule that compares several fields of the same record
+export interface RecordRule {
+  fields: (keyof DiscountRecord)[]; // Fields highlighted when the rule fails
+  message: string | ((record: DiscountRecord) => string);
+  isValid: (record: DiscountRecord) => boolean;
+}
+
+export interface ValidationError {
+  field: keyof DiscountRecord;
+  message: string;
+}
+
+type FieldValue = string | number | null | undefined;
+
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Field schema for every stored DiscountRecord field
+export const DISCOUNT_RECORD_SCHEMA: Partial<Record<keyof DiscountRecord, FieldSchema>> = {
+  clientId: { label: 'Client Id', type: 'text', required: true },
+  client: { label: 'Client', type: 'text', required: true },
+  platform: { label: 'Platform', type: 'enum', required: true, values: Object.values(Platform) },
+  region: { label: 'Region', type: 'enum', required: true, values: Object.values(Region) },
+  discount: { label: 'Discount', type: 'text' },
+  startDate: { label: 'Start Date', type: 'date', required: true },
+  startTime: { label: 'Start Time', type: 'time' },
+  endDate: { label: 'End Date', type: 'date', required: true },
+  endTime: { label: 'End Time', type: 'time' },
+  // Optional; the region's default zone is used when empty
+  timezone: { label: 'Timezone', type: 'timezone' },
+  percent: { label: 'Percent', type: 'number', required: true, min: 0, max: 100 },
+  deadline: { label: 'Deadline', type: 'date' },
+  implementationStatus: {
+    label: 'Implementation Status',
+    type: 'enum',
+    required: true,
+    values: Object.values(ImplementationStatus)
+  },
+  salesEventStatus: {
+    label: 'Sales Event Status',
+    type: 'enum',
+    required: true,
+    values: Object.values(SalesEventStatus)
+  },
+  comments: { label: 'Comments', type: 'text' }
+};
+
+// Fields with a schema and their schema, in schema order
+const SCHEMA_ENTRIES = Object.entries(DISCOUNT_RECORD_SCHEMA) as [keyof DiscountRecord, FieldSchema][];
+
+// Rules spanning several fields; only checked once each field is valid on its own
+export const DISCOUNT_RECORD_RULES: RecordRule[] = [
+  {
+    fields: ['startDate', 'startTime', 'endDate', 'endTime'],
+    message: 'End date and time must be after the start date and time',
+    isValid: record => getEndInstant(record) > getStartInstant(record)
+  },
+  {
+    fields: ['platform', 'region'],
+    message: record => `Region "${record.region}" is not available on ${record.platform}`,
+    isValid: record => isRegionAllowed(record.platform, record.region)
+  },
+  {
+    fields: ['implementationStatus', 'salesEventStatus'],
+    message: 'A sales event can only be Active or Completed once implementation is Completed',
+    isValid: isStatusCombinationValid
+  }
+];
+
+/**
+ * Regions a platform supports, from PLATFORM_REGION_CONSTRAINTS
+ */
+export function getAllowedRegions(platform: Platform): Region[] {
+  return PLATFORM_REGION_CONSTRAINTS[platform] ?? [];
+}
+
+/**
+ * Check whether a platform supports a region
+ */
+export function isRegionAllowed(platform: Platform, region: Region): boolean {
+  return getAllowedRegions(platform).includes(region);
+}
+
+/**
+ * Find records whose region is not supported by their platform
+ */
+export function findPlatformRegionViolations(records: readonly DiscountRecord[]): DiscountRecord[] {
+  return records.filter(record => !isRegionAllowed(record.platform, record.region));
+}
+
+/**
+ * Check whether a value counts as missing
+ */
+function isEmpty(value: FieldValue): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '') ||
+    (typeof value === 'number' && isNaN(value));
+}
+
+/**
+ * Message for an invalid value; only built on failure, as most values are valid
+ */
+function getInvalidMessage(schema: FieldSchema, value: FieldValue, expected: string): string {
+  return `Invalid ${schema.label.toLowerCase()} "${value}"${expected}`;
+}
+
+/**
+ * Validate a single field value against its schema
+ * Returns an error message, or null when the value is valid
+ */
+export function validateField(field: keyof DiscountRecord, value: FieldValue): string | null {
+  const schema = DISCOUNT_RECORD_SCHEMA[field];
+  return schema ? checkValue(schema, value) : null;
+}
+
+/**
+ * Check a value against a field schema, returning an error message or null
+ */
+function checkValue(schema: FieldSchema, value: FieldValue): string | null {
+  if (isEmpty(value)) {
+    return schema.required ? `${schema.label} is required` : null;
+  }
+
+  switch (schema.type) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (isNaN(number)) {
+        return getInvalidMessage(schema, value, ' (expected a number)');
+      }
+      if ((schema.min !== undefined && number < schema.min) || (schema.max !== undefined && number > schema.max)) {
+        return getInvalidMessage(schema, value, ` (expected ${schema.min}-${schema.max})`);
+      }
+      return null;
+    }
+    case 'date':
+      return isValidDateString(String(value)) ? null : getInvalidMessage(schema, value, ' (expected YYYY-MM-DD)');
+    case 'time':
+      return TIME_REGEX.test(String(value)) ? null : getInvalidMessage(schema, value, ' (expected HH:MM)');
+    case 'timezone':
+      return isValidTimeZone(String(value)) ? null : getInvalidMessage(schema, value, ' (expected an IANA time zone)');
+    case 'enum':
+      return schema.values?.includes(String(value)) ? null : getInvalidMessage(schema, value, '');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate a complete record, returning every field and cross-field error
+ */
+export function validateRecord(record: DiscountRecord): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  SCHEMA_ENTRIES.forEach(([field, schema]) => {
+    const message = checkValue(schema, record[field]);
+    if (message) {
+      errors.push({ field, message });
+    }
+  });
+
+  DISCOUNT_RECORD_RULES.forEach(rule => {
+    // Cross-field rules are meaningless while one of their fields is invalid
+    if (errors.length > 0 && rule.fields.some(field => errors.some(error => error.field === field))) return;
+    if (!rule.isValid(record)) {
+      const message = typeof rule.message === 'function' ? rule.message(record) : rule.message;
+      rule.fields.forEach(field => errors.push({ field, message }));
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate many records, returning errors keyed by clientId for invalid records only
+ * Pass a cache to reuse results for record objects that have not been replaced since the last run
+ */
+export function validateRecords(
+  records: readonly DiscountRecord[],
+  cache?: WeakMap<DiscountRecord, ValidationError[]>
+): Map<string, ValidationError[]> {
+  const result = new Map<string, ValidationError[]>();
+
+  records.forEach(record => {
+    let errors = cache?.get(record);
+    if (!errors) {
+      errors = validateRecord(record);
+      cache?.set(record, errors);
+    }
+    if (errors.length > 0) {
+      result.set(record.clientId, errors);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * List distinct error messages, e.g. for display in a form or import preview
+ */
+export function getErrorMessages(errors: ValidationError[]): string[] {
+  return Array.from(new Set(errors.map(error => error.message)));
+}
@@ -0,0 +1,387 @@
+/**
+ * XLSX export functionality for discount data
+ * Writes an Office Open XML workbook of the chosen columns (the CSV layout by default) with typed cells: numbers,
+ * real dates and times, percent formatting, and formulas for the computed Month and Length columns.
+ * The header row is frozen and filterable, and enum columns get dropdown lists.
+ */
+
+import {
+  type DiscountRecord,
+  Platform,
+  Region,
+  ImplementationStatus,
+  SalesEventStatus
+} from '../types/discount';
+import { type AggregateDimension, AGGREGATE_DIMENSIONS, buildPivotTable } from './aggregation';
+import { type DateFormat, CSV_COLUMNS, getColumnHeader } from './csvExport';
+import { calculateDuration, getMonthName } from './dateUtils';
+import { createZip } from './zipArchive';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// How a column's values are written
+type XlsxColumnKind = 'text' | 'date' | 'time' | 'percent' | 'month' | 'length';
+
+const COLUMN_KINDS: Partial<Record<keyof DiscountRecord, XlsxColumnKind>> = {
+  startDate: 'date',
+  endDate: 'date',
+  deadline: 'date',
+  startTime: 'time',
+  endTime: 'time',
+  percent: 'percent',
+  month: 'month',
+  length: 'length'
+};
+
+// Allowed values offered as dropdowns
+const COLUMN_OPTIONS: Partial<Record<keyof DiscountRecord, string[]>> = {
+  platform: Object.values(Platform),
+  region: Object.values(Region),
+  implementationStatus: Object.values(ImplementationStatus),
+  salesEventStatus: Object.values(SalesEventStatus)
+};
+
+// Column widths in characters
+const COLUMN_WIDTHS: Partial<Record<keyof DiscountRecord, number>> = {
+  clientId: 14,
+  client: 22,
+  platform: 18,
+  region: 20,
+  discount: 28,
+  timezone: 20,
+  implementationStatus: 22,
+  salesEventStatus: 18,
+  comments: 36
+};
+
+// Every column in layout order, written when no columns are chosen
+const XLSX_COLUMNS = CSV_COLUMNS.map(column => column.field);
+
+// Columns the Length formula reads
+const LENGTH_INPUTS: (keyof DiscountRecord)[] = ['startDate', 'startTime', 'endDate', 'endTime'];
+
+// Excel number format for each date layout
+const DATE_FORMAT_CODES: Record<DateFormat, string> = {
+  iso: 'yyyy-mm-dd',
+  dmy: 'dd/mm/yyyy',
+  mdy: 'mm/dd/yyyy'
+};
+
+// Dimensions broken down on the summary sheet
+const SUMMARY_DIMENSIONS: AggregateDimension[] = ['platform', 'region', 'implementationStatus', 'salesEventStatus'];
+
+// Cell style indexes into cellXfs in styles.xml
+const STYLE = {
+  default: 0,
+  header: 1,
+  date: 2,
+  time: 3,
+  percent: 4,
+  decimal: 5
+} as const;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Day 0 of Excel's 1900 date system, as a UTC timestamp
+export const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+export interface XlsxWorkbookOptions {
+  rowParts: string[]; // Sheet rows as written by createXlsxRowWriter, joined in order
+  rowCount: number; // Number of records in rowParts
+  columns?: readonly (keyof DiscountRecord)[]; // Columns the rows were written with; every column by default
+  dateFormat?: DateFormat; // How date cells are displayed; yyyy-mm-dd by default
+  summaryRecords?: readonly DiscountRecord[]; // Adds a summary sheet over these records
+}
+
+/**
+ * Column letters for a zero-based column index (0 → A, 26 → AA)
+ */
+export function getColumnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Escape text for XML, dropping control characters XML cannot hold
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Excel date serial for a yyyy-mm-dd date, or null when it is not one
+ */
+export function toExcelDate(dateString: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateString);
+  if (!match) return null;
+  return (Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) - EXCEL_EPOCH) / MS_PER_DAY;
+}
+
+/**
+ * Excel time of day (a fraction of a day) for a HH:MM time, or null when it is not one
+ */
+export function toExcelTime(timeString: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(timeString);
+  if (!match) return null;
+  return (Number(match[1]) * 60 + Number(match[2])) / (24 * 60);
+}
+
+function textCell(ref: string, value: string, style: number = STYLE.default): string {
+  if (value === '') return '';
+  const space = /^\s|\s$/.test(value) ? ' xml:space="preserve"' : '';
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t${space}>${escapeXml(value)}</t></is></c>`;
+}
+
+function numberCell(ref: string, value: number, style: number = STYLE.default): string {
+  return `<c r="${ref}" s="${style}"><v>${value}</v></c>`;
+}
+
+/**
+ * Column letters of the chosen fields in the sheet
+ */
+function getColumnLetters(columns: readonly (keyof DiscountRecord)[]): Map<keyof DiscountRecord, string> {
+  return new Map(columns.map((field, index) => [field, getColumnLetter(index)]));
+}
+
+/**
+ * Writer of sheet rows for the chosen columns; rowNumber is the 1-based sheet row, the header being row 1
+ * Month and Length are formulas over the row's dates, with their current values cached for readers that do not
+ * calculate; when a column they need is not exported they are written as plain values
+ */
+export function createXlsxRowWriter(
+  columns: readonly (keyof DiscountRecord)[] = XLSX_COLUMNS
+): (record: DiscountRecord, rowNumber: number) => string {
+  const letters = getColumnLetters(columns);
+  const cellWriters = columns.map(field => {
+    const letter = letters.get(field)!;
+    const kind = COLUMN_KINDS[field] ?? 'text';
+
+    return (record: DiscountRecord, rowNumber: number): string => {
+      const ref = `${letter}${rowNumber}`;
+      const value = record[field];
+
+      switch (kind) {
+        case 'date': {
+          const serial = toExcelDate(String(value ?? ''));
+          return serial === null ? textCell(ref, String(value ?? '')) : numberCell(ref, serial, STYLE.date);
+        }
+        case 'time': {
+          const time = toExcelTime(String(value ?? ''));
+          return time === null ? textCell(ref, String(value ?? '')) : numberCell(ref, time, STYLE.time);
+        }
+        case 'percent':
+          return numberCell(ref, record.percent / 100, STYLE.percent);
+        case 'month': {
+          const month = getMonthName(record.startDate);
+          const startDate = letters.get('startDate');
+          if (!startDate) return textCell(ref, month);
+          const formula = escapeXml(`TEXT(${startDate}${rowNumber},"mmmm")`);
+          return `<c r="${ref}" s="${STYLE.default}" t="str"><f>${formula}</f><v>${escapeXml(month)}</v></c>`;
+        }
+        case 'length': {
+          const length = record.length ?? calculateDuration(record, 'days');
+          const [startDate, startTime, endDate, endTime] = LENGTH_INPUTS.map(input => letters.get(input));
+          if (!startDate || !startTime || !endDate || !endTime) return numberCell(ref, length, STYLE.decimal);
+          // Wall-clock difference in the record's own time zone, as the Length column shows
+          const start = `(${startDate}${rowNumber}+${startTime}${rowNumber})`;
+          const end = `(${endDate}${rowNumber}+${endTime}${rowNumber})`;
+          return `<c r="${ref}" s="${STYLE.decimal}"><f>ROUND(MAX(0,${end}-${start}),1)</f><v>${length}</v></c>`;
+        }
+        default:
+          return textCell(ref, String(value ?? ''));
+      }
+    };
+  });
+
+  return (record, rowNumber) => `<row r="${rowNumber}">${cellWriters.map(write => write(record, rowNumber)).join('')}</row>`;
+}
+
+/**
+ * Sheet row for one record with every column
+ */
+export function getXlsxRow(record: DiscountRecord, rowNumber: number): string {
+  return createXlsxRowWriter()(record, rowNumber);
+}
+
+/**
+ * Header row of the records sheet
+ */
+function getHeaderRow(columns: readonly (keyof DiscountRecord)[]): string {
+  const cells = columns.map((field, index) => textCell(`${getColumnLetter(index)}1`, getColumnHeader(field), STYLE.header));
+  return `<row r="1">${cells.join('')}</row>`;
+}
+
+/**
+ * Records sheet with a frozen, filterable header row and dropdowns on the enum columns
+ */
+function getRecordsSheet(rowParts: string[], rowCount: number, columns: readonly (keyof DiscountRecord)[]): string[] {
+  const lastColumn = getColumnLetter(columns.length - 1);
+  const lastRow = rowCount + 1;
+
+  const cols = columns.map((field, index) => {
+    const width = COLUMN_WIDTHS[field] ?? 13;
+    return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+  }).join('');
+
+  // Dropdowns cover the data rows plus room for rows added in Excel
+  const validations = columns.flatMap((field, index) => {
+    const options = COLUMN_OPTIONS[field];
+    if (!options) return [];
+    const letter = getColumnLetter(index);
+    const list = escapeXml(`"${options.join(',')}"`);
+    return [
+      `<dataValidation type="list" allowBlank="1" showErrorMessage="1" sqref="${letter}2:${letter}${lastRow + 1000}">` +
+      `<formula1>${list}</formula1></dataValidation>`
+    ];
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    `<dimension ref="A1:${lastColumn}${lastRow}"/>`,
+    '<sheetViews><sheetView workbookViewId="0">',
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>',
+    '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>',
+    '</sheetView></sheetViews>',
+    `<cols>${cols}</cols>`,
+    `<sheetData>${getHeaderRow(columns)}`,
+    ...rowParts,
+    '</sheetData>',
+    `<autoFilter ref="A1:${lastColumn}${lastRow}"/>`,
+    validations.length > 0 ? `<dataValidations count="${validations.length}">${validations.join('')}</dataValidations>` : '',
+    '</worksheet>'
+  ];
+}
+
+/**
+ * Summary sheet with totals and a breakdown by platform, region and status
+ */
+function getSummarySheet(records: readonly DiscountRecord[]): string {
+  const rows: string[] = [];
+  const addRow = (cells: ((ref: string) => string)[]) => {
+    const rowNumber = rows.length + 1;
+    rows.push(`<row r="${rowNumber}">${cells.map((cell, index) => cell(`${getColumnLetter(index)}${rowNumber}`)).join('')}</row>`);
+  };
+  const text = (value: string, style?: number) => (ref: string) => textCell(ref, value, style);
+  const number = (value: number | null, style?: number) => (ref: string) => (value === null ? '' : numberCell(ref, value, style));
+
+  const total = buildPivotTable(records, 'platform', null).grandTotal;
+  addRow([text('Summary', STYLE.header)]);
+  addRow([text('Records'), number(total.count)]);
+  addRow([text('Average Percent'), number(total.avgPercent === null ? null : total.avgPercent / 100, STYLE.percent)]);
+  addRow([text('Discount-Days'), number(total.discountDays, STYLE.decimal)]);
+
+  SUMMARY_DIMENSIONS.forEach(dimension => {
+    const label = AGGREGATE_DIMENSIONS.find(item => item.key === dimension)?.label ?? dimension;
+    const table = buildPivotTable(records, dimension, null);
+    addRow([]);
+    addRow([label, 'Count', 'Avg Percent', 'Discount-Days'].map(header => text(header, STYLE.header)));
+    table.rowKeys.forEach((key, index) => {
+      const values = table.rowTotals[index];
+      addRow([
+        text(key || '(none)'),
+        number(values.count),
+        number(values.avgPercent === null ? null : values.avgPercent / 100, STYLE.percent),
+        number(values.discountDays, STYLE.decimal)
+      ]);
+    });
+  });
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<cols><col min="1" max="1" width="24" customWidth="1"/><col min="2" max="4" width="14" customWidth="1"/></cols>' +
+    `<sheetData>${rows.join('')}</sheetData></worksheet>`;
+}
+
+/**
+ * Number formats, fonts and cell styles referenced by the STYLE indexes
+ */
+function getStyles(dateFormat: DateFormat): string {
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<numFmts count="3">' +
+    `<numFmt numFmtId="164" formatCode="${DATE_FORMAT_CODES[dateFormat]}"/>` +
+    '<numFmt numFmtId="165" formatCode="hh:mm"/>' +
+    '<numFmt numFmtId="166" formatCode="0.0"/>' +
+    '</numFmts>' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>' +
+    '<fill><patternFill patternType="solid"><fgColor rgb="FFE9ECEF"/><bgColor indexed="64"/></patternFill></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="6">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="9" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '</cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    '</styleSheet>';
+}
+
+/**
+ * Package the sheets as an .xlsx file
+ */
+export function createXlsxWorkbook(options: XlsxWorkbookOptions): Blob {
+  const { rowParts, rowCount, columns = XLSX_COLUMNS, dateFormat = 'iso', summaryRecords } = options;
+  const sheets = [{ name: 'Discounts', parts: getRecordsSheet(rowParts, rowCount, columns) }];
+  if (summaryRecords) {
+    sheets.push({ name: 'Summary', parts: [getSummarySheet(summaryRecords)] });
+  }
+
+  const lastColumn = getColumnLetter(columns.length - 1);
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<bookViews><workbookView/></bookViews><sheets>' +
+    sheets.map((sheet, index) => `<sheet name="${sheet.name}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+    '</sheets><definedNames>' +
+    `<definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">Discounts!$A$1:$${lastColumn}$${rowCount + 1}</definedName>` +
+    '</definedNames></workbook>';
+
+  const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheets.map((_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    ).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    sheets.map((_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>';
+
+  const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+
+  const encoder = new TextEncoder();
+  const encode = (parts: string[]) => parts.map(part => encoder.encode(part));
+
+  return createZip([
+    { name: '[Content_Types].xml', data: encode([contentTypes]) },
+    { name: '_rels/.rels', data: encode([rootRels]) },
+    { name: 'xl/workbook.xml', data: encode([workbook]) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encode([workbookRels]) },
+    { name: 'xl/styles.xml', data: encode([getStyles(dateFormat)]) },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data: encode(sheet.parts) }))
+  ], XLSX_MIME_TYPE);
+}
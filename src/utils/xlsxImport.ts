@@ -0,0 +1,218 @@
+/**
+ * XLSX import functionality for discount data
+ * Reads the first sheet of a workbook into rows of text in the CSV layout, so the same header mapping
+ * and validation apply. Dates, times and percents are converted back from Excel's typed cells.
+ */
+
+import { readZip } from './zipArchive';
+import { EXCEL_EPOCH } from './xlsxExport';
+
+// How a number cell is turned back into text, from its number format
+type CellFormat = 'general' | 'date' | 'time' | 'dateTime' | 'percent';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Built-in number formats that show dates and times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 22]);
+const BUILTIN_TIME_FORMATS = new Set([18, 19, 20, 21, 45, 46, 47]);
+const BUILTIN_PERCENT_FORMATS = new Set([9, 10]);
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Replace XML entities and character references
+ */
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[name] ?? entity;
+  });
+}
+
+/**
+ * Value of an attribute in an element's attribute text
+ */
+function getAttribute(attributes: string, name: string): string | null {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+  return match ? unescapeXml(match[1]) : null;
+}
+
+/**
+ * Concatenated text runs of a rich or plain string, leaving out phonetic hints
+ */
+function getStringText(xml: string): string {
+  const runs = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').match(/<t\b[^>]*>[\s\S]*?<\/t>/g) ?? [];
+  return runs.map(run => unescapeXml(run.replace(/^<t\b[^>]*>|<\/t>$/g, ''))).join('');
+}
+
+/**
+ * Classify a number format by what it displays
+ */
+function classifyFormat(formatId: number, formatCode: string | undefined): CellFormat {
+  if (BUILTIN_PERCENT_FORMATS.has(formatId)) return 'percent';
+  if (BUILTIN_DATE_FORMATS.has(formatId)) return formatId === 22 ? 'dateTime' : 'date';
+  if (BUILTIN_TIME_FORMATS.has(formatId)) return 'time';
+  if (!formatCode) return 'general';
+
+  // Ignore quoted text, escaped characters and [colour]/[locale] sections
+  const code = formatCode.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+  if (code.includes('%')) return 'percent';
+  const hasDate = /[dy]/i.test(code) || /m{3,}/i.test(code);
+  const hasTime = /[hs]/i.test(code);
+  if (hasDate && hasTime) return 'dateTime';
+  if (hasDate) return 'date';
+  if (hasTime) return 'time';
+  return /m/i.test(code) ? 'date' : 'general';
+}
+
+/**
+ * Format of every cell style, by style index
+ */
+function readCellFormats(stylesXml: string | undefined): CellFormat[] {
+  if (!stylesXml) return [];
+
+  const formatCodes = new Map<number, string>();
+  for (const match of stylesXml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const id = getAttribute(match[1], 'numFmtId');
+    const code = getAttribute(match[1], 'formatCode');
+    if (id !== null && code !== null) formatCodes.set(Number(id), code);
+  }
+
+  const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml)?.[1] ?? '';
+  return Array.from(cellXfs.matchAll(/<xf\b([^>]*?)\/?>/g), match => {
+    const id = Number(getAttribute(match[1], 'numFmtId') ?? 0);
+    return classifyFormat(id, formatCodes.get(id));
+  });
+}
+
+/**
+ * yyyy-mm-dd for an Excel date serial
+ */
+function fromExcelDate(serial: number): string {
+  return new Date(EXCEL_EPOCH + Math.floor(serial) * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * HH:MM for the time-of-day part of an Excel serial
+ */
+function fromExcelTime(serial: number): string {
+  const minutes = Math.round((serial - Math.floor(serial)) * 24 * 60) % (24 * 60);
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Text for a number cell, shown as its format shows it
+ */
+function formatNumber(value: number, format: CellFormat): string {
+  switch (format) {
+    case 'date':
+      return fromExcelDate(value);
+    case 'time':
+      return fromExcelTime(value);
+    case 'dateTime':
+      return `${fromExcelDate(value)} ${fromExcelTime(value)}`;
+    case 'percent':
+      // Stored as a fraction; the CSV layout writes whole percents
+      return String(Number((value * 100).toPrecision(12)));
+    default:
+      return String(Number(value.toPrecision(15)));
+  }
+}
+
+/**
+ * Zero-based column index of a cell reference such as "C12"
+ */
+function getColumnIndex(ref: string): number {
+  let index = 0;
+  for (const char of ref) {
+    const code = char.toUpperCase().charCodeAt(0);
+    if (code < 65 || code > 90) break;
+    index = index * 26 + (code - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Path of the workbook's first sheet inside the archive
+ */
+function findFirstSheet(entries: Map<string, Uint8Array>, decode: (name: string) => string | undefined): string {
+  const workbook = decode('xl/workbook.xml') ?? '';
+  const rels = decode('xl/_rels/workbook.xml.rels') ?? '';
+  const sheetAttributes = /<sheet\b([^>]*)\/?>/.exec(workbook)?.[1];
+  const relationId = sheetAttributes ? getAttribute(sheetAttributes, 'r:id') : null;
+
+  for (const match of rels.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (getAttribute(match[1], 'Id') !== relationId) continue;
+    const target = getAttribute(match[1], 'Target') ?? '';
+    const path = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    if (entries.has(path)) return path;
+  }
+
+  if (entries.has('xl/worksheets/sheet1.xml')) return 'xl/worksheets/sheet1.xml';
+  throw new Error('The workbook has no worksheets');
+}
+
+/**
+ * Read the first sheet of an .xlsx file as rows of text, dropping empty rows
+ * Throws when the file is not a readable workbook
+ */
+export async function readXlsxRows(data: ArrayBuffer | Uint8Array): Promise<string[][]> {
+  const entries = await readZip(data instanceof Uint8Array ? data : new Uint8Array(data));
+  const decoder = new TextDecoder();
+  const decode = (name: string) => {
+    const entry = entries.get(name);
+    return entry ? decoder.decode(entry) : undefined;
+  };
+
+  const sheetXml = decode(findFirstSheet(entries, decode)) ?? '';
+  const sharedStrings = Array.from(
+    (decode('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    match => getStringText(match[1])
+  );
+  const cellFormats = readCellFormats(decode('xl/styles.xml'));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[1] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] ?? '';
+      const type = getAttribute(attributes, 't') ?? 'n';
+      const ref = getAttribute(attributes, 'r');
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1];
+
+      let text: string;
+      if (type === 'inlineStr') {
+        text = getStringText(content);
+      } else if (rawValue === undefined) {
+        continue;
+      } else if (type === 's') {
+        text = sharedStrings[Number(rawValue)] ?? '';
+      } else if (type === 'b') {
+        text = rawValue === '1' ? 'TRUE' : 'FALSE';
+      } else if (type === 'd') {
+        text = unescapeXml(rawValue).slice(0, 10);
+      } else if (type === 'n') {
+        const format = cellFormats[Number(getAttribute(attributes, 's') ?? 0)] ?? 'general';
+        text = formatNumber(Number(rawValue), format);
+      } else {
+        // Formula results (str) and errors (e) are stored as text
+        text = unescapeXml(rawValue);
+      }
+
+      const column = ref ? getColumnIndex(ref) : row.length;
+      while (row.length < column) row.push('');
+      row[column] = text;
+    }
+
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
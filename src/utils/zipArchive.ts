@@ -0,0 +1,191 @@
+/**
+ * Minimal ZIP archive writer and reader, used for XLSX files
+ * Entries are written uncompressed (stored), which every ZIP reader accepts.
+ * Reading supports stored and deflated entries, inflated with the platform's DecompressionStream.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array[]; // Content in parts, so large entries never need one contiguous buffer
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// Entry names are UTF-8 (general purpose flag bit 11)
+const UTF8_FLAG = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 lookup table, built on first use
+ */
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 checksum of content given in parts
+ */
+export function crc32(parts: Uint8Array[]): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  parts.forEach(part => {
+    for (let i = 0; i < part.length; i++) {
+      crc = table[(crc ^ part[i]) & 0xff] ^ (crc >>> 8);
+    }
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Time and date in MS-DOS format, as stored in ZIP headers
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Build an archive of stored entries as a Blob, without copying the entry content
+ */
+export function createZip(entries: ZipEntry[], mimeType: string = 'application/zip', modified: Date = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const stamp = toDosDateTime(modified);
+  const parts: BlobPart[] = [];
+  const centralHeaders: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const size = entry.data.reduce((total, part) => total + part.length, 0);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, 20, true); // Version needed to extract
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, METHOD_STORED, true);
+    localView.setUint16(10, stamp.time, true);
+    localView.setUint16(12, stamp.date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true); // Compressed size
+    localView.setUint32(22, size, true); // Uncompressed size
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, 20, true); // Version made by
+    centralView.setUint16(6, 20, true); // Version needed to extract
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, METHOD_STORED, true);
+    centralView.setUint16(12, stamp.time, true);
+    centralView.setUint16(14, stamp.date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, ...entry.data);
+    centralHeaders.push(central);
+    offset += local.length + size;
+  });
+
+  const centralSize = centralHeaders.reduce((total, header) => total + header.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralHeaders, end], { type: mimeType });
+}
+
+/**
+ * Inflate raw deflate data
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read every entry of an archive, keyed by name
+ * Throws for files that are not ZIP archives or use unsupported features such as encryption
+ */
+export async function readZip(data: Uint8Array): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end record is at most 22 bytes plus a 64 KiB comment from the end
+  let endOffset = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('The file is not a ZIP archive');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let position = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('The ZIP archive is damaged');
+    }
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const name = decoder.decode(data.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (flags & 0x1) {
+      throw new Error(`"${name}" is encrypted`);
+    }
+
+    // The local header repeats the name and may have a different extra field
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const content = data.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      entries.set(name, content);
+    } else if (method === METHOD_DEFLATED) {
+      entries.set(name, await inflate(content));
+    } else {
+      throw new Error(`"${name}" uses unsupported compression method ${method}`);
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,67 @@
+/**
+ * Web Worker hosting the data engine
+ * Owns a copy of the dataset and runs generation, filtering, aggregation and serialization off the UI thread
+ */
+
+import type { EngineMessage, EngineReply } from '../services/dataEngine';
+import { TaskCancelledError, createEngineDataset } from '../services/dataEngineTasks';
+
+// The worker global scope; typed by hand because the app is compiled against the DOM library
+const scope = self as unknown as {
+  postMessage(message: EngineReply): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<EngineMessage>) => void): void;
+};
+
+const dataset = createEngineDataset();
+
+// Ids of tasks that are queued or running
+const pending = new Set<number>();
+
+// Ids of pending tasks that have been asked to stop
+const cancelled = new Set<number>();
+
+// Tasks run one at a time in arrival order, so updates are applied before the filters that follow them
+let queue: Promise<void> = Promise.resolve();
+
+/**
+ * Run a request and post back its result, error or cancellation
+ */
+async function runRequest(message: Extract<EngineMessage, { kind: 'request' }>) {
+  const { id, request } = message;
+  let lastProgress = -1;
+
+  try {
+    const result = await dataset.run(request, {
+      isCancelled: () => cancelled.has(id),
+      reportProgress: fraction => {
+        // Only post whole-percent changes to keep message traffic low
+        const percent = Math.floor(fraction * 100);
+        if (percent !== lastProgress) {
+          lastProgress = percent;
+          scope.postMessage({ kind: 'progress', id, fraction });
+        }
+      }
+    });
+    scope.postMessage({ kind: 'result', id, result });
+  } catch (error) {
+    if (error instanceof TaskCancelledError) {
+      scope.postMessage({ kind: 'cancelled', id });
+    } else {
+      scope.postMessage({ kind: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    pending.delete(id);
+    cancelled.delete(id);
+  }
+}
+
+scope.addEventListener('message', event => {
+  const message = event.data;
+  if (message.kind === 'cancel') {
+    // A cancel can cross paths with the result of a task that already finished
+    if (pending.has(message.id)) cancelled.add(message.id);
+    return;
+  }
+  pending.add(message.id);
+  queue = queue.then(() => runRequest(message));
+});